@@ -0,0 +1,218 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ClientKeyFeature, ClientKeyRecord, ClientKeyRequest, ClientKeyResponse, UpstreamCredential } from './types';
+import { createLogger } from './logger';
+
+// Proxy-issued client keys are stored in a JSON file (CLIENT_KEYS_FILE)
+// Client key authentication is enabled as soon as the file is configured
+
+export const CLIENT_KEY_FEATURES: ClientKeyFeature[] = ['vertex', 'grounding', 'image_generation'];
+
+const log = createLogger('client_keys');
+
+let clientKeys: ClientKeyRecord[] | null = null;
+let pendingWrite: Promise<void> = Promise.resolve();
+
+// Helper function to check whether requests must present a client key
+export function isClientKeyAuthEnabled(): boolean {
+  return !!process.env.CLIENT_KEYS_FILE;
+}
+
+// Helper function to check whether requests without a client key may use the server's credentials
+// (the GEMINI_API_KEY / GEMINI_API_KEYS pool and the Application Default Credentials for Vertex AI)
+export function isAnonymousAccessAllowed(): boolean {
+  return process.env.ALLOW_ANONYMOUS?.toLowerCase() === 'true';
+}
+
+// Helper function to hash a client key for storage and lookup
+function hashClientKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+// Load the client keys from CLIENT_KEYS_FILE on first use; a missing file is an empty store
+function getClientKeys(): ClientKeyRecord[] {
+  if (clientKeys) {
+    return clientKeys;
+  }
+  const filePath = process.env.CLIENT_KEYS_FILE;
+  if (!filePath || !fs.existsSync(filePath)) {
+    clientKeys = [];
+    return clientKeys;
+  }
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    clientKeys = Array.isArray(parsed.keys) ? parsed.keys : [];
+  } catch (error: any) {
+    // Refuse to start from an empty store, the next write would erase every key
+    throw new Error(`Failed to read client keys from ${filePath}: ${error.message}`);
+  }
+  log.info('Loaded client keys', { count: clientKeys!.length, file: filePath });
+  return clientKeys!;
+}
+
+// Write the client keys to CLIENT_KEYS_FILE (through a temp file, so a crash never leaves a partial file)
+function saveClientKeys(): Promise<void> {
+  const filePath = process.env.CLIENT_KEYS_FILE!;
+  const data = JSON.stringify({ keys: getClientKeys() }, null, 2);
+  pendingWrite = pendingWrite.catch(() => undefined).then(async () => {
+    await fs.promises.mkdir(path.dirname(path.resolve(filePath)), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, data, { mode: 0o600 });
+    await fs.promises.rename(tempPath, filePath);
+  });
+  return pendingWrite;
+}
+
+// Helper function to look up an enabled client key by the key a client sent
+export function findClientKey(key: string): ClientKeyRecord | undefined {
+  const keyHash = hashClientKey(key);
+  return getClientKeys().find(record => record.key_hash === keyHash && !record.disabled);
+}
+
+export function listClientKeys(): ClientKeyRecord[] {
+  return getClientKeys();
+}
+
+export function getClientKey(id: string): ClientKeyRecord | undefined {
+  return getClientKeys().find(record => record.id === id);
+}
+
+// Create a client key; the key itself is returned only here
+export async function createClientKey(request: ClientKeyRequest): Promise<{ record: ClientKeyRecord; key: string }> {
+  const key = 'sk-gr-' + crypto.randomBytes(24).toString('hex');
+  const record: ClientKeyRecord = {
+    id: 'key_' + crypto.randomBytes(8).toString('hex'),
+    name: request.name!,
+    key_hash: hashClientKey(key),
+    key_prefix: key.substring(0, 12),
+    created_at: Math.floor(Date.now() / 1000),
+    disabled: request.disabled ?? false,
+    ...(request.allowed_models ? { allowed_models: request.allowed_models } : {}),
+    allowed_features: request.allowed_features ?? [],
+    upstream: request.upstream ?? 'default',
+  };
+  getClientKeys().push(record);
+  await saveClientKeys();
+  return { record, key };
+}
+
+export async function updateClientKey(id: string, request: ClientKeyRequest): Promise<ClientKeyRecord | undefined> {
+  const record = getClientKey(id);
+  if (!record) {
+    return undefined;
+  }
+  if (request.name !== undefined) record.name = request.name;
+  if (request.disabled !== undefined) record.disabled = request.disabled;
+  if (request.allowed_features !== undefined) record.allowed_features = request.allowed_features;
+  if (request.upstream !== undefined) record.upstream = request.upstream;
+  // null removes the model restriction
+  if (request.allowed_models === null) {
+    delete record.allowed_models;
+  } else if (request.allowed_models !== undefined) {
+    record.allowed_models = request.allowed_models;
+  }
+  await saveClientKeys();
+  return record;
+}
+
+export async function deleteClientKey(id: string): Promise<boolean> {
+  const keys = getClientKeys();
+  const index = keys.findIndex(record => record.id === id);
+  if (index === -1) {
+    return false;
+  }
+  keys.splice(index, 1);
+  await saveClientKeys();
+  return true;
+}
+
+// Helper function to convert a stored client key to its admin API representation
+export function formatClientKeyResponse(record: ClientKeyRecord, key?: string): ClientKeyResponse {
+  const { key_hash, ...publicFields } = record;
+  return { object: 'client_key', ...publicFields, ...(key ? { key } : {}) };
+}
+
+// Helper function to validate a create or update request for a client key
+// Returns an error message, or undefined when the request is valid
+export function validateClientKeyRequest(request: ClientKeyRequest, isCreate: boolean): string | undefined {
+  if (isCreate || request.name !== undefined) {
+    if (typeof request.name !== 'string' || !request.name.trim()) {
+      return 'name must be a non-empty string';
+    }
+  }
+  if (request.allowed_models !== undefined && request.allowed_models !== null) {
+    if (!Array.isArray(request.allowed_models) || request.allowed_models.some(model => typeof model !== 'string' || !model)) {
+      return 'allowed_models must be an array of model names (a trailing * matches a prefix) or null';
+    }
+  }
+  if (request.allowed_features !== undefined) {
+    if (!Array.isArray(request.allowed_features) || request.allowed_features.some(feature => !CLIENT_KEY_FEATURES.includes(feature))) {
+      return `allowed_features must be an array of ${CLIENT_KEY_FEATURES.map(feature => `'${feature}'`).join(', ')}`;
+    }
+  }
+  if (request.upstream !== undefined && !getUpstreamCredential(request.upstream)) {
+    return `Unknown upstream credential: ${request.upstream}. Configure it in UPSTREAM_CREDENTIALS.`;
+  }
+  if (request.disabled !== undefined && typeof request.disabled !== 'boolean') {
+    return 'disabled must be a boolean';
+  }
+  return undefined;
+}
+
+// Upstream credentials come from the UPSTREAM_CREDENTIALS env JSON, e.g.
+// {"default": {"api_key": "..."}, "vertex-prod": {"vertex": {"project": "my-project", "location": "us-central1"}}}
+// GEMINI_API_KEY (plus the comma-separated GEMINI_API_KEYS pool) is available as "default" unless UPSTREAM_CREDENTIALS defines it
+export function getUpstreamCredentials(): Record<string, UpstreamCredential> {
+  let credentials: Record<string, UpstreamCredential> = {};
+  if (process.env.UPSTREAM_CREDENTIALS) {
+    try {
+      credentials = JSON.parse(process.env.UPSTREAM_CREDENTIALS);
+    } catch (error: any) {
+      log.error('Invalid UPSTREAM_CREDENTIALS JSON', { error });
+    }
+  }
+  const apiKeys = (process.env.GEMINI_API_KEYS || '').split(',').map(key => key.trim()).filter(Boolean);
+  if (!credentials.default && (process.env.GEMINI_API_KEY || apiKeys.length > 0)) {
+    credentials.default = { api_key: process.env.GEMINI_API_KEY, api_keys: apiKeys };
+  }
+  return credentials;
+}
+
+export function getUpstreamCredential(name: string): UpstreamCredential | undefined {
+  return getUpstreamCredentials()[name];
+}
+
+// Helper function to check a model against the allowed models of a client key
+// Any of the given names may match, so both an alias and the Gemini model it resolves to can be allowed
+export function isModelAllowed(record: ClientKeyRecord, models: string[]): boolean {
+  if (!record.allowed_models) {
+    return true;
+  }
+  return models.some(model => record.allowed_models!.some(pattern => pattern.endsWith('*')
+    ? model.startsWith(pattern.slice(0, -1))
+    : model === pattern));
+}
+
+export function isFeatureAllowed(record: ClientKeyRecord, feature: ClientKeyFeature): boolean {
+  return record.allowed_features.includes(feature);
+}
+
+// Helper function to compare a key without leaking its length or content through timing
+function isMatchingKey(key: string | undefined, expectedKey: string | undefined): boolean {
+  if (!expectedKey || !key) {
+    return false;
+  }
+  return crypto.timingSafeEqual(
+    crypto.createHash('sha256').update(key).digest(),
+    crypto.createHash('sha256').update(expectedKey).digest()
+  );
+}
+
+export function isAdminKey(key: string | undefined): boolean {
+  return isMatchingKey(key, process.env.ADMIN_API_KEY);
+}
+
+export function isMetricsKey(key: string | undefined): boolean {
+  return isMatchingKey(key, process.env.METRICS_API_KEY);
+}
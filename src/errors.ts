@@ -0,0 +1,198 @@
+import { Response } from 'express';
+import { InvalidParameterError } from './utils';
+import { getRetryDelayMs } from './upstreamPool';
+import { isNetworkError } from './upstreamRetry';
+
+// Every route reports errors in the OpenAI error envelope:
+// { "error": { "message": "...", "type": "invalid_request_error", "param": null, "code": null } }
+// Gemini SDK errors are translated from their google.rpc status and details
+
+export type OpenAIErrorType =
+  | 'invalid_request_error'
+  | 'authentication_error'
+  | 'permission_error'
+  | 'not_found_error'
+  | 'rate_limit_error'
+  | 'server_error';
+
+export interface OpenAIErrorBody {
+  error: {
+    message: string;
+    type: OpenAIErrorType;
+    param: string | null;
+    code: string | null;
+  };
+}
+
+export interface HttpErrorOptions {
+  type?: OpenAIErrorType;
+  param?: string;
+  code?: string;
+  retryAfter?: number; // Seconds, sent as the Retry-After header
+}
+
+// Error with an HTTP status and the OpenAI error fields to report it with
+export class HttpError extends Error {
+  status: number;
+  type: OpenAIErrorType;
+  param: string | null;
+  code: string | null;
+  retryAfter?: number;
+
+  constructor(status: number, message: string, options: HttpErrorOptions = {}) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.type = options.type ?? getOpenAIErrorType(status);
+    this.param = options.param ?? null;
+    this.code = options.code ?? null;
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+// google.rpc.Code names and the HTTP status / OpenAI error type they are reported with
+const GOOGLE_STATUS_MAPPING: Record<string, { status: number; type: OpenAIErrorType }> = {
+  INVALID_ARGUMENT: { status: 400, type: 'invalid_request_error' },
+  FAILED_PRECONDITION: { status: 400, type: 'invalid_request_error' },
+  OUT_OF_RANGE: { status: 400, type: 'invalid_request_error' },
+  UNAUTHENTICATED: { status: 401, type: 'authentication_error' },
+  PERMISSION_DENIED: { status: 403, type: 'permission_error' },
+  NOT_FOUND: { status: 404, type: 'not_found_error' },
+  ALREADY_EXISTS: { status: 409, type: 'invalid_request_error' },
+  ABORTED: { status: 409, type: 'invalid_request_error' },
+  RESOURCE_EXHAUSTED: { status: 429, type: 'rate_limit_error' },
+  CANCELLED: { status: 499, type: 'invalid_request_error' },
+  UNIMPLEMENTED: { status: 501, type: 'server_error' },
+  INTERNAL: { status: 500, type: 'server_error' },
+  UNKNOWN: { status: 500, type: 'server_error' },
+  DATA_LOSS: { status: 500, type: 'server_error' },
+  UNAVAILABLE: { status: 503, type: 'server_error' },
+  DEADLINE_EXCEEDED: { status: 504, type: 'server_error' },
+};
+
+// Body of a Google API error: { "error": { "code": 429, "message": "...", "status": "RESOURCE_EXHAUSTED", "details": [...] } }
+interface GoogleErrorBody {
+  code?: number;
+  message?: string;
+  status?: string;
+  details?: Array<{ '@type'?: string; reason?: string; fieldViolations?: Array<{ field?: string }> }>;
+}
+
+export function getOpenAIErrorType(status: number): OpenAIErrorType {
+  switch (status) {
+    case 401:
+      return 'authentication_error';
+    case 403:
+      return 'permission_error';
+    case 404:
+      return 'not_found_error';
+    case 429:
+      return 'rate_limit_error';
+    default:
+      return status >= 500 ? 'server_error' : 'invalid_request_error';
+  }
+}
+
+// Helper function to read the Google error body from a Gemini SDK ApiError, whose message is the JSON response body
+function parseGoogleErrorBody(error: any): GoogleErrorBody | undefined {
+  const message: string = error?.message ?? '';
+  const jsonStart = message.indexOf('{');
+  if (jsonStart === -1) {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(message.substring(jsonStart, message.lastIndexOf('}') + 1));
+    return parsed?.error && typeof parsed.error === 'object' ? parsed.error : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Translate an error thrown while handling a request into an HttpError
+// - HttpError and InvalidParameterError are reported as they are
+// - Gemini SDK errors use the google.rpc status, ErrorInfo reason, BadRequest field and RetryInfo delay
+// - Other errors with a numeric status (e.g. request timeouts) keep it
+// - Network errors that left Gemini unreachable are a 502, anything else is a 500
+export function toHttpError(error: any): HttpError {
+  if (error instanceof HttpError) {
+    return error;
+  }
+  if (error instanceof InvalidParameterError) {
+    return new HttpError(400, error.message, { param: error.param, code: 'invalid_value' });
+  }
+
+  const googleError = typeof error?.status === 'number' ? parseGoogleErrorBody(error) : undefined;
+  if (googleError) {
+    const mapping = googleError.status ? GOOGLE_STATUS_MAPPING[googleError.status] : undefined;
+    const details = Array.isArray(googleError.details) ? googleError.details : [];
+    const retryDelayMs = getRetryDelayMs(error);
+    const options: HttpErrorOptions = {
+      type: mapping?.type,
+      code: googleError.status?.toLowerCase(),
+      param: details.find(detail => detail.fieldViolations?.length)?.fieldViolations?.[0]?.field,
+      retryAfter: retryDelayMs !== undefined ? Math.ceil(retryDelayMs / 1000) : undefined,
+    };
+    // Gemini reports an invalid API key as INVALID_ARGUMENT with reason API_KEY_INVALID
+    if (details.some(detail => detail.reason === 'API_KEY_INVALID')) {
+      return new HttpError(401, googleError.message || 'Invalid Google Gemini API key', { ...options, type: 'authentication_error', code: 'invalid_api_key' });
+    }
+    return new HttpError(mapping?.status ?? googleError.code ?? error.status, googleError.message || error.message, options);
+  }
+
+  if (typeof error?.status === 'number') {
+    return new HttpError(error.status, error.message);
+  }
+  if (error?.response && typeof error.response.status === 'number') {
+    // axios errors from downstream services such as the bucket server
+    return new HttpError(502, `Error from downstream API: ${error.message}`);
+  }
+  if (isNetworkError(error)) {
+    return new HttpError(502, `Could not reach the upstream API: ${error.message}`, { code: 'upstream_unreachable' });
+  }
+  return new HttpError(500, error?.message || 'Internal server error');
+}
+
+export function formatOpenAIError(error: HttpError): OpenAIErrorBody {
+  return {
+    error: {
+      message: error.message,
+      type: error.type,
+      param: error.param,
+      code: error.code,
+    },
+  };
+}
+
+export function setRetryAfterHeader(res: Response, error: HttpError): void {
+  if (error.retryAfter !== undefined) {
+    res.setHeader('Retry-After', String(error.retryAfter));
+  }
+}
+
+// Signature shared by sendError and the Anthropic route's error sender, so shared helpers can report in either envelope
+export type ErrorSender = (res: Response, status: number, message: string, options?: HttpErrorOptions) => void;
+
+// Send an error response created by the route itself
+export function sendError(res: Response, status: number, message: string, options?: HttpErrorOptions): void {
+  sendHttpError(res, new HttpError(status, message, options));
+}
+
+// Send an error caught by a route; context (e.g. 'Failed to list files') is prefixed to the message
+export function handleRouteError(res: Response, error: any, context?: string): void {
+  const httpError = toHttpError(error);
+  if (context) {
+    httpError.message = `${context}: ${httpError.message}`;
+  }
+  sendHttpError(res, httpError);
+}
+
+function sendHttpError(res: Response, error: HttpError): void {
+  if (res.headersSent) {
+    // An SSE stream is already open, so the error can only be reported in-band
+    res.write(`data: ${JSON.stringify(formatOpenAIError(error))}\n\n`);
+    res.end();
+    return;
+  }
+  setRetryAfterHeader(res, error);
+  res.status(error.status).json(formatOpenAIError(error));
+}
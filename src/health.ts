@@ -0,0 +1,106 @@
+import { BucketReadinessCheck, BucketServerHealth, ReadinessResponse, UpstreamReadinessCheck } from './types';
+import { checkBucketServerHealth } from './utils';
+import { getUpstreamCredentials, isClientKeyAuthEnabled } from './clientKeys';
+import { getUpstreamTargetHealth, getUpstreamTargets } from './upstreamPool';
+import { createLogger } from './logger';
+
+// Liveness (GET /healthz) only reports that the process serves requests
+// Readiness (GET /readyz) reports the bucket server and the upstream credentials; only a "fail" check makes it 503
+// With HEALTH_PROBE_INTERVAL_MS set, the bucket server is probed in the background and /readyz answers from the last result
+
+const log = createLogger('health');
+
+let lastBucketHealth: BucketServerHealth | undefined;
+let pendingBucketProbe: Promise<BucketServerHealth> | undefined;
+let probeTimer: NodeJS.Timeout | undefined;
+
+function getIntegerEnv(name: string, defaultValue: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : defaultValue;
+}
+
+function getHealthCheckTimeoutMs(): number {
+  return Math.max(1, getIntegerEnv('HEALTH_CHECK_TIMEOUT_MS', 5000));
+}
+
+// Images fall back to data URLs without the bucket server, so it only fails readiness when required
+function isBucketRequired(): boolean {
+  return process.env.HEALTH_REQUIRE_BUCKET?.toLowerCase() === 'true';
+}
+
+// Probe the bucket server; concurrent callers share one probe, and changes in reachability are logged
+export function probeBucketServer(): Promise<BucketServerHealth> {
+  if (!pendingBucketProbe) {
+    pendingBucketProbe = checkBucketServerHealth(getHealthCheckTimeoutMs())
+      .then(health => {
+        if (health.reachable && lastBucketHealth?.reachable !== true) {
+          log.info('Bucket server is reachable', { url: health.url, status_code: health.status_code });
+        } else if (!health.reachable && lastBucketHealth?.reachable !== false) {
+          log.warn('Bucket server is not reachable - image uploads will fall back to data URLs', {
+            url: health.url,
+            status_code: health.status_code,
+            error: health.error,
+          });
+        }
+        lastBucketHealth = health;
+        return health;
+      })
+      .finally(() => {
+        pendingBucketProbe = undefined;
+      });
+  }
+  return pendingBucketProbe;
+}
+
+async function getBucketReadiness(): Promise<BucketReadinessCheck> {
+  const backgroundProbe = probeTimer !== undefined;
+  const health = backgroundProbe && lastBucketHealth ? lastBucketHealth : await probeBucketServer();
+  return {
+    status: health.reachable ? 'ok' : isBucketRequired() ? 'fail' : 'degraded',
+    background_probe: backgroundProbe,
+    ...health,
+  };
+}
+
+function getUpstreamReadiness(): UpstreamReadinessCheck {
+  const credentials = Object.values(getUpstreamCredentials());
+  const targets = credentials.flatMap(credential => [...getUpstreamTargets(credential, false), ...getUpstreamTargets(credential, true)]);
+  const summary = {
+    configured: targets.length > 0,
+    credentials: credentials.length,
+    keys: targets.length,
+    healthy_keys: targets.map(getUpstreamTargetHealth).filter(health => health.status === 'healthy').length,
+  };
+  if (!summary.configured) {
+    // Without client keys, requests can still bring their own Gemini API key
+    return isClientKeyAuthEnabled()
+      ? { status: 'fail', ...summary, message: 'No upstream credentials are configured for client keys' }
+      : { status: 'degraded', ...summary, message: 'No upstream credentials are configured; requests must send their own Gemini API key' };
+  }
+  if (summary.healthy_keys === 0) {
+    return { status: 'degraded', ...summary, message: 'Every upstream key is cooling down after rate limits' };
+  }
+  return { status: 'ok', ...summary };
+}
+
+export async function getReadiness(): Promise<ReadinessResponse> {
+  const checks = {
+    bucket: await getBucketReadiness(),
+    upstream: getUpstreamReadiness(),
+  };
+  const ready = Object.values(checks).every(check => check.status !== 'fail');
+  return { status: ready ? 'ready' : 'not_ready', checks };
+}
+
+// Probe the bucket server once at startup, then every HEALTH_PROBE_INTERVAL_MS when it is set
+export function startHealthProbes(): void {
+  const intervalMs = getIntegerEnv('HEALTH_PROBE_INTERVAL_MS', 0);
+  if (intervalMs > 0 && !probeTimer) {
+    probeTimer = setInterval(() => {
+      void probeBucketServer();
+    }, intervalMs);
+    // The probe timer must not keep the process alive on shutdown
+    probeTimer.unref();
+  }
+  void probeBucketServer();
+}
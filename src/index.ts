@@ -1,4 +1,9 @@
 import express, { Request, Response } from 'express';
+import multer from 'multer';
+import fs from 'fs';
+import os from 'os';
+import crypto from 'crypto';
+import { AsyncResource } from 'async_hooks';
 import {
   GoogleGenAI,
   HarmCategory,
@@ -10,165 +15,442 @@ import {
   GenerateContentResponse,
   SafetySetting,
   GenerateContentConfig,
+  GenerateContentParameters,
+  GroundingChunk,
+  Candidate,
+  Model,
   ThinkingLevel,
+  File as GeminiFile,
+  FileState,
+  Tool,
 } from '@google/genai';
 
-import { fetchFileAsBase64, fetchImageAsBase64, resolveRedirects, processGeminiResponseParts, isGeminiImagePart, checkBucketServerHealth } from './utils';
+import {
+  fetchFileAsBase64,
+  fetchImageAsBase64,
+  resolveRedirects,
+  processGeminiResponseParts,
+  isGeminiImagePart,
+  convertOpenAIToolsToGemini,
+  convertToolChoiceToGemini,
+  extractToolCallsFromParts,
+  convertToolCallToGeminiPart,
+  convertToolResultToGeminiPart,
+  convertResponseFormatToGemini,
+  convertSamplingParamsToGemini,
+  InvalidParameterError,
+  getModelAliases,
+  getModelRoute,
+  resolveModelAlias,
+  encodeEmbeddingAsBase64,
+  uploadImageToBucketWithFallback,
+  convertImageSizeToAspectRatio,
+  GEMINI_IMAGE_ASPECT_RATIOS,
+  IMAGEN_ASPECT_RATIOS,
+  getMimeTypeFromBase64,
+  getMimeTypeFromAudioFormat,
+  describeUrl,
+  getSampleRateFromMimeType,
+  encodePcmAsWav,
+  encodePcmAsMp3,
+  fetchAudioAsBase64,
+  buildSrtSubtitles,
+  buildVttSubtitles,
+  extractTextFromParts,
+  extractReasoningFromParts,
+  parseDataUrl,
+  getFilesApiThresholdBytes,
+  toGeminiFileName,
+  waitForFileActive,
+  uploadBufferToGeminiFiles,
+  convertAnthropicSamplingParamsToGemini,
+  convertAnthropicToolsToGemini,
+  convertAnthropicToolChoiceToGemini,
+  convertGeminiPartsToAnthropicBlocks,
+  generateToolUseId,
+  getThinkingBudgetForEffort,
+  convertResponsesSamplingParamsToGemini,
+  convertResponsesToolsToGemini,
+  convertResponsesToolChoiceToGemini,
+  convertTextFormatToResponseFormat,
+  buildUrlCitations,
+  getResolvedGroundingChunks,
+  generateToolCallId,
+  mapWithConcurrency,
+} from './utils';
 import {
   OpenAIContentTextPart,
   OpenAIContentPart,
   OpenAIMessage,
   OpenAIChatCompletionRequest,
   OpenAIChatCompletionResponse,
+  OpenAIChatCompletionChunk,
   mapGeminiFinishReasonToOpenAI,
+  mapGeminiUsageToOpenAI,
   CreateCacheRequest,
   UpdateCacheRequest,
   CacheResponse,
-  ListCachesResponse
+  ListCachesResponse,
+  OpenAIModel,
+  OpenAIModelList,
+  OpenAIEmbeddingRequest,
+  OpenAIEmbeddingResponse,
+  OpenAIImageGenerationRequest,
+  OpenAIImagesResponse,
+  OpenAIImageEditRequest,
+  OpenAISpeechRequest,
+  OpenAIAudioTextRequest,
+  OpenAIVerboseTranscription,
+  TranscriptionSegment,
+  OpenAIFileObject,
+  OpenAIFileList,
+  AnthropicMessage,
+  AnthropicContentBlock,
+  AnthropicImageBlock,
+  AnthropicDocumentBlock,
+  AnthropicMessagesRequest,
+  AnthropicMessagesResponse,
+  AnthropicStopReason,
+  mapGeminiUsageToAnthropic,
+  mapGeminiFinishReasonToAnthropic,
+  ResponsesRequest,
+  ResponsesResponse,
+  ResponsesInputItem,
+  ResponsesInputContentPart,
+  ResponsesInputImagePart,
+  ResponsesInputFilePart,
+  ResponsesOutputItem,
+  ResponsesOutputMessage,
+  ResponsesReasoningItem,
+  mapGeminiUsageToResponses,
+  OpenAICompletionRequest,
+  OpenAICompletionResponse,
+  ClientKeyFeature,
+  ClientKeyRecord,
+  ClientKeyRequest,
 } from './types';
+import {
+  isClientKeyAuthEnabled,
+  isAnonymousAccessAllowed,
+  findClientKey,
+  isModelAllowed,
+  isFeatureAllowed,
+  getUpstreamCredential,
+  getUpstreamCredentials,
+  listClientKeys,
+  getClientKey,
+  createClientKey,
+  updateClientKey,
+  deleteClientKey,
+  formatClientKeyResponse,
+  validateClientKeyRequest,
+  isAdminKey,
+  isMetricsKey,
+} from './clientKeys';
+import {
+  UpstreamTarget,
+  getUpstreamTargets,
+  createGenAIForTarget,
+  orderUpstreamTargets,
+  getPoolCooldownRemainingMs,
+  isRateLimitError,
+  recordUpstreamRequest,
+  recordUpstreamSuccess,
+  recordUpstreamError,
+  recordUpstreamRateLimit,
+  getUpstreamTargetHealth,
+} from './upstreamPool';
+import {
+  UpstreamTimeoutError,
+  getRetryPolicy,
+  getRetryBackoffMs,
+  getErrorStatus,
+  createAttemptSignal,
+  sleep,
+  withAbortSignal,
+} from './upstreamRetry';
+import { toHttpError, sendError, handleRouteError, setRetryAfterHeader, ErrorSender, HttpErrorOptions } from './errors';
+import { createLogger, runWithRequestId, preserveRequestContext } from './logger';
+import { metricsRegistry, recordHttpRequest, startUpstreamRequestTimer, recordUpstreamRateLimitMetric, observeTokenUsage } from './metrics';
+import { openAIChatCompletionRequestSchema, createCacheRequestSchema, updateCacheRequestSchema, validateRequestBody } from './schemas';
+import { getReadiness, startHealthProbes } from './health';
+import { recordResourceOwner, updateResourceExpiry, forgetResourceOwner, isResourceOwner } from './resourceOwners';
 
 const app = express();
 const port = process.env.PORT || 3000;
 
+const httpLog = createLogger('http');
+const upstreamLog = createLogger('upstream');
+const chatLog = createLogger('chat');
+const cachesLog = createLogger('caches');
+const modelsLog = createLogger('models');
+const embeddingsLog = createLogger('embeddings');
+const imagesLog = createLogger('images');
+const audioLog = createLogger('audio');
+const filesLog = createLogger('files');
+const completionsLog = createLogger('completions');
+const messagesLog = createLogger('messages');
+const responsesLog = createLogger('responses');
+const adminLog = createLogger('admin');
+const serverLog = createLogger('server');
+
+// Request ids sent by clients or load balancers are kept when they look like an id
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Orchestrators poll the health endpoints every few seconds, so their requests are logged at debug
+const HEALTH_CHECK_PATHS = ['/healthz', '/readyz'];
+
 // Request logging middleware (runs before body parsing)
+// Every request gets a request id, echoed in the x-request-id header and attached to its log entries
+app.use((req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const incomingId = req.headers['x-request-id'];
+  const requestId = typeof incomingId === 'string' && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : crypto.randomUUID();
+  res.setHeader('x-request-id', requestId);
+  runWithRequestId(requestId, () => {
+    const startTime = performance.now();
+    const logLevel = HEALTH_CHECK_PATHS.includes(req.path) ? 'debug' : 'info';
+    httpLog[logLevel]('Request received', {
+      method: req.method,
+      url: req.originalUrl,
+      content_length: req.headers['content-length'],
+      content_type: req.headers['content-type'],
+      user_agent: req.headers['user-agent'],
+    });
+    res.on('close', AsyncResource.bind(() => {
+      httpLog[logLevel]('Request finished', {
+        status: res.writableFinished ? res.statusCode : 499,
+        duration_ms: Math.round(performance.now() - startTime),
+      });
+    }));
+    next();
+  });
+});
+
+// Request metrics middleware: counts every request once its response is finished or the client went away
 app.use((req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.log(`[${new Date().toISOString()}] ${req.method} ${req.originalUrl}`);
-  console.log(`  Content-Length: ${req.headers['content-length'] || 'unknown'}`);
-  console.log(`  Content-Type: ${req.headers['content-type'] || 'unknown'}`);
-  console.log(`  User-Agent: ${req.headers['user-agent'] || 'unknown'}`);
+  const startTime = performance.now();
+  res.on('close', () => {
+    // Label by route pattern (e.g. /v1/caches/:cacheId) rather than URL to keep the label set small
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    // The model comes from the client, so it is only a label once the request was authorized and served;
+    // other models are counted as 'other', which keeps made-up model names from creating new series
+    let model = '';
+    if (res.locals.metricsModel && res.statusCode < 400) {
+      model = res.locals.metricsModel;
+    } else if (req.body?.model) {
+      model = 'other';
+    }
+    // 499 (client closed request) when the client disconnected before the response was finished
+    const status = res.writableFinished ? res.statusCode : 499;
+    recordHttpRequest(req.method, route, model, status, (performance.now() - startTime) / 1000);
+  });
   next();
 });
 
 // Increase body parser limits to handle large payloads (images, files, etc.)
-app.use(express.json({ limit: '50mb' }));
-app.use(express.urlencoded({ limit: '50mb', extended: true }));
+app.use(preserveRequestContext(express.json({ limit: '50mb' })));
+app.use(preserveRequestContext(express.urlencoded({ limit: '50mb', extended: true })));
+
+// Anthropic clients expect their own error envelope from /v1/messages
+function getRouteErrorSender(req: express.Request): ErrorSender {
+  return `${req.baseUrl}${req.path}` === '/v1/messages' ? sendAnthropicError : sendError;
+}
 
-// Error handling middleware for payload size errors
+// Error handling middleware for body parser errors (payload size, malformed JSON)
 app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (error.type === 'entity.parse.failed') {
+    httpLog.warn('Malformed JSON request body', { method: req.method, url: req.originalUrl, error: error.message });
+    getRouteErrorSender(req)(res, 400, `Could not parse the JSON request body: ${error.message}`, { type: 'invalid_request_error' });
+    return;
+  }
   if (error.type === 'entity.too.large') {
-    console.error(`[${new Date().toISOString()}] PayloadTooLargeError:`);
-    console.error(`  Method: ${req.method}`);
-    console.error(`  URL: ${req.originalUrl}`);
-    console.error(`  Content-Length: ${req.headers['content-length']}`);
-    console.error(`  Content-Type: ${req.headers['content-type']}`);
-    console.error(`  Error: ${error.message}`);
+    httpLog.error('Request payload too large', {
+      method: req.method,
+      url: req.originalUrl,
+      content_length: req.headers['content-length'],
+      content_type: req.headers['content-type'],
+      error,
+    });
     
-    res.status(413).json({
-      error: 'Request payload too large',
-      details: 'The request body exceeds the maximum allowed size. Consider reducing the size of your images or files.',
-      maxSize: '50MB'
+    getRouteErrorSender(req)(res, 413, 'Request payload too large. The request body exceeds the maximum allowed size of 50MB. Consider reducing the size of your images or files.', {
+      code: 'payload_too_large'
     });
     return;
   }
   next(error);
 });
 
-app.post('/v1/chat/completions', async (req: Request, res: Response): Promise<void> => {
-  // Log incoming request details for debugging purposes
-  console.log(`[${new Date().toISOString()}] Processing chat completion request`);
-  console.log(`  Body size: ${JSON.stringify(req.body).length} characters`);
-  console.log(`  Model: ${req.body.model}`);
-  console.log(`  Messages: ${Array.isArray(req.body.messages) ? req.body.messages.length : 'invalid'} messages`);
-  if (req.body.modalities) {
-    console.log(`  Modalities: ${JSON.stringify(req.body.modalities)}`);
+// With CLIENT_KEYS_FILE set, /v1 routes require a proxy-issued client key; the upstream
+// Gemini credentials are then resolved from the key and never sent by the client
+app.use('/v1', (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!isClientKeyAuthEnabled()) {
+    next();
+    return;
   }
-
-  // Check if using Vertex AI mode (need to peek at request body)
-  const useVertexAI = req.body.use_vertex === true;
-
   const authHeader = req.headers.authorization;
-  let apiKey: string | undefined;
+  const key = authHeader && authHeader.startsWith('Bearer ')
+    ? authHeader.substring(7)
+    : typeof req.headers['x-api-key'] === 'string' ? req.headers['x-api-key'] : undefined;
+  const clientKey = key ? findClientKey(key) : undefined;
+  if (!clientKey) {
+    httpLog.warn(`Rejected request with ${key ? 'an invalid or disabled' : 'no'} client key`);
+    getRouteErrorSender(req)(res, 401, 'Invalid or missing client API key. Use Bearer token in Authorization header or x-api-key.');
+    return;
+  }
+  httpLog.info('Authenticated client key', { client_key: clientKey.name, client_key_id: clientKey.id });
+  res.locals.clientKey = clientKey;
+  next();
+});
 
-  if (authHeader && authHeader.startsWith('Bearer ')) {
-    apiKey = authHeader.substring(7);
-  } else {
-    // Fallback to environment variable if no Authorization header
-    apiKey = process.env.GEMINI_API_KEY;
+// Helper to find why the request's client key may not use a model or feature, if it may not
+// models may contain both the requested name and the Gemini model it resolves to
+function getClientKeyDenial(res: Response, models: string[], features: ClientKeyFeature[] = []): string | undefined {
+  const clientKey: ClientKeyRecord | undefined = res.locals.clientKey;
+  if (!clientKey) {
+    return undefined;
+  }
+  if (models.length > 0 && !isModelAllowed(clientKey, models)) {
+    return `This client key is not allowed to use model ${models[0]}`;
   }
+  const deniedFeature = features.find(feature => !isFeatureAllowed(clientKey, feature));
+  return deniedFeature ? `This client key is not allowed to use the ${deniedFeature} feature` : undefined;
+}
 
-  // API key is only required for non-Vertex AI mode
-  // Vertex AI uses Application Default Credentials (ADC) for authentication
-  if (!apiKey && !useVertexAI) {
-    res.status(401).json({ 
-      error: 'API key not provided. Use Bearer token in Authorization header or set GEMINI_API_KEY environment variable.' 
-    });
-    return;
+// Reject requests for models or features the client key is not allowed to use
+function authorizeClientKey(res: Response, models: string[], features: ClientKeyFeature[] = [], sendDenial: ErrorSender = sendError): boolean {
+  const denial = getClientKeyDenial(res, models, features);
+  if (denial) {
+    sendDenial(res, 403, denial);
+    return false;
+  }
+  // Label the request metrics with the Gemini model the request resolved to
+  res.locals.metricsModel = models[models.length - 1];
+  return true;
+}
+
+// Helper to find the gated features a Gemini request uses
+function getGeminiRequestFeatures(model: string, tools: Tool[] | undefined, modalities?: string[]): ClientKeyFeature[] {
+  const features: ClientKeyFeature[] = [];
+  if (tools?.some(tool => tool.googleSearch || tool.googleSearchRetrieval || tool.urlContext || tool.googleMaps)) {
+    features.push('grounding');
   }
+  if (/image/i.test(model) || modalities?.some(modality => modality.toLowerCase() === 'image')) {
+    features.push('image_generation');
+  }
+  return features;
+}
+
+// Safety filters are disabled for every generation request
+const DEFAULT_SAFETY_SETTINGS: SafetySetting[] = [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.OFF },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.OFF },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.OFF },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.OFF },
+];
+
+app.post('/v1/chat/completions', async (req: Request, res: Response): Promise<void> => {
+  // Log incoming request details for debugging purposes
+  chatLog.info('Processing chat completion request', {
+    model: req.body?.model,
+    messages: Array.isArray(req.body?.messages) ? req.body.messages.length : 'invalid',
+    modalities: req.body?.modalities,
+    stream: req.body?.stream === true,
+  });
+
+  const chatRequest = validateRequestBody(res, openAIChatCompletionRequestSchema, req.body);
+  if (!chatRequest) return;
+
+  // Initialize GoogleGenAI with appropriate configuration
+  // Note: Vertex AI and API key are mutually exclusive
+  // - For Vertex AI: Uses Google Cloud credentials (ADC) for authentication
+  // - For Gemini AI: Uses the client key's upstream credential, the Bearer token or GEMINI_API_KEY
+  const clientResult = initializeGenAI(req, res);
+  if (!clientResult) return;
+  const { genAI, useVertex } = clientResult;
 
   try {
-    const requestBody = req.body as OpenAIChatCompletionRequest;
+    // Model routes (MODEL_ALIASES) may provide defaults for parameters the request does not set
+    const modelRoute = getModelRoute(chatRequest.model);
+    const requestBody: OpenAIChatCompletionRequest = { ...modelRoute?.defaults, ...chatRequest };
     const { 
       model: modelName, 
       messages: openAIMessages, 
       temperature, 
+      stream,
+      stream_options,
       reasoning_effort,
       thinking_level,
+      include_thoughts,
       tools, 
+      tool_choice,
       modalities,
-      use_vertex,
-      google_cloud_project,
-      google_cloud_location,
+      response_format,
+      n,
       cached_content
     } = requestBody;
 
-    if (!modelName || !openAIMessages || !Array.isArray(openAIMessages)) {
-      res.status(400).json({ error: 'Missing or invalid model or messages in request body' });
+    // Map OpenAI sampling parameters (max_tokens, top_p, stop, seed, penalties, n)
+    // before any media is fetched, so bad values fail fast
+    let samplingConfig: GenerateContentConfig;
+    try {
+      samplingConfig = convertSamplingParamsToGemini(requestBody);
+    } catch (e: any) {
+      if (e instanceof InvalidParameterError) {
+        handleRouteError(res, e);
+        return;
+      }
+      throw e;
+    }
+
+    if (useVertex) {
+      chatLog.info('Using Vertex AI', { project: clientResult.project, location: clientResult.location });
+    }
+
+    // Resolve configured model aliases (MODEL_ALIASES) to the real Gemini model
+    const geminiModelName = resolveModelAlias(modelName);
+    if (geminiModelName !== modelName) {
+      chatLog.info('Resolved model alias', { alias: modelName, model: geminiModelName });
+    }
+    // Client keys may be limited to some models and features
+    const requestedTools = Array.isArray(tools) ? convertOpenAIToolsToGemini(tools) : undefined;
+    if (!authorizeClientKey(res, [modelName, geminiModelName], getGeminiRequestFeatures(geminiModelName, requestedTools, modalities))) {
       return;
     }
 
-    // Validate Vertex AI configuration if use_vertex is true
-    if (use_vertex) {
-      if (!google_cloud_project) {
-        res.status(400).json({ 
-          error: 'Missing google_cloud_project. When use_vertex is true, google_cloud_project is required.' 
-        });
-        return;
-      }
-      if (!google_cloud_location) {
-        res.status(400).json({ 
-          error: 'Missing google_cloud_location. When use_vertex is true, google_cloud_location is required.' 
-        });
-        return;
+    // Fallback models are tried in order when the model is unavailable
+    // Each fallback is authorized on its own, so an alias cannot reach a model the client key may not use
+    const fallbacks = (modelRoute?.fallbacks ?? []).map(resolveModelAlias).filter(model => {
+      const denial = getClientKeyDenial(res, [model], getGeminiRequestFeatures(model, requestedTools, modalities));
+      if (denial) {
+        chatLog.info('Skipping fallback model not allowed for the client key', { model, reason: denial });
       }
-      console.log(`  Using Vertex AI mode:`);
-      console.log(`    Project: ${google_cloud_project}`);
-      console.log(`    Location: ${google_cloud_location}`);
+      return !denial;
+    });
+    const modelChain = [...new Set([geminiModelName, ...fallbacks])];
+    if (modelChain.length > 1) {
+      chatLog.info('Using fallback models', { fallbacks: modelChain.slice(1) });
     }
 
     // Log cached_content if provided
     if (cached_content) {
-      console.log(`  Using cached content: ${cached_content}`);
-    }
-
-    // Initialize GoogleGenAI with appropriate configuration
-    // Note: Vertex AI and API key are mutually exclusive
-    // - For Vertex AI: Uses Google Cloud credentials (ADC) for authentication
-    // - For Gemini AI: Uses API key for authentication
-    let genAI: GoogleGenAI;
-    if (use_vertex) {
-      // Vertex AI mode: use project and location, authentication via ADC (Application Default Credentials)
-      // API key must NOT be provided when using Vertex AI
-      genAI = new GoogleGenAI({
-        vertexai: true,
-        project: google_cloud_project,
-        location: google_cloud_location,
-      });
-    } else {
-      // Standard Gemini AI mode
-      genAI = new GoogleGenAI({ apiKey });
+      if (!isResourceOwner('cache', cached_content, res.locals.clientKey)) {
+        sendError(res, 400, `Context cache '${cached_content}' not found`, { param: 'cached_content' });
+        return;
+      }
+      chatLog.info('Using cached content', { cached_content });
     }
 
     const systemMessage = openAIMessages.find(msg => msg.role === 'system');
     let geminiSystemInstruction: Content | undefined = undefined;
 
     if (systemMessage) {
-        if (typeof systemMessage.content === 'string') {
-            geminiSystemInstruction = { parts: [{ text: systemMessage.content }], role: 'system' };
+        if (typeof systemMessage.content === 'string' || !systemMessage.content) {
+            geminiSystemInstruction = { parts: [{ text: systemMessage.content ?? '' }], role: 'system' };
         } else {
             // Handle system message if it can also be complex (though typically it's string)
             // For now, assuming system message content is string as per common usage.
             // If system messages can also have image_url, this part would need expansion.
-            console.warn("System message content is complex, only string content is currently processed for system instructions.");
+            chatLog.warn('System message content is complex, only its first text part is used as the system instruction');
             // Find first text part for system instruction if complex
             const firstTextPart = systemMessage.content.find(p => p.type === 'text') as OpenAIContentTextPart | undefined;
             if (firstTextPart) {
@@ -192,28 +474,62 @@ app.post('/v1/chat/completions', async (req: Request, res: Response): Promise<vo
     }
     
     if (secondarySystemMessages.length > 0) {
-      console.log(`  Found ${secondarySystemMessages.length} secondary system message(s) - will convert to user messages at end`);
+      chatLog.info('Converting secondary system messages to user messages at the end', { count: secondarySystemMessages.length });
     }
     
+    // Remember the function name of every assistant tool call, since OpenAI tool messages
+    // only carry the tool_call_id while Gemini functionResponse parts need the name
+    const toolCallNames = new Map<string, string>();
+
     const geminiContents: Content[] = [];
     for (const openAIMsg of openAIMessages) {
       if (openAIMsg.role === 'system') continue; // All system messages handled separately
+
+      if (openAIMsg.role === 'tool') {
+        const functionName = (openAIMsg.tool_call_id && toolCallNames.get(openAIMsg.tool_call_id)) || openAIMsg.name;
+        if (!functionName) {
+          sendError(res, 400, `Could not find the assistant tool call for tool message with tool_call_id: ${openAIMsg.tool_call_id}`);
+          return;
+        }
+        const functionResponsePart = convertToolResultToGeminiPart(functionName, openAIMsg.content);
+        // Gemini expects all responses to one model turn inside a single user content
+        const previousContent = geminiContents[geminiContents.length - 1];
+        if (previousContent?.role === 'user' && previousContent.parts?.every(p => p.functionResponse)) {
+          previousContent.parts.push(functionResponsePart);
+        } else {
+          geminiContents.push({ role: 'user', parts: [functionResponsePart] });
+        }
+        continue;
+      }
+
       const currentGeminiParts: Part[] = [];
       const mediaPartsForGemini: Part[] = [];
       const textPartsForGemini: Part[] = [];
+      const functionCallPartsForGemini: Part[] = [];
+      if (openAIMsg.role === 'assistant' && openAIMsg.tool_calls && openAIMsg.tool_calls.length > 0) {
+        for (const toolCall of openAIMsg.tool_calls) {
+          try {
+            functionCallPartsForGemini.push(convertToolCallToGeminiPart(toolCall));
+            toolCallNames.set(toolCall.id, toolCall.function.name);
+          } catch (e: any) {
+            sendError(res, 400, e.message);
+            return;
+          }
+        }
+      }
       if (typeof openAIMsg.content === 'string') {
         textPartsForGemini.push({ text: openAIMsg.content });
-      } else { // Content is an array of OpenAIContentPart
+      } else if (Array.isArray(openAIMsg.content)) { // Content is an array of OpenAIContentPart (null for tool-call-only assistant messages)
         for (const part of openAIMsg.content) {
           if (part.type === 'text') {
             textPartsForGemini.push({ text: part.text });
           } else if (part.type === 'image_url') {
             try {
               const { base64Data, mimeType } = await fetchImageAsBase64(part.image_url.url);
-              mediaPartsForGemini.push({ inlineData: { data: base64Data, mimeType: mimeType } });
+              mediaPartsForGemini.push(await buildMediaPart(genAI, useVertex, base64Data, mimeType));
             } catch (e: any) {
-              console.error(`Failed to process image URL ${part.image_url.url}: ${e.message}`);
-              res.status(400).json({ error: `Failed to process image from URL: ${part.image_url.url}. ${e.message}` });
+              chatLog.error('Failed to process image URL', { url: describeUrl(part.image_url.url), error: e });
+              sendError(res, 400, `Failed to process image from URL: ${describeUrl(part.image_url.url)}. ${e.message}`);
               return;
             }
           } else if (part.type === 'file_url') {
@@ -230,19 +546,61 @@ app.post('/v1/chat/completions', async (req: Request, res: Response): Promise<vo
             } else {
               try {
                 const { base64Data, mimeType } = await fetchFileAsBase64(url);
-                mediaPartsForGemini.push({ inlineData: { data: base64Data, mimeType: mimeType } });
+                mediaPartsForGemini.push(await buildMediaPart(genAI, useVertex, base64Data, mimeType));
               } catch (e: any) {
-                console.error(`Failed to process file URL ${url}: ${e.message}`);
-                res.status(400).json({ error: `Failed to process file from URL: ${url}. ${e.message}` });
+                chatLog.error('Failed to process file URL', { url: describeUrl(url), error: e });
+                sendError(res, 400, `Failed to process file from URL: ${describeUrl(url)}. ${e.message}`);
+                return;
+              }
+            }
+          } else if (part.type === 'input_audio') {
+            const { data, format } = part.input_audio ?? {};
+            if (!data || !format) {
+              sendError(res, 400, 'input_audio parts require both data and format');
+              return;
+            }
+            try {
+              mediaPartsForGemini.push(await buildMediaPart(genAI, useVertex, data, getMimeTypeFromAudioFormat(format)));
+            } catch (e: any) {
+              chatLog.error('Failed to process input_audio part', { error: e });
+              sendError(res, 400, `Failed to process input_audio part. ${e.message}`);
+              return;
+            }
+          } else if (part.type === 'file') {
+            const { file_id, file_data, filename } = part.file ?? {};
+            try {
+              if (file_id) {
+                if (useVertex) {
+                  sendError(res, 400, 'file_id references use the Gemini Files API, which is not available with use_vertex. Send file_data instead.');
+                  return;
+                }
+                if (!isResourceOwner('file', file_id, res.locals.clientKey)) {
+                  throw new Error(`File '${file_id}' not found`);
+                }
+                // Files uploaded through POST /v1/files may still be processing
+                const file = await waitForFileActive(genAI, await genAI.files.get({ name: toGeminiFileName(file_id) }));
+                mediaPartsForGemini.push({ fileData: { fileUri: file.uri, mimeType: file.mimeType } });
+              } else if (file_data) {
+                const { base64Data, mimeType } = file_data.startsWith('data:')
+                  ? parseDataUrl(file_data)
+                  : { base64Data: file_data, mimeType: getMimeTypeFromBase64(file_data) };
+                mediaPartsForGemini.push(await buildMediaPart(genAI, useVertex, base64Data, mimeType, filename));
+              } else {
+                sendError(res, 400, 'file parts require either file_id or file_data');
                 return;
               }
+            } catch (e: any) {
+              chatLog.error('Failed to process file part', { file: file_id || filename, error: e });
+              sendError(res, 400, `Failed to process file part${file_id ? ` ${file_id}` : ''}. ${e.message}`);
+              return;
             }
           }
         }
       }
-      // Add media parts first (images, files), then text parts
+      // Add media parts first (images, files), then text parts, then function calls
       currentGeminiParts.push(...mediaPartsForGemini);
       currentGeminiParts.push(...textPartsForGemini);
+      currentGeminiParts.push(...functionCallPartsForGemini);
 
       if (currentGeminiParts.length > 0) {
         geminiContents.push({
@@ -256,7 +614,9 @@ app.post('/v1/chat/completions', async (req: Request, res: Response): Promise<vo
     // These are context updates that should come after the conversation
     for (const sysMsg of secondarySystemMessages) {
       let textContent = '';
-      if (typeof sysMsg.content === 'string') {
+      if (!sysMsg.content) {
+        continue;
+      } else if (typeof sysMsg.content === 'string') {
         textContent = sysMsg.content;
       } else {
         // Extract text from complex content
@@ -276,39 +636,48 @@ app.post('/v1/chat/completions', async (req: Request, res: Response): Promise<vo
     }
     
     if (geminiContents.length === 0 && !geminiSystemInstruction) {
-        res.status(400).json({ error: 'No user/assistant messages or system instruction provided after processing.' });
+        sendError(res, 400, 'No user/assistant messages or system instruction provided after processing.');
         return;
     }
 
     // Use GenerateContentConfig for all configurations
     const geminiAPIConfig: GenerateContentConfig = {
       temperature: temperature ?? 1,
+      ...samplingConfig,
       responseMimeType: 'text/plain',
-      safetySettings: [ 
-        { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.OFF },
-        { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.OFF },
-        { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.OFF },
-        { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.OFF },
-      ],
+      safetySettings: modelRoute?.safety_settings ?? DEFAULT_SAFETY_SETTINGS,
       systemInstruction: geminiSystemInstruction,
     };
 
-    // Only add tools if provided in request, filtering out invalid/empty tools
+    // Only add tools if provided in request, converting OpenAI function tools to
+    // functionDeclarations and filtering out invalid/empty tools
     if (tools && Array.isArray(tools) && tools.length > 0) {
-      // Filter out empty objects or tools without a valid tool_type
-      const validTools = tools.filter(tool => {
-        if (!tool || typeof tool !== 'object') return false;
-        // A valid tool must have at least one property (googleSearch, codeExecution, functionDeclarations, etc.)
-        const hasValidProperty = Object.keys(tool).length > 0 && 
-          Object.values(tool).some(v => v !== undefined && v !== null);
-        return hasValidProperty;
-      });
+      const validTools = convertOpenAIToolsToGemini(tools);
       
       if (validTools.length > 0) {
-        console.log(`  Tools: ${validTools.length} valid tools (filtered from ${tools.length})`);
+        chatLog.info('Using tools', { gemini_tools: validTools.length, openai_tools: tools.length });
         geminiAPIConfig.tools = validTools;
       } else {
-        console.log(`  Tools: All ${tools.length} tools were invalid/empty, skipping tools parameter`);
+        chatLog.warn('All tools were invalid or empty, skipping the tools parameter', { openai_tools: tools.length });
+      }
+    }
+
+    // Map response_format to Gemini's JSON mode / response schema
+    if (response_format) {
+      try {
+        Object.assign(geminiAPIConfig, convertResponseFormatToGemini(response_format));
+        chatLog.info('Using response format', { response_format: response_format.type });
+      } catch (e: any) {
+        sendError(res, 400, `Invalid response_format: ${e.message}`, { param: 'response_format' });
+        return;
+      }
+    }
+
+    // Map tool_choice to Gemini's function calling mode
+    if (tool_choice) {
+      const toolConfig = convertToolChoiceToGemini(tool_choice);
+      if (toolConfig) {
+        geminiAPIConfig.toolConfig = toolConfig;
       }
     }
 
@@ -324,7 +693,7 @@ app.post('/v1/chat/completions', async (req: Request, res: Response): Promise<vo
           } else if (upperModality === 'IMAGE') {
             responseModalities.push('IMAGE');
           } else {
-            console.warn(`Unsupported modality: ${modality}. Supported modalities are 'text' and 'image'.`);
+            chatLog.warn(`Unsupported modality: ${modality}. Supported modalities are 'text' and 'image'.`);
           }
         }
       }
@@ -334,33 +703,14 @@ app.post('/v1/chat/completions', async (req: Request, res: Response): Promise<vo
       }
     }
 
-    // Handle reasoning_effort and thinking_level to set thinkingConfig
-    // Only add thinkingConfig if reasoning_effort or thinking_level parameter is explicitly provided
-    if (reasoning_effort || thinking_level) {
-      const thinkingConfig: { thinkingBudget?: number; thinkingLevel?: ThinkingLevel } = {};
+    // Handle reasoning_effort, thinking_level and include_thoughts to set thinkingConfig
+    // Only add thinkingConfig if one of these parameters is explicitly provided
+    if (reasoning_effort || thinking_level || include_thoughts) {
+      const thinkingConfig: { thinkingBudget?: number; thinkingLevel?: ThinkingLevel; includeThoughts?: boolean } = {};
       
       // Handle reasoning_effort to set thinkingBudget
       if (reasoning_effort) {
-        let thinkingBudget = 0; // Default to 0 for "none" or invalid values
-        switch (reasoning_effort) {
-          case 'low':
-            thinkingBudget = 1000;
-            break;
-          case 'medium':
-            thinkingBudget = 8000;
-            break;
-          case 'high':
-            thinkingBudget = 24000;
-            break;
-          case 'none':
-            thinkingBudget = 0;
-            break;
-          default:
-            // Log invalid value but proceed with default 0
-            console.warn(`Invalid reasoning_effort value: ${reasoning_effort}. Defaulting to thinking budget 0.`);
-            break;
-        }
-        thinkingConfig.thinkingBudget = thinkingBudget;
+        thinkingConfig.thinkingBudget = getThinkingBudgetForEffort(reasoning_effort);
       }
       
       // Handle thinking_level to set thinkingLevel
@@ -379,23 +729,27 @@ app.post('/v1/chat/completions', async (req: Request, res: Response): Promise<vo
             thinkingConfig.thinkingLevel = ThinkingLevel.HIGH;
             break;
           default:
-            console.warn(`Invalid thinking_level value: ${thinking_level}. Supported values are 'minimal', 'low', 'medium', 'high'.`);
+            chatLog.warn(`Invalid thinking_level value: ${thinking_level}. Supported values are 'minimal', 'low', 'medium', 'high'.`);
             break;
         }
       }
       
+      // Ask Gemini for thought summaries, returned as reasoning_content
+      if (include_thoughts) {
+        thinkingConfig.includeThoughts = true;
+      }
+      
       geminiAPIConfig.thinkingConfig = thinkingConfig;
     }
-    // If neither reasoning_effort nor thinking_level is provided, thinkingConfig is not set at all
+    // If none of these parameters is provided, thinkingConfig is not set at all
 
     // Build the generateContent request options
     const generateContentOptions: {
       model: string;
       contents: Content[];
       config: GenerateContentConfig;
-      cachedContent?: string;
     } = {
-      model: modelName,
+      model: geminiModelName,
       contents: geminiContents,
       config: geminiAPIConfig,
     };
@@ -404,233 +758,375 @@ app.post('/v1/chat/completions', async (req: Request, res: Response): Promise<vo
     // Note: When using cached content, system_instruction, tools, and tool_config 
     // should not be specified as they should be part of the cache
     if (cached_content) {
-      generateContentOptions.cachedContent = cached_content;
+      geminiAPIConfig.cachedContent = cached_content;
       // Clear system instruction from config when using cached content
       // as it should already be part of the cache
       delete geminiAPIConfig.systemInstruction;
       delete geminiAPIConfig.tools;
+      delete geminiAPIConfig.toolConfig;
+    }
+
+    if (stream) {
+      await streamChatCompletion(res, clientResult, generateContentOptions, modelChain, stream_options?.include_usage === true, n ?? 1);
+      return;
     }
 
-    const result: GenerateContentResponse = await genAI.models.generateContent(generateContentOptions);
+    const { result, model: answeringModel } = await callGeminiWithFallbacks(clientResult, modelChain, (genAI, model, abortSignal) =>
+      genAI.models.generateContent(withAbortSignal({ ...generateContentOptions, model }, abortSignal)));
     
-    const geminiResponse = result; 
+    const geminiResponse: GenerateContentResponse = result; 
 
-    console.log('Gemini API response:', JSON.stringify(geminiResponse, null, 2));
+    chatLog.debug('Gemini API response', { response: geminiResponse });
 
     if (!geminiResponse || !geminiResponse.candidates || geminiResponse.candidates.length === 0) {
-      console.error('No response or candidates from Gemini API:', JSON.stringify(geminiResponse, null, 2));
+      chatLog.error('No candidates in the Gemini API response', { response: geminiResponse });
       const blockReason = geminiResponse?.promptFeedback?.blockReason;
-      const safetyRatingsMapped = geminiResponse?.promptFeedback?.safetyRatings?.map((r: SafetyRating) => ({
-        category: r.category,
-        probability: r.probability,
-        blocked: r.blocked,
-      }));
-      res.status(500).json({
-        error: 'No content generated by the model.',
-        blockReason: blockReason,
-        safetyRatings: safetyRatingsMapped,
-        fullGeminiResponse: geminiResponse 
-      });
+      if (blockReason) {
+        // A blocked prompt is reported like OpenAI reports a content policy rejection
+        const blockedCategories = geminiResponse.promptFeedback?.safetyRatings
+          ?.filter((r: SafetyRating) => r.blocked)
+          .map((r: SafetyRating) => r.category);
+        sendError(res, 400, `The prompt was blocked by Gemini (${blockReason}${blockedCategories?.length ? `: ${blockedCategories.join(', ')}` : ''}).`, {
+          code: 'content_filter'
+        });
+        return;
+      }
+      sendError(res, 500, 'No content generated by the model.');
       return;
     }
 
-    const candidate = geminiResponse.candidates[0];
-    
-    // Check if response contains mixed content (text + images)
-    const hasMixedContent = candidate.content?.parts?.some((part: Part) => isGeminiImagePart(part));
-    
-    console.log(`Response analysis: ${candidate.content?.parts?.length || 0} parts, mixed content: ${hasMixedContent}`);
-    if (hasMixedContent) {
-      console.log('Parts breakdown:', candidate.content?.parts?.map((part, i) => ({
-        index: i,
-        hasText: !!part.text,
-        hasImage: isGeminiImagePart(part),
-        imageType: isGeminiImagePart(part) ? (part as any).inlineData?.mimeType : null
-      })));
-    }
-    
-    let responseContent: string | OpenAIContentPart[];
-    
-    if (hasMixedContent && candidate.content?.parts) {
-      // Process mixed content with images
-      console.log('Processing mixed content response with images');
-      responseContent = await processGeminiResponseParts(candidate.content.parts);
-    } else {
-      // Traditional text-only response
-      responseContent = (candidate.content && candidate.content.parts && candidate.content.parts.length > 0)
-        ? candidate.content.parts.map((part: Part) => part.text).filter(Boolean).join('')
-        : '';
-    }
-
-    const finishReason = mapGeminiFinishReasonToOpenAI(candidate.finishReason);
+    // With n > 1 Gemini returns one candidate per requested choice
+    const choices = await Promise.all(
+      geminiResponse.candidates.map((candidate, i) => buildChatCompletionChoice(candidate, candidate.index ?? i))
+    );
+    choices.sort((a, b) => a.index - b.index);
 
     const responseId = 'msg_' + Date.now().toString(36) + Math.random().toString(36).substring(2, 15);
     const createdTimestamp = Math.floor(Date.now() / 1000);
 
-    const promptTokens = geminiResponse.usageMetadata?.promptTokenCount ?? 0;
-    const completionTokens = geminiResponse.usageMetadata?.candidatesTokenCount ?? (geminiResponse.usageMetadata as any)?.candidateTokenCount ?? 0;
-    const totalTokens = geminiResponse.usageMetadata?.totalTokenCount ?? (promptTokens + completionTokens);
-    const cachedContentTokenCount = geminiResponse.usageMetadata?.cachedContentTokenCount ?? (geminiResponse.usageMetadata as any)?.cachedContentTokenCount;
-
-    const groundingDataChunks = geminiResponse.candidates[0].groundingMetadata?.groundingChunks;
-
-    // === Add: Resolve real URLs for groundingChunks and add google_gemini_body ===
-    let googleGeminiBody: any = undefined;
-    if (groundingDataChunks && Array.isArray(groundingDataChunks)) {
-      // For each chunk, resolve the real URL and add as resolved_uri
-      const resolvedChunks = await Promise.all(
-        groundingDataChunks.map(async (chunk) => {
-          if (chunk.web && chunk.web.uri) {
-            const resolvedUri = await resolveRedirects(chunk.web.uri);
-            return {
-              ...chunk,
-              web: {
-                ...chunk.web,
-                resolved_uri: resolvedUri,
-              },
-            };
-          }
-          return chunk;
-        })
-      );
-      googleGeminiBody = {
-        groundingMetadata: {
-          groundingChunks: resolvedChunks,
-        },
-      };
-    }
-
     const openAIResponse: OpenAIChatCompletionResponse = {
       id: responseId,
       object: 'chat.completion',
       created: createdTimestamp,
-      model: modelName,
-      choices: [
-        {
-          index: 0,
-          message: {
-            role: 'assistant',
-            content: responseContent,
-          },
-          finish_reason: finishReason,
-          ...(googleGeminiBody ? { google_gemini_body: googleGeminiBody } : {}),
-        },
-      ],
-      usage: {
-        prompt_tokens: promptTokens,
-        completion_tokens: completionTokens,
-        total_tokens: totalTokens,
-        ...(cachedContentTokenCount ? { cached_content_token_count: cachedContentTokenCount } : {}),
-      },
+      model: answeringModel,
+      choices,
+      usage: mapGeminiUsageToOpenAI(geminiResponse.usageMetadata),
     };
 
     res.json(openAIResponse);
 
   } catch (error: any) {
-    console.error('Error processing request:', error.message, error.stack);
-    console.error('Error details:', {
-      name: error.name,
-      constructor: error.constructor?.name,
-      message: error.message,
-      status: error.status
-    });
-    
-    let statusCode = 500;
-    let errorMessage = 'Internal server error';
-    let errorDetails = error.message;
-
-    // Extract status code from Gemini API errors
-    if (error.name === 'GoogleGenerativeAIError' || error.constructor?.name === 'GoogleGenerativeAIError' || error.message?.includes('GoogleGenerativeAI') || error.message?.includes('got status:')) { 
-        errorMessage = 'Error from Google Gemini API';
-        errorDetails = error.message;
-        
-        // Try to extract status code from error message patterns
-        // Pattern 1: "got status: 429 Too Many Requests"
-        const statusMatch = error.message?.match(/got status:\s*(\d+)/);
-        console.log('Status match result:', statusMatch);
-        if (statusMatch) {
-            statusCode = parseInt(statusMatch[1], 10);
-            console.log('Extracted status code from Pattern 1:', statusCode);
-        } else {
-            // Pattern 2: Look for JSON with "code" field in the error message
-            const jsonMatch = error.message?.match(/\{"error":\{"code":(\d+),/);
-            console.log('JSON match result:', jsonMatch);
-            if (jsonMatch) {
-                statusCode = parseInt(jsonMatch[1], 10);
-                console.log('Extracted status code from Pattern 2:', statusCode);
-            } else {
-                // Pattern 3: Try to parse the entire JSON block if present
-                try {
-                    const jsonStart = error.message?.indexOf('{"error":');
-                    if (jsonStart !== -1) {
-                        const jsonStr = error.message.substring(jsonStart);
-                        const jsonEnd = jsonStr.lastIndexOf('}') + 1;
-                        const errorJson = JSON.parse(jsonStr.substring(0, jsonEnd));
-                        console.log('Parsed error JSON:', errorJson);
-                        if (errorJson.error && errorJson.error.code) {
-                            statusCode = errorJson.error.code;
-                            console.log('Extracted status code from Pattern 3:', statusCode);
-                        }
-                    }
-                } catch (parseError) {
-                    console.warn('Could not parse JSON from error message:', parseError);
-                }
-            }
-        }
-        
-        // Handle specific API key errors
-        if (error.message?.toLowerCase().includes('api key not valid') || error.message?.toLowerCase().includes('api_key_invalid')) {
-            statusCode = 401;
-            errorMessage = 'Invalid Google Gemini API Key';
-        }
-    } else if (typeof error.status === 'number') {
-        statusCode = error.status;
-        errorMessage = error.message;
-        errorDetails = error.details || error.message;
-    } else if (error.response && typeof error.response.status === 'number' && error.response.data) { 
-        statusCode = error.response.status;
-        errorMessage = 'Error from downstream API';
-        errorDetails = error.response.data;
+    if (clientResult.abortSignal?.aborted) {
+      // The client disconnected, so there is nobody left to report the error to
+      chatLog.info('Upstream request aborted after client disconnect');
+      return;
     }
-    
-    console.log('Final status code being returned:', statusCode);
-    res.status(statusCode).json({ error: errorMessage, details: errorDetails });
+    chatLog.error('Error processing chat completion request', { error });
+    handleRouteError(res, error);
   }
 });
 
+// Build a Gemini part for fetched media: small media is sent inline, large media goes
+// through the Gemini Files API (not available on Vertex AI, so it stays inline there)
+async function buildMediaPart(genAI: GoogleGenAI, useVertex: boolean, base64Data: string, mimeType: string, displayName?: string): Promise<Part> {
+  const sizeBytes = Math.floor(base64Data.length * 3 / 4);
+  if (sizeBytes <= getFilesApiThresholdBytes()) {
+    return { inlineData: { data: base64Data, mimeType } };
+  }
+  if (useVertex) {
+    chatLog.warn('Media exceeds the Files API threshold, but the Files API is not available on Vertex AI. Sending inline.', { size_bytes: sizeBytes });
+    return { inlineData: { data: base64Data, mimeType } };
+  }
+  const file = await uploadBufferToGeminiFiles(genAI, Buffer.from(base64Data, 'base64'), mimeType, displayName);
+  return { fileData: { fileUri: file.uri, mimeType: file.mimeType ?? mimeType } };
+}
+
+// Convert a single Gemini candidate to an OpenAI choice
+async function buildChatCompletionChoice(candidate: Candidate, index: number): Promise<OpenAIChatCompletionResponse['choices'][number]> {
+  // Check if response contains mixed content (text + images)
+  const hasMixedContent = candidate.content?.parts?.some((part: Part) => !part.thought && isGeminiImagePart(part));
+  
+  chatLog.debug('Response analysis', { choice: index, parts: candidate.content?.parts?.length || 0, mixed_content: !!hasMixedContent });
+  if (hasMixedContent) {
+    chatLog.debug('Parts breakdown', { parts: candidate.content?.parts?.map((part, i) => ({
+      index: i,
+      hasText: !!part.text,
+      hasImage: isGeminiImagePart(part),
+      imageType: isGeminiImagePart(part) ? (part as any).inlineData?.mimeType : null
+    })) });
+  }
+  
+  let responseContent: string | OpenAIContentPart[];
+  
+  if (hasMixedContent && candidate.content?.parts) {
+    // Process mixed content with images
+    chatLog.info('Processing mixed content response with images');
+    responseContent = await processGeminiResponseParts(candidate.content.parts);
+  } else {
+    // Traditional text-only response
+    responseContent = extractTextFromParts(candidate.content?.parts ?? []);
+  }
+
+  // Thought summaries are only present when include_thoughts was requested
+  const reasoningContent = extractReasoningFromParts(candidate.content?.parts ?? []);
+
+  // Gemini functionCall parts become OpenAI tool calls
+  const toolCalls = extractToolCallsFromParts(candidate.content?.parts ?? []);
+  if (toolCalls.length > 0) {
+    chatLog.info('Model called tools', { tool_calls: toolCalls.map(call => call.function.name) });
+  }
+
+  const finishReason = toolCalls.length > 0 ? 'tool_calls' : mapGeminiFinishReasonToOpenAI(candidate.finishReason);
+
+  // === Add: Resolve real URLs for groundingChunks and add google_gemini_body ===
+  const googleGeminiBody = await buildGoogleGeminiBody(candidate.groundingMetadata?.groundingChunks);
+
+  return {
+    index,
+    message: {
+      role: 'assistant',
+      // OpenAI returns null content when the model only made tool calls
+      content: toolCalls.length > 0 && !responseContent ? null : responseContent,
+      ...(reasoningContent ? { reasoning_content: reasoningContent } : {}),
+      ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+    },
+    finish_reason: finishReason,
+    ...(googleGeminiBody ? { google_gemini_body: googleGeminiBody } : {}),
+  };
+}
+
+// Helper to resolve the real URLs of grounding chunks and wrap them as google_gemini_body
+async function buildGoogleGeminiBody(groundingChunks: GroundingChunk[] | undefined): Promise<any> {
+  if (!groundingChunks || !Array.isArray(groundingChunks)) {
+    return undefined;
+  }
+  // For each chunk, resolve the real URL and add as resolved_uri
+  const resolvedChunks = await Promise.all(
+    groundingChunks.map(async (chunk) => {
+      if (chunk.web && chunk.web.uri) {
+        const resolvedUri = await resolveRedirects(chunk.web.uri);
+        return {
+          ...chunk,
+          web: {
+            ...chunk.web,
+            resolved_uri: resolvedUri,
+          },
+        };
+      }
+      return chunk;
+    })
+  );
+  return {
+    groundingMetadata: {
+      groundingChunks: resolvedChunks,
+    },
+  };
+}
+
+// Stream a chat completion as OpenAI chat.completion.chunk server-sent events
+async function streamChatCompletion(
+  res: Response,
+  client: GenAIClient,
+  generateContentOptions: GenerateContentParameters,
+  modelChain: string[],
+  includeUsage: boolean,
+  choiceCount: number
+): Promise<void> {
+  // Errors thrown here (before any byte is written) are handled by the regular JSON error path
+  const { result: geminiStream, model: modelName } = await callGeminiWithFallbacks(client, modelChain, (genAI, model, abortSignal) =>
+    genAI.models.generateContentStream(withAbortSignal({ ...generateContentOptions, model }, abortSignal)));
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  const responseId = 'msg_' + Date.now().toString(36) + Math.random().toString(36).substring(2, 15);
+  const createdTimestamp = Math.floor(Date.now() / 1000);
+
+  const writeChunk = (choices: OpenAIChatCompletionChunk['choices'], usage?: OpenAIChatCompletionChunk['usage']) => {
+    const chunk: OpenAIChatCompletionChunk = {
+      id: responseId,
+      object: 'chat.completion.chunk',
+      created: createdTimestamp,
+      model: modelName,
+      choices,
+      ...(usage ? { usage } : {}),
+    };
+    res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+  };
+
+  // OpenAI clients expect the role to arrive in the first delta of every choice
+  writeChunk(Array.from({ length: choiceCount }, (_, index) => ({
+    index,
+    delta: { role: 'assistant' as const, content: '' },
+    finish_reason: null,
+  })));
+
+  // Per-choice state, keyed by candidate index (more than one only when n > 1)
+  const geminiFinishReasons = new Map<number, GeminiFinishReason>();
+  const toolCallCounts = new Map<number, number>();
+  let blockReason: string | undefined;
+  let usageMetadata: GenerateContentResponse['usageMetadata'];
+  let chunkCount = 0;
+
+  for await (const geminiChunk of geminiStream) {
+    chunkCount++;
+    if (geminiChunk.usageMetadata) {
+      usageMetadata = geminiChunk.usageMetadata;
+    }
+    if (geminiChunk.promptFeedback?.blockReason) {
+      blockReason = geminiChunk.promptFeedback.blockReason;
+    }
+
+    const choices: OpenAIChatCompletionChunk['choices'] = [];
+    for (const [i, candidate] of (geminiChunk.candidates ?? []).entries()) {
+      const choiceIndex = candidate.index ?? i;
+      if (candidate.finishReason) {
+        geminiFinishReasons.set(choiceIndex, candidate.finishReason);
+      }
+
+      const parts = candidate.content?.parts ?? [];
+      let deltaContent: string | OpenAIContentPart[] | undefined;
+      if (parts.some((part: Part) => !part.thought && isGeminiImagePart(part))) {
+        // Generated images are uploaded as soon as their chunk arrives
+        chatLog.info('Processing streamed chunk with images');
+        deltaContent = await processGeminiResponseParts(parts);
+      } else {
+        const text = extractTextFromParts(parts);
+        if (text) {
+          deltaContent = text;
+        }
+      }
+      const reasoningContent = extractReasoningFromParts(parts);
+
+      // Gemini streams each function call as a complete part, so every tool call is sent in one delta
+      let toolCallCount = toolCallCounts.get(choiceIndex) ?? 0;
+      const toolCalls = extractToolCallsFromParts(parts).map(toolCall => ({ index: toolCallCount++, ...toolCall }));
+      toolCallCounts.set(choiceIndex, toolCallCount);
+
+      // Grounding metadata is attached to the chunk it arrived with
+      const googleGeminiBody = await buildGoogleGeminiBody(candidate.groundingMetadata?.groundingChunks);
+
+      if (deltaContent !== undefined || reasoningContent || toolCalls.length > 0 || googleGeminiBody) {
+        choices.push({
+          index: choiceIndex,
+          delta: {
+            ...(reasoningContent ? { reasoning_content: reasoningContent } : {}),
+            ...(deltaContent !== undefined ? { content: deltaContent } : {}),
+            ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+          },
+          finish_reason: null,
+          ...(googleGeminiBody ? { google_gemini_body: googleGeminiBody } : {}),
+        });
+      }
+    }
+
+    if (choices.length > 0) {
+      writeChunk(choices);
+    }
+  }
+
+  const finishChoices = Array.from({ length: choiceCount }, (_, index) => {
+    const geminiFinishReason = geminiFinishReasons.get(index);
+    let finishReason = mapGeminiFinishReasonToOpenAI(geminiFinishReason);
+    if ((toolCallCounts.get(index) ?? 0) > 0) {
+      finishReason = 'tool_calls';
+    } else if (!geminiFinishReason && blockReason) {
+      finishReason = 'content_filter';
+    }
+    return { index, delta: {}, finish_reason: finishReason };
+  });
+
+  chatLog.info('Stream finished', { chunks: chunkCount, finish_reasons: finishChoices.map(choice => choice.finish_reason) });
+
+  writeChunk(finishChoices, includeUsage ? mapGeminiUsageToOpenAI(usageMetadata) : undefined);
+  res.write('data: [DONE]\n\n');
+  res.end();
+}
+
 // ============================================================================
 // Context Cache Management Endpoints
 // ============================================================================
 
+// GoogleGenAI client for a request; pool is set when the key comes from a pooled upstream credential
+interface GenAIClient {
+  genAI: GoogleGenAI;
+  useVertex: boolean;
+  project?: string;
+  location?: string;
+  pool?: {
+    name: string;
+    targets: UpstreamTarget[];
+    target: UpstreamTarget;
+    failover: boolean;
+  };
+  abortSignal?: AbortSignal; // Aborted when the client disconnects
+}
+
+// Statuses that make the chat handler move on to the next model of a fallback chain
+const FALLBACK_STATUS_CODES = [404, 429, 503];
+
 // Helper function to initialize GoogleGenAI client
-function initializeGenAI(req: Request, res: Response): { genAI: GoogleGenAI; useVertex: boolean; project?: string; location?: string } | null {
+// Files and caches belong to the project of the key that created them, so their routes
+// pass rotate = false and always use the first key of a pool (without failover)
+// sendFailure reports why no client could be created, in the route's error envelope
+function initializeGenAI(req: Request, res: Response, rotate: boolean = true, sendFailure: ErrorSender = sendError): GenAIClient | null {
+  const client = createGenAIClient(req, res, rotate, sendFailure);
+  if (client) {
+    client.abortSignal = getClientAbortSignal(res);
+  }
+  return client;
+}
+
+// Abort signal that fires when the client disconnects before the response is complete
+function getClientAbortSignal(res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', AsyncResource.bind(() => {
+    if (!res.writableFinished) {
+      upstreamLog.info('Client disconnected, aborting upstream request');
+      controller.abort();
+    }
+  }));
+  return controller.signal;
+}
+
+function createGenAIClient(req: Request, res: Response, rotate: boolean, sendFailure: ErrorSender): GenAIClient | null {
   const authHeader = req.headers.authorization;
   let apiKey: string | undefined;
   
-  const useVertex = req.body.use_vertex === true || req.query.use_vertex === 'true';
-  const project = req.body.google_cloud_project || req.query.google_cloud_project;
-  const location = req.body.google_cloud_location || req.query.google_cloud_location;
+  // GET requests have no body, so fall back to query parameters
+  const useVertex = req.body?.use_vertex === true || req.query.use_vertex === 'true';
+  const clientKey: ClientKeyRecord | undefined = res.locals.clientKey;
+  if (clientKey) {
+    return initializeGenAIForClientKey(clientKey, useVertex, res, rotate, sendFailure);
+  }
+
+  const project = req.body?.google_cloud_project || req.query.google_cloud_project;
+  const location = req.body?.google_cloud_location || req.query.google_cloud_location;
 
   if (authHeader && authHeader.startsWith('Bearer ')) {
     apiKey = authHeader.substring(7);
-  } else {
-    apiKey = process.env.GEMINI_API_KEY;
-  }
-
-  if (!apiKey && !useVertex) {
-    res.status(401).json({ 
-      error: 'API key not provided. Use Bearer token in Authorization header or set GEMINI_API_KEY environment variable.' 
-    });
-    return null;
+  } else if (typeof req.headers['x-api-key'] === 'string') {
+    // Anthropic clients send the key in x-api-key
+    apiKey = req.headers['x-api-key'];
   }
 
   if (useVertex) {
+    // Vertex AI authenticates with the server's Application Default Credentials, not the caller's key
+    if (!isAnonymousAccessAllowed()) {
+      httpLog.warn('Rejected Vertex AI request without a client key');
+      sendFailure(res, 401, 'Vertex AI uses the server credentials and requires a client key (or ALLOW_ANONYMOUS=true on the server).', {
+        code: 'invalid_api_key'
+      });
+      return null;
+    }
     if (!project) {
-      res.status(400).json({ error: 'Missing google_cloud_project. Required when use_vertex is true.' });
+      sendFailure(res, 400, 'Missing google_cloud_project. Required when use_vertex is true.');
       return null;
     }
     if (!location) {
-      res.status(400).json({ error: 'Missing google_cloud_location. Required when use_vertex is true.' });
+      sendFailure(res, 400, 'Missing google_cloud_location. Required when use_vertex is true.');
       return null;
     }
     return {
@@ -641,45 +1137,216 @@ function initializeGenAI(req: Request, res: Response): { genAI: GoogleGenAI; use
     };
   }
 
-  return {
-    genAI: new GoogleGenAI({ apiKey }),
-    useVertex: false
-  };
-}
+  if (apiKey) {
+    return {
+      genAI: new GoogleGenAI({ apiKey }),
+      useVertex: false
+    };
+  }
 
-// Helper to convert cache response to our format
-function formatCacheResponse(cache: any): CacheResponse {
-  return {
-    name: cache.name,
-    model: cache.model,
-    display_name: cache.displayName,
-    create_time: cache.createTime,
-    update_time: cache.updateTime,
-    expire_time: cache.expireTime,
-    usage_metadata: cache.usageMetadata ? {
-      total_token_count: cache.usageMetadata.totalTokenCount
-    } : undefined
-  };
+  // Without a key from the caller, use the server's default pool (GEMINI_API_KEY / GEMINI_API_KEYS),
+  // but only when ALLOW_ANONYMOUS opts in: otherwise anyone who can reach the port would use the server's keys
+  const defaultCredential = isAnonymousAccessAllowed() ? getUpstreamCredential('default') : undefined;
+  const targets = defaultCredential ? getUpstreamTargets(defaultCredential, false) : [];
+  if (targets.length === 0) {
+    sendFailure(res, 401, 'API key not provided. Use Bearer token in Authorization header.', { code: 'invalid_api_key' });
+    return null;
+  }
+  return initializeGenAIFromPool('default', targets, false, res, rotate, sendFailure);
 }
 
-// Create a new context cache
-app.post('/v1/caches', async (req: Request, res: Response): Promise<void> => {
-  console.log(`[${new Date().toISOString()}] Creating context cache`);
-  
-  const clientResult = initializeGenAI(req, res);
-  if (!clientResult) return;
-  
-  const { genAI } = clientResult;
-  const requestBody = req.body as CreateCacheRequest;
-  
-  const { model, display_name, contents, system_instruction, ttl, expire_time } = requestBody;
+// Initialize GoogleGenAI from the upstream credential a client key references
+// The Vertex AI project and location come from the credential, not from the request
+function initializeGenAIForClientKey(clientKey: ClientKeyRecord, useVertex: boolean, res: Response, rotate: boolean, sendFailure: ErrorSender): GenAIClient | null {
+  const credential = getUpstreamCredential(clientKey.upstream);
+  if (!credential) {
+    upstreamLog.error('Client key references an unknown upstream credential', { client_key_id: clientKey.id, upstream: clientKey.upstream });
+    sendFailure(res, 500, `Upstream credential '${clientKey.upstream}' is not configured`);
+    return null;
+  }
 
-  if (!model) {
-    res.status(400).json({ error: 'Missing required field: model' });
-    return;
+  if (useVertex && !isFeatureAllowed(clientKey, 'vertex')) {
+    sendFailure(res, 403, 'This client key is not allowed to use the vertex feature');
+    return null;
   }
 
-  try {
+  const targets = getUpstreamTargets(credential, useVertex);
+  if (targets.length === 0) {
+    sendFailure(res, 400, useVertex
+      ? `Upstream credential '${clientKey.upstream}' has no Vertex AI project configured`
+      : `Upstream credential '${clientKey.upstream}' has no Gemini API key. Use use_vertex instead.`);
+    return null;
+  }
+  return initializeGenAIFromPool(`${clientKey.upstream}${useVertex ? ':vertex' : ''}`, targets, useVertex, res, rotate, sendFailure);
+}
+
+// Pick the upstream key for a request: the next healthy key of the pool, or the first key when not rotating
+function initializeGenAIFromPool(poolName: string, targets: UpstreamTarget[], useVertex: boolean, res: Response, rotate: boolean, sendFailure: ErrorSender): GenAIClient | null {
+  const target = rotate ? orderUpstreamTargets(poolName, targets, true)[0] : targets[0];
+  if (!target) {
+    const retryAfter = Math.ceil(getPoolCooldownRemainingMs(targets) / 1000);
+    upstreamLog.warn('All upstream keys of the pool are cooling down', { pool: poolName, keys: targets.length, retry_after: retryAfter });
+    sendFailure(res, 429, `All upstream API keys are rate limited. Retry in ${retryAfter} seconds.`, {
+      code: 'rate_limit_exceeded',
+      retryAfter
+    });
+    return null;
+  }
+  if (targets.length > 1) {
+    upstreamLog.info('Using upstream key', { pool: poolName, upstream_key: target.label });
+  }
+  return {
+    genAI: createGenAIForTarget(target),
+    useVertex,
+    project: target.vertex?.project,
+    location: target.vertex?.location,
+    pool: { name: poolName, targets, target, failover: rotate }
+  };
+}
+
+// Run a Gemini request on the client's upstream key
+// - When a pooled key is rate limited it goes on cooldown and the request moves to the next healthy key
+// - Transient failures (429, 5xx, network errors) of idempotent requests are retried with backoff (getRetryPolicy())
+// - Every attempt gets an abort signal for the request deadline and the client connection
+async function callGemini<T>(
+  client: GenAIClient,
+  request: (genAI: GoogleGenAI, abortSignal?: AbortSignal) => Promise<T>,
+  idempotent: boolean = true,
+  deadline: number | undefined = getRequestDeadline()
+): Promise<T> {
+  const pool = client.pool;
+  const policy = getRetryPolicy();
+  const tried = new Set<string>();
+  for (let attempt = 1; ; attempt++) {
+    const target = pool?.target;
+    if (target) {
+      tried.add(target.id);
+      recordUpstreamRequest(target);
+    }
+    const abortSignal = createAttemptSignal(client.abortSignal, deadline);
+    const endAttempt = startUpstreamRequestTimer(target?.type ?? (client.useVertex ? 'vertex' : 'api_key'));
+    try {
+      const result = await request(client.genAI, abortSignal);
+      endAttempt('success');
+      if (target) {
+        recordUpstreamSuccess(target);
+      }
+      return observeTokenUsage(result);
+    } catch (error: any) {
+      if (client.abortSignal?.aborted) {
+        endAttempt('cancelled');
+        throw error;
+      }
+      const timedOut = !!abortSignal?.aborted;
+      const upstreamError = timedOut ? new UpstreamTimeoutError(policy.timeoutMs) : error;
+      const rateLimited = isRateLimitError(upstreamError);
+      endAttempt(timedOut ? 'timeout' : rateLimited ? 'rate_limited' : 'error');
+      if (rateLimited) {
+        // Keys sent by the client (not from a configured credential) are counted as 'request'
+        recordUpstreamRateLimitMetric(pool?.name ?? 'request');
+      }
+
+      if (pool && target && rateLimited) {
+        const cooldownMs = recordUpstreamRateLimit(target, upstreamError);
+        const next = pool.failover
+          ? orderUpstreamTargets(pool.name, pool.targets, false).find(candidate => !tried.has(candidate.id))
+          : undefined;
+        upstreamLog.warn('Upstream key rate limited', {
+          upstream_key: target.label,
+          cooldown_seconds: Math.ceil(cooldownMs / 1000),
+          ...(next ? { retrying_with: next.label } : {}),
+        });
+        if (next) {
+          // Moving to another key does not count as a retry
+          pool.target = next;
+          client.genAI = createGenAIForTarget(next);
+          attempt--;
+          continue;
+        }
+      } else if (target) {
+        recordUpstreamError(target, upstreamError);
+      }
+
+      const backoffMs = idempotent && !timedOut ? getRetryBackoffMs(upstreamError, attempt, policy) : undefined;
+      if (backoffMs === undefined || (deadline !== undefined && Date.now() + backoffMs >= deadline)) {
+        throw upstreamError;
+      }
+      upstreamLog.warn('Gemini API request failed, retrying', {
+        status: upstreamError.status,
+        error: upstreamError.message,
+        backoff_ms: backoffMs,
+        attempt: attempt + 1,
+        max_attempts: policy.maxAttempts,
+      });
+      await sleep(backoffMs, client.abortSignal);
+      if (client.abortSignal?.aborted) {
+        throw upstreamError;
+      }
+    }
+  }
+}
+
+// Helper to get the deadline (epoch ms) of a request starting now, undefined when GEMINI_REQUEST_TIMEOUT_MS is 0
+function getRequestDeadline(): number | undefined {
+  const { timeoutMs } = getRetryPolicy();
+  return timeoutMs > 0 ? Date.now() + timeoutMs : undefined;
+}
+
+// Run a Gemini request on the first model of a fallback chain that answers
+// A model that is not found (404), rate limited (429) or overloaded (503) after callGemini()'s retries
+// hands the request to the next model; the model that answered is returned with the result
+// The whole chain shares one request deadline
+async function callGeminiWithFallbacks<T>(
+  client: GenAIClient,
+  models: string[],
+  request: (genAI: GoogleGenAI, model: string, abortSignal?: AbortSignal) => Promise<T>
+): Promise<{ result: T; model: string }> {
+  const deadline = getRequestDeadline();
+  for (const [index, model] of models.entries()) {
+    try {
+      const result = await callGemini(client, (genAI, abortSignal) => request(genAI, model, abortSignal), true, deadline);
+      return { result, model };
+    } catch (error: any) {
+      const status = getErrorStatus(error);
+      const next = models[index + 1];
+      if (!next || client.abortSignal?.aborted || !FALLBACK_STATUS_CODES.includes(status ?? 0) || (deadline !== undefined && Date.now() >= deadline)) {
+        throw error;
+      }
+      upstreamLog.warn('Model failed, falling back', { model, status, fallback: next });
+    }
+  }
+  throw new Error('No model to call');
+}
+
+// Helper to convert cache response to our format
+function formatCacheResponse(cache: any): CacheResponse {
+  return {
+    name: cache.name,
+    model: cache.model,
+    display_name: cache.displayName,
+    create_time: cache.createTime,
+    update_time: cache.updateTime,
+    expire_time: cache.expireTime,
+    usage_metadata: cache.usageMetadata ? {
+      total_token_count: cache.usageMetadata.totalTokenCount
+    } : undefined
+  };
+}
+
+// Create a new context cache
+app.post('/v1/caches', async (req: Request, res: Response): Promise<void> => {
+  cachesLog.info('Creating context cache');
+  
+  const requestBody: CreateCacheRequest | undefined = validateRequestBody(res, createCacheRequestSchema, req.body);
+  if (!requestBody) return;
+
+  const clientResult = initializeGenAI(req, res, false);
+  if (!clientResult) return;
+  
+  const { model, display_name, contents, system_instruction, ttl, expire_time } = requestBody;
+  if (!authorizeClientKey(res, [model])) return;
+
+  try {
     // Build the cache creation config
     const cacheConfig: any = {
       model,
@@ -718,30 +1385,26 @@ app.post('/v1/caches', async (req: Request, res: Response): Promise<void> => {
       cacheConfig.expireTime = expire_time;
     }
 
-    console.log('Creating cache with config:', JSON.stringify(cacheConfig, null, 2));
+    cachesLog.debug('Creating cache', { config: cacheConfig });
 
-    const cache = await genAI.caches.create(cacheConfig);
+    const cache = await callGemini(clientResult, (genAI, abortSignal) => genAI.caches.create(withAbortSignal(cacheConfig, abortSignal)), false);
     
-    console.log('Cache created:', JSON.stringify(cache, null, 2));
+    cachesLog.debug('Cache created', { cache });
+    recordResourceOwner('cache', cache.name, res.locals.clientKey, cache.expireTime);
     
     res.status(201).json(formatCacheResponse(cache));
   } catch (error: any) {
-    console.error('Error creating cache:', error.message, error.stack);
-    res.status(500).json({ 
-      error: 'Failed to create context cache', 
-      details: error.message 
-    });
+    cachesLog.error('Error creating cache', { error });
+    handleRouteError(res, error, 'Failed to create context cache');
   }
 });
 
 // List all context caches
 app.get('/v1/caches', async (req: Request, res: Response): Promise<void> => {
-  console.log(`[${new Date().toISOString()}] Listing context caches`);
+  cachesLog.info('Listing context caches');
   
-  const clientResult = initializeGenAI(req, res);
+  const clientResult = initializeGenAI(req, res, false);
   if (!clientResult) return;
-  
-  const { genAI } = clientResult;
 
   try {
     const pageSize = parseInt(req.query.page_size as string) || 100;
@@ -752,13 +1415,16 @@ app.get('/v1/caches', async (req: Request, res: Response): Promise<void> => {
       listConfig.pageToken = pageToken;
     }
 
-    const result = await genAI.caches.list(listConfig);
+    const result = await callGemini(clientResult, (genAI, abortSignal) => genAI.caches.list(withAbortSignal(listConfig, abortSignal)));
     
     const caches: CacheResponse[] = [];
     // Handle the async iterator result from the SDK
     if (result) {
       for await (const cache of result as AsyncIterable<any>) {
-        caches.push(formatCacheResponse(cache));
+        // Client keys only see their own caches
+        if (isResourceOwner('cache', cache.name, res.locals.clientKey)) {
+          caches.push(formatCacheResponse(cache));
+        }
       }
     }
 
@@ -769,160 +1435,2245 @@ app.get('/v1/caches', async (req: Request, res: Response): Promise<void> => {
 
     res.json(response);
   } catch (error: any) {
-    console.error('Error listing caches:', error.message, error.stack);
-    res.status(500).json({ 
-      error: 'Failed to list context caches', 
-      details: error.message 
-    });
+    cachesLog.error('Error listing caches', { error });
+    handleRouteError(res, error, 'Failed to list context caches');
   }
 });
 
 // Get a specific context cache
 app.get('/v1/caches/:cacheId', async (req: Request, res: Response): Promise<void> => {
   const cacheId = req.params.cacheId;
-  console.log(`[${new Date().toISOString()}] Getting context cache: ${cacheId}`);
+  cachesLog.info('Getting context cache', { cache_id: cacheId });
   
-  const clientResult = initializeGenAI(req, res);
+  const clientResult = initializeGenAI(req, res, false);
   if (!clientResult) return;
-  
-  const { genAI } = clientResult;
+  if (!isResourceOwner('cache', cacheId, res.locals.clientKey)) {
+    sendError(res, 404, `Context cache '${cacheId}' not found`);
+    return;
+  }
 
   try {
     // The cacheId might be the full resource name or just the ID
     // Full format: projects/{project}/locations/{location}/cachedContents/{cacheId}
     const cacheName = cacheId.includes('/') ? cacheId : cacheId;
     
-    const cache = await genAI.caches.get({ name: cacheName });
+    const cache = await callGemini(clientResult, (genAI, abortSignal) => genAI.caches.get({ name: cacheName, config: { abortSignal } }));
     
     if (!cache) {
-      res.status(404).json({ error: 'Context cache not found', cache_id: cacheId });
+      sendError(res, 404, `Context cache '${cacheId}' not found`);
       return;
     }
 
     res.json(formatCacheResponse(cache));
   } catch (error: any) {
-    console.error('Error getting cache:', error.message, error.stack);
-    if (error.message?.includes('not found') || error.message?.includes('404')) {
-      res.status(404).json({ error: 'Context cache not found', cache_id: cacheId });
-    } else {
-      res.status(500).json({ 
-        error: 'Failed to get context cache', 
-        details: error.message 
-      });
-    }
+    cachesLog.error('Error getting cache', { error });
+    handleRouteError(res, error, 'Failed to get context cache');
   }
 });
 
 // Update a context cache (TTL/expiration time only)
 app.patch('/v1/caches/:cacheId', async (req: Request, res: Response): Promise<void> => {
   const cacheId = req.params.cacheId;
-  console.log(`[${new Date().toISOString()}] Updating context cache: ${cacheId}`);
+  cachesLog.info('Updating context cache', { cache_id: cacheId });
   
-  const clientResult = initializeGenAI(req, res);
+  const requestBody: UpdateCacheRequest | undefined = validateRequestBody(res, updateCacheRequestSchema, req.body);
+  if (!requestBody) return;
+
+  const clientResult = initializeGenAI(req, res, false);
   if (!clientResult) return;
   
-  const { genAI } = clientResult;
-  const { ttl, expire_time } = req.body as UpdateCacheRequest;
+  const { ttl, expire_time } = requestBody;
 
   if (!ttl && !expire_time) {
-    res.status(400).json({ error: 'At least one of ttl or expire_time must be provided' });
+    sendError(res, 400, 'At least one of ttl or expire_time must be provided');
+    return;
+  }
+  if (!isResourceOwner('cache', cacheId, res.locals.clientKey)) {
+    sendError(res, 404, `Context cache '${cacheId}' not found`);
     return;
   }
 
   try {
     const cacheName = cacheId.includes('/') ? cacheId : cacheId;
     
-    const updateConfig: any = { name: cacheName };
+    const updateConfig: { name: string; config: { ttl?: string; expireTime?: string } } = { name: cacheName, config: {} };
     if (ttl) {
-      updateConfig.ttl = ttl;
+      updateConfig.config.ttl = ttl;
     }
     if (expire_time) {
-      updateConfig.expireTime = expire_time;
+      updateConfig.config.expireTime = expire_time;
     }
 
-    const cache = await genAI.caches.update(updateConfig);
+    const cache = await callGemini(clientResult, (genAI, abortSignal) => genAI.caches.update(withAbortSignal(updateConfig, abortSignal)));
+    updateResourceExpiry('cache', cache.name, cache.expireTime);
     
     res.json(formatCacheResponse(cache));
   } catch (error: any) {
-    console.error('Error updating cache:', error.message, error.stack);
-    if (error.message?.includes('not found') || error.message?.includes('404')) {
-      res.status(404).json({ error: 'Context cache not found', cache_id: cacheId });
-    } else {
-      res.status(500).json({ 
-        error: 'Failed to update context cache', 
-        details: error.message 
-      });
-    }
+    cachesLog.error('Error updating cache', { error });
+    handleRouteError(res, error, 'Failed to update context cache');
   }
 });
 
 // Delete a context cache
 app.delete('/v1/caches/:cacheId', async (req: Request, res: Response): Promise<void> => {
   const cacheId = req.params.cacheId;
-  console.log(`[${new Date().toISOString()}] Deleting context cache: ${cacheId}`);
-  
-  // Handle query params for GET-style auth in DELETE
-  const authHeader = req.headers.authorization;
-  let apiKey: string | undefined;
+  cachesLog.info('Deleting context cache', { cache_id: cacheId });
   
-  const useVertex = req.query.use_vertex === 'true';
-  const project = req.query.google_cloud_project as string;
-  const location = req.query.google_cloud_location as string;
+  // DELETE requests carry the Vertex AI settings as query parameters
+  const clientResult = initializeGenAI(req, res, false);
+  if (!clientResult) return;
+  if (!isResourceOwner('cache', cacheId, res.locals.clientKey)) {
+    sendError(res, 404, `Context cache '${cacheId}' not found`);
+    return;
+  }
 
-  if (authHeader && authHeader.startsWith('Bearer ')) {
-    apiKey = authHeader.substring(7);
-  } else {
-    apiKey = process.env.GEMINI_API_KEY;
+  try {
+    const cacheName = cacheId.includes('/') ? cacheId : cacheId;
+    
+    await callGemini(clientResult, (genAI, abortSignal) => genAI.caches.delete({ name: cacheName, config: { abortSignal } }));
+    forgetResourceOwner('cache', cacheId);
+    
+    res.status(204).send();
+  } catch (error: any) {
+    cachesLog.error('Error deleting cache', { error });
+    handleRouteError(res, error, 'Failed to delete context cache');
   }
+});
+
+// ============================================================================
+// Model Discovery Endpoints
+// ============================================================================
+
+// Strip the resource prefix from a Gemini model name ('models/x' or 'publishers/google/models/x')
+function getModelId(name: string): string {
+  return name.substring(name.lastIndexOf('/') + 1);
+}
+
+// Helper to convert a Gemini model to an OpenAI model object
+function formatModelResponse(model: Model, id?: string): OpenAIModel {
+  return {
+    id: id ?? getModelId(model.name ?? ''),
+    object: 'model',
+    created: 0, // Gemini does not report a creation time
+    owned_by: 'google',
+    google_gemini: {
+      name: model.name,
+      display_name: model.displayName,
+      description: model.description,
+      version: model.version,
+      input_token_limit: model.inputTokenLimit,
+      output_token_limit: model.outputTokenLimit,
+      supported_generation_methods: model.supportedActions,
+    },
+  };
+}
+
+// List available models (Gemini models plus configured aliases)
+app.get('/v1/models', async (req: Request, res: Response): Promise<void> => {
+  modelsLog.info('Listing models');
 
-  if (!apiKey && !useVertex) {
-    res.status(401).json({ 
-      error: 'API key not provided. Use Bearer token in Authorization header or set GEMINI_API_KEY environment variable.' 
+  const clientResult = initializeGenAI(req, res);
+  if (!clientResult) return;
+
+  try {
+    // queryBase lists the base (publisher) models on Vertex AI instead of tuned models
+    // The pager fetches further pages while it is iterated, so the whole listing is one upstream call
+    const models = await callGemini(clientResult, async (genAI, abortSignal) => {
+      const pager = await genAI.models.list(withAbortSignal({ config: { pageSize: 1000, queryBase: true } }, abortSignal));
+      const listed: Model[] = [];
+      for await (const model of pager) {
+        listed.push(model);
+      }
+      return listed;
     });
+
+    const data: OpenAIModel[] = models.map(model => formatModelResponse(model));
+
+    for (const [alias, target] of Object.entries(getModelAliases())) {
+      data.push({
+        id: alias,
+        object: 'model',
+        created: 0,
+        owned_by: 'gemini-reverse',
+        google_gemini: { alias_for: target },
+      });
+    }
+
+    // Client keys only see the models they may use
+    const clientKey: ClientKeyRecord | undefined = res.locals.clientKey;
+    const response: OpenAIModelList = {
+      object: 'list',
+      data: clientKey
+        ? data.filter(model => isModelAllowed(clientKey, [model.id, model.google_gemini?.alias_for ?? model.id]))
+        : data,
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    modelsLog.error('Error listing models', { error });
+    handleRouteError(res, error, 'Failed to list models');
+  }
+});
+
+// Get a specific model (or configured alias)
+app.get('/v1/models/:modelId', async (req: Request, res: Response): Promise<void> => {
+  const modelId = req.params.modelId;
+  modelsLog.info('Getting model', { model: modelId });
+
+  const clientResult = initializeGenAI(req, res);
+  if (!clientResult) return;
+
+  const geminiModelName = resolveModelAlias(modelId);
+  const clientKey: ClientKeyRecord | undefined = res.locals.clientKey;
+  if (clientKey && !isModelAllowed(clientKey, [modelId, geminiModelName])) {
+    sendError(res, 404, `The model '${modelId}' does not exist`, { code: 'model_not_found' });
     return;
   }
 
-  let genAI: GoogleGenAI;
-  if (useVertex) {
-    if (!project || !location) {
-      res.status(400).json({ 
-        error: 'Missing google_cloud_project or google_cloud_location. Required when use_vertex is true.' 
-      });
-      return;
+  try {
+    const model = await callGemini(clientResult, (genAI, abortSignal) => genAI.models.get({ model: geminiModelName, config: { abortSignal } }));
+    const response = formatModelResponse(model, modelId);
+    if (geminiModelName !== modelId) {
+      response.owned_by = 'gemini-reverse';
+      response.google_gemini = { ...response.google_gemini, alias_for: geminiModelName };
     }
-    genAI = new GoogleGenAI({ vertexai: true, project, location });
-  } else {
-    genAI = new GoogleGenAI({ apiKey });
+    res.json(response);
+  } catch (error: any) {
+    modelsLog.error('Error getting model', { error });
+    if (error.status === 404) {
+      sendError(res, 404, `The model '${modelId}' does not exist`, { code: 'model_not_found' });
+    } else {
+      handleRouteError(res, error, 'Failed to get model');
+    }
+  }
+});
+
+// ============================================================================
+// Embeddings Endpoint
+// ============================================================================
+
+// Maximum number of inputs Gemini accepts in a single embedContent call
+const EMBEDDING_BATCH_SIZE = 100;
+
+app.post('/v1/embeddings', async (req: Request, res: Response): Promise<void> => {
+  embeddingsLog.info('Creating embeddings');
+
+  const clientResult = initializeGenAI(req, res);
+  if (!clientResult) return;
+
+  const { model, input, dimensions, encoding_format, task_type } = req.body as OpenAIEmbeddingRequest;
+
+  if (!model) {
+    sendError(res, 400, 'Missing required field: model');
+    return;
+  }
+
+  const inputs = typeof input === 'string' ? [input] : input;
+  if (!Array.isArray(inputs) || inputs.length === 0 || inputs.some(text => typeof text !== 'string')) {
+    sendError(res, 400, 'input must be a non-empty string or an array of strings');
+    return;
+  }
+
+  if (encoding_format && encoding_format !== 'float' && encoding_format !== 'base64') {
+    sendError(res, 400, `Unsupported encoding_format: ${encoding_format}. Supported values are 'float' and 'base64'.`);
+    return;
+  }
+
+  if (dimensions !== undefined && (!Number.isInteger(dimensions) || dimensions < 1)) {
+    sendError(res, 400, 'dimensions must be a positive integer');
+    return;
   }
 
+  const geminiModelName = resolveModelAlias(model);
+  if (!authorizeClientKey(res, [model, geminiModelName])) return;
+  embeddingsLog.info('Embedding inputs', { model: geminiModelName, inputs: inputs.length });
+
   try {
-    const cacheName = cacheId.includes('/') ? cacheId : cacheId;
-    
-    await genAI.caches.delete({ name: cacheName });
-    
-    res.status(204).send();
+    const embeddings: number[][] = [];
+    let promptTokens = 0;
+
+    for (let start = 0; start < inputs.length; start += EMBEDDING_BATCH_SIZE) {
+      const batch = inputs.slice(start, start + EMBEDDING_BATCH_SIZE);
+      const result = await callGemini(clientResult, (genAI, abortSignal) => genAI.models.embedContent(withAbortSignal({
+        model: geminiModelName,
+        contents: batch.map(text => ({ parts: [{ text }] })),
+        config: {
+          ...(dimensions ? { outputDimensionality: dimensions } : {}),
+          ...(task_type ? { taskType: task_type } : {}),
+        },
+      }, abortSignal)));
+
+      if (!result.embeddings || result.embeddings.length !== batch.length) {
+        throw new Error(`Expected ${batch.length} embeddings from Gemini, got ${result.embeddings?.length ?? 0}`);
+      }
+
+      for (const embedding of result.embeddings) {
+        embeddings.push(embedding.values ?? []);
+        // Token statistics are only reported by Vertex AI
+        promptTokens += embedding.statistics?.tokenCount ?? 0;
+      }
+    }
+
+    const response: OpenAIEmbeddingResponse = {
+      object: 'list',
+      data: embeddings.map((values, index) => ({
+        object: 'embedding',
+        index,
+        embedding: encoding_format === 'base64' ? encodeEmbeddingAsBase64(values) : values,
+      })),
+      model,
+      usage: {
+        prompt_tokens: promptTokens,
+        total_tokens: promptTokens,
+      },
+    };
+
+    res.json(response);
   } catch (error: any) {
-    console.error('Error deleting cache:', error.message, error.stack);
-    if (error.message?.includes('not found') || error.message?.includes('404')) {
-      res.status(404).json({ error: 'Context cache not found', cache_id: cacheId });
+    embeddingsLog.error('Error creating embeddings', { error });
+    handleRouteError(res, error, 'Failed to create embeddings');
+  }
+});
+
+// ============================================================================
+// Image Generation Endpoints
+// ============================================================================
+
+// Model used by the images endpoints when the request does not name one
+const DEFAULT_IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+interface GeneratedImageResult {
+  base64Data: string;
+  mimeType: string;
+  revisedPrompt?: string;
+}
+
+// Helper to check whether a model is an Imagen model (served by generateImages instead of generateContent)
+function isImagenModel(model: string): boolean {
+  return /(^|\/)imagen-/.test(model);
+}
+
+// Collect the generated images from a Gemini image model response
+function extractGeneratedImages(response: GenerateContentResponse): GeneratedImageResult[] {
+  const parts = response.candidates?.[0]?.content?.parts ?? [];
+  return parts
+    .filter((part: Part) => isGeminiImagePart(part))
+    .map((part: Part) => ({ base64Data: part.inlineData!.data!, mimeType: part.inlineData!.mimeType! }));
+}
+
+// Helper to build the OpenAI images response, uploading images to the bucket server for response_format 'url'
+async function formatImagesResponse(images: GeneratedImageResult[], responseFormat: 'url' | 'b64_json'): Promise<OpenAIImagesResponse> {
+  const data = await Promise.all(images.map(async (image) => {
+    const revisedPrompt = image.revisedPrompt ? { revised_prompt: image.revisedPrompt } : {};
+    if (responseFormat === 'b64_json') {
+      return { b64_json: image.base64Data, ...revisedPrompt };
+    }
+    const url = await uploadImageToBucketWithFallback(image.base64Data, image.mimeType);
+    return { url, ...revisedPrompt };
+  }));
+  return {
+    created: Math.floor(Date.now() / 1000),
+    data,
+  };
+}
+
+// Generate images from a text prompt
+app.post('/v1/images/generations', async (req: Request, res: Response): Promise<void> => {
+  imagesLog.info('Image generation request');
+
+  const clientResult = initializeGenAI(req, res);
+  if (!clientResult) return;
+
+  const {
+    prompt,
+    model = DEFAULT_IMAGE_MODEL,
+    n = 1,
+    size,
+    aspect_ratio,
+    response_format = 'url',
+  } = req.body as OpenAIImageGenerationRequest;
+
+  if (!prompt || typeof prompt !== 'string') {
+    sendError(res, 400, 'Missing required field: prompt');
+    return;
+  }
+  if (!Number.isInteger(n) || n < 1 || n > 10) {
+    sendError(res, 400, 'n must be an integer between 1 and 10');
+    return;
+  }
+  if (response_format !== 'url' && response_format !== 'b64_json') {
+    sendError(res, 400, `Unsupported response_format: ${response_format}. Supported values are 'url' and 'b64_json'.`);
+    return;
+  }
+
+  const geminiModelName = resolveModelAlias(model);
+  if (!authorizeClientKey(res, [model, geminiModelName], ['image_generation'])) return;
+  const useImagen = isImagenModel(geminiModelName);
+
+  let aspectRatio: string | undefined = aspect_ratio;
+  if (!aspectRatio && size) {
+    try {
+      aspectRatio = convertImageSizeToAspectRatio(size, useImagen ? IMAGEN_ASPECT_RATIOS : GEMINI_IMAGE_ASPECT_RATIOS);
+    } catch (e: any) {
+      sendError(res, 400, e.message);
+      return;
+    }
+  }
+
+  imagesLog.info('Generating images', {
+    model: geminiModelName,
+    backend: useImagen ? 'imagen' : 'gemini',
+    n,
+    aspect_ratio: aspectRatio ?? 'default',
+    response_format,
+  });
+
+  try {
+    let images: GeneratedImageResult[];
+
+    if (useImagen) {
+      const result = await callGemini(clientResult, (genAI, abortSignal) => genAI.models.generateImages(withAbortSignal({
+        model: geminiModelName,
+        prompt,
+        config: {
+          numberOfImages: n,
+          ...(aspectRatio ? { aspectRatio } : {}),
+        },
+      }, abortSignal)));
+      images = (result.generatedImages ?? [])
+        .filter(generated => generated.image?.imageBytes)
+        .map(generated => ({
+          base64Data: generated.image!.imageBytes!,
+          mimeType: generated.image!.mimeType || 'image/png',
+          revisedPrompt: generated.enhancedPrompt,
+        }));
     } else {
-      res.status(500).json({ 
-        error: 'Failed to delete context cache', 
-        details: error.message 
-      });
+      // Gemini image models return one image per call, so n images means n parallel calls
+      const results = await Promise.all(Array.from({ length: n }, () =>
+        callGemini(clientResult, (genAI, abortSignal) => genAI.models.generateContent(withAbortSignal({
+          model: geminiModelName,
+          contents: [{ role: 'user', parts: [{ text: prompt }] }],
+          config: {
+            responseModalities: ['IMAGE'],
+            safetySettings: DEFAULT_SAFETY_SETTINGS,
+            ...(aspectRatio ? { imageConfig: { aspectRatio } } : {}),
+          },
+        }, abortSignal)))
+      ));
+      images = results.flatMap(result => extractGeneratedImages(result)).slice(0, n);
+    }
+
+    if (images.length === 0) {
+      imagesLog.error('No images generated by the model');
+      sendError(res, 500, 'No images generated by the model. The prompt may have been blocked by safety filters.');
+      return;
     }
+
+    imagesLog.info('Images generated', { images: images.length });
+    res.json(await formatImagesResponse(images, response_format));
+  } catch (error: any) {
+    imagesLog.error('Error generating images', { error });
+    handleRouteError(res, error, 'Failed to generate images');
   }
 });
 
-app.listen(port, async () => {
-  console.log('Reverse proxy server listening on http://localhost:' + port);
-  
-  // Check bucket server health on startup
-  console.log('Checking bucket server availability...');
-  const bucketHealthy = await checkBucketServerHealth();
-  if (bucketHealthy) {
-    console.log('✓ Bucket server is available for image uploads');
-  } else {
-    console.log('⚠ Bucket server not available - image uploads will fall back to data URLs');
+// Multipart uploads are kept in memory and forwarded to Gemini as inlineData
+const multipartUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 50 * 1024 * 1024 },
+});
+
+// Wrap a multer middleware so upload errors are returned as JSON 400 responses
+// and use_vertex is a boolean by the time the route reads it
+function handleMultipartUpload(middleware: express.RequestHandler): express.RequestHandler {
+  return (req, res, next) => {
+    middleware(req, res, AsyncResource.bind((error?: any) => {
+      if (error) {
+        httpLog.error('Multipart upload error', { error });
+        sendError(res, error.code === 'LIMIT_FILE_SIZE' ? 413 : 400, `Invalid multipart upload: ${error.message}`);
+        return;
+      }
+      // Multipart fields are strings, so use_vertex arrives as 'true'
+      req.body = req.body ?? {};
+      req.body.use_vertex = req.body.use_vertex === true || req.body.use_vertex === 'true';
+      next();
+    }));
+  };
+}
+
+// Helper to convert an uploaded file to a Gemini inlineData part
+function convertUploadToInlineDataPart(file: Express.Multer.File): Part {
+  const base64Data = file.buffer.toString('base64');
+  const mimeType = file.mimetype && file.mimetype !== 'application/octet-stream'
+    ? file.mimetype
+    : getMimeTypeFromBase64(base64Data);
+  return { inlineData: { data: base64Data, mimeType } };
+}
+
+// Edit images with a Gemini image model
+// OpenAI SDKs send a single image as 'image' and several as 'image[]'
+app.post(
+  '/v1/images/edits',
+  handleMultipartUpload(multipartUpload.fields([
+    { name: 'image', maxCount: 16 },
+    { name: 'image[]', maxCount: 16 },
+    { name: 'mask', maxCount: 1 },
+  ])),
+  async (req: Request, res: Response): Promise<void> => {
+    imagesLog.info('Image edit request');
+
+    const clientResult = initializeGenAI(req, res);
+    if (!clientResult) return;
+
+    const {
+      prompt,
+      model = DEFAULT_IMAGE_MODEL,
+      n: rawN,
+      size,
+      aspect_ratio,
+      response_format = 'url',
+    } = req.body as OpenAIImageEditRequest;
+
+    const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+    const imageFiles = [...(files?.['image'] ?? []), ...(files?.['image[]'] ?? [])];
+    const maskFile = files?.['mask']?.[0];
+
+    if (!prompt) {
+      sendError(res, 400, 'Missing required field: prompt');
+      return;
+    }
+    if (imageFiles.length === 0) {
+      sendError(res, 400, 'Missing required file: image');
+      return;
+    }
+    const n = rawN ? Number(rawN) : 1;
+    if (!Number.isInteger(n) || n < 1 || n > 10) {
+      sendError(res, 400, 'n must be an integer between 1 and 10');
+      return;
+    }
+    if (response_format !== 'url' && response_format !== 'b64_json') {
+      sendError(res, 400, `Unsupported response_format: ${response_format}. Supported values are 'url' and 'b64_json'.`);
+      return;
+    }
+
+    const geminiModelName = resolveModelAlias(model);
+    if (!authorizeClientKey(res, [model, geminiModelName], ['image_generation'])) return;
+    if (isImagenModel(geminiModelName)) {
+      sendError(res, 400, `Image editing is only supported with Gemini image models, not ${geminiModelName}`);
+      return;
+    }
+
+    let aspectRatio: string | undefined = aspect_ratio;
+    if (!aspectRatio && size) {
+      try {
+        aspectRatio = convertImageSizeToAspectRatio(size, GEMINI_IMAGE_ASPECT_RATIOS);
+      } catch (e: any) {
+        sendError(res, 400, e.message);
+        return;
+      }
+    }
+
+    imagesLog.info('Editing images', { model: geminiModelName, input_images: imageFiles.length, mask: Boolean(maskFile), n });
+
+    // Images first, then the mask, then the instructions
+    const parts: Part[] = imageFiles.map(file => convertUploadToInlineDataPart(file));
+    let promptText = prompt;
+    if (maskFile) {
+      parts.push(convertUploadToInlineDataPart(maskFile));
+      promptText = `The last image is a mask. Only change the areas of the first image where the mask is transparent.\n\n${prompt}`;
+    }
+    parts.push({ text: promptText });
+
+    try {
+      // Gemini image models return one image per call, so n images means n parallel calls
+      const results = await Promise.all(Array.from({ length: n }, () =>
+        callGemini(clientResult, (genAI, abortSignal) => genAI.models.generateContent(withAbortSignal({
+          model: geminiModelName,
+          contents: [{ role: 'user', parts }],
+          config: {
+            responseModalities: ['IMAGE'],
+            safetySettings: DEFAULT_SAFETY_SETTINGS,
+            ...(aspectRatio ? { imageConfig: { aspectRatio } } : {}),
+          },
+        }, abortSignal)))
+      ));
+      const images = results.flatMap(result => extractGeneratedImages(result)).slice(0, n);
+
+      if (images.length === 0) {
+        imagesLog.error('No images generated by the model');
+        sendError(res, 500, 'No images generated by the model. The prompt may have been blocked by safety filters.');
+        return;
+      }
+
+      imagesLog.info('Images edited', { images: images.length });
+      res.json(await formatImagesResponse(images, response_format));
+    } catch (error: any) {
+      imagesLog.error('Error editing images', { error });
+      handleRouteError(res, error, 'Failed to edit images');
+    }
   }
+);
+
+// ============================================================================
+// Text-to-Speech Endpoint
+// ============================================================================
+
+const DEFAULT_TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+// OpenAI voice names mapped to the closest-sounding Gemini prebuilt voices
+// Any other value is passed through as a Gemini voice name (e.g. 'Kore', 'Puck')
+const OPENAI_TO_GEMINI_VOICES: Record<string, string> = {
+  alloy: 'Kore',
+  ash: 'Charon',
+  ballad: 'Sulafat',
+  coral: 'Aoede',
+  echo: 'Puck',
+  fable: 'Fenrir',
+  onyx: 'Orus',
+  nova: 'Leda',
+  sage: 'Gacrux',
+  shimmer: 'Callirrhoe',
+  verse: 'Iapetus',
+};
+
+// Output formats that can be encoded locally from Gemini's 16-bit PCM
+const SPEECH_CONTENT_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  pcm: 'audio/pcm',
+};
+
+app.post('/v1/audio/speech', async (req: Request, res: Response): Promise<void> => {
+  audioLog.info('Speech request');
+
+  const clientResult = initializeGenAI(req, res);
+  if (!clientResult) return;
+
+  const {
+    input,
+    model = DEFAULT_TTS_MODEL,
+    voice = 'alloy',
+    response_format = 'mp3',
+    speed,
+    instructions,
+  } = req.body as OpenAISpeechRequest;
+
+  if (!input || typeof input !== 'string') {
+    sendError(res, 400, 'Missing required field: input');
+    return;
+  }
+  if (!SPEECH_CONTENT_TYPES[response_format]) {
+    sendError(res, 400, `Unsupported response_format: ${response_format}. Supported values are ${Object.keys(SPEECH_CONTENT_TYPES).map(f => `'${f}'`).join(', ')}.`, {
+      param: 'response_format'
+    });
+    return;
+  }
+  if (speed !== undefined && (typeof speed !== 'number' || speed < 0.25 || speed > 4)) {
+    sendError(res, 400, 'speed must be a number between 0.25 and 4.0');
+    return;
+  }
+  if (typeof voice !== 'string' || !voice) {
+    sendError(res, 400, 'voice must be a non-empty string', { param: 'voice' });
+    return;
+  }
+
+  const geminiModelName = resolveModelAlias(model);
+  if (!authorizeClientKey(res, [model, geminiModelName])) return;
+  const voiceName = OPENAI_TO_GEMINI_VOICES[voice.toLowerCase()] ?? voice;
+
+  // Gemini TTS has no speed setting, but follows natural-language style directions
+  const directions: string[] = [];
+  if (instructions) {
+    directions.push(instructions);
+  }
+  if (speed !== undefined && speed < 0.9) {
+    directions.push(speed <= 0.5 ? 'Speak very slowly.' : 'Speak slowly.');
+  } else if (speed !== undefined && speed > 1.1) {
+    directions.push(speed >= 2 ? 'Speak very fast.' : 'Speak quickly.');
+  }
+  const text = directions.length > 0 ? `${directions.join(' ')}\n\n${input}` : input;
+
+  audioLog.info('Generating speech', { model: geminiModelName, voice: voiceName, response_format, input_length: input.length });
+
+  try {
+    const result = await callGemini(clientResult, (genAI, abortSignal) => genAI.models.generateContent(withAbortSignal({
+      model: geminiModelName,
+      contents: [{ role: 'user', parts: [{ text }] }],
+      config: {
+        responseModalities: ['AUDIO'],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+        },
+      },
+    }, abortSignal)));
+
+    const audioParts = (result.candidates?.[0]?.content?.parts ?? [])
+      .filter((part: Part) => part.inlineData?.data && part.inlineData.mimeType?.startsWith('audio/'));
+
+    if (audioParts.length === 0) {
+      audioLog.error('No audio generated by the model');
+      sendError(res, 500, 'No audio generated by the model.');
+      return;
+    }
+
+    // Gemini returns raw 16-bit little-endian mono PCM ('audio/L16;codec=pcm;rate=24000')
+    const sampleRate = getSampleRateFromMimeType(audioParts[0].inlineData!.mimeType!);
+    const pcm = Buffer.concat(audioParts.map((part: Part) => Buffer.from(part.inlineData!.data!, 'base64')));
+
+    let audio: Buffer;
+    if (response_format === 'wav') {
+      audio = encodePcmAsWav(pcm, sampleRate);
+    } else if (response_format === 'mp3') {
+      audio = encodePcmAsMp3(pcm, sampleRate);
+    } else {
+      audio = pcm;
+    }
+
+    audioLog.info('Speech generated', { duration_seconds: Number((pcm.length / 2 / sampleRate).toFixed(1)), bytes: audio.length, response_format });
+
+    res.setHeader('Content-Type', SPEECH_CONTENT_TYPES[response_format]);
+    res.setHeader('Content-Length', audio.length);
+    res.end(audio);
+  } catch (error: any) {
+    audioLog.error('Error generating speech', { error });
+    handleRouteError(res, error, 'Failed to generate speech');
+  }
+});
+
+// ============================================================================
+// Speech-to-Text Endpoints
+// ============================================================================
+
+const DEFAULT_TRANSCRIPTION_MODEL = 'gemini-2.5-flash';
+
+const AUDIO_TEXT_RESPONSE_FORMATS = ['json', 'text', 'srt', 'vtt', 'verbose_json'];
+
+// Structured output requested from Gemini; segments are only needed for timestamped formats
+function buildTranscriptionSchema(includeSegments: boolean): Record<string, any> {
+  return {
+    type: 'object',
+    properties: {
+      language: { type: 'string', description: 'ISO-639-1 code of the language spoken in the audio' },
+      duration: { type: 'number', description: 'Length of the audio in seconds' },
+      text: { type: 'string', description: 'The complete text' },
+      ...(includeSegments ? {
+        segments: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              start: { type: 'number', description: 'Segment start time in seconds' },
+              end: { type: 'number', description: 'Segment end time in seconds' },
+              text: { type: 'string' },
+            },
+            required: ['start', 'end', 'text'],
+          },
+        },
+      } : {}),
+    },
+    required: includeSegments ? ['language', 'duration', 'text', 'segments'] : ['language', 'text'],
+  };
+}
+
+// Shared handler for transcriptions (same language) and translations (into English)
+function createAudioTextHandler(task: 'transcribe' | 'translate') {
+  return async (req: Request, res: Response): Promise<void> => {
+    audioLog.info(`Audio ${task === 'transcribe' ? 'transcription' : 'translation'} request`);
+
+    const clientResult = initializeGenAI(req, res);
+    if (!clientResult) return;
+
+    const {
+      model,
+      url,
+      language,
+      prompt,
+      response_format = 'json',
+      temperature,
+    } = req.body as OpenAIAudioTextRequest;
+    const file = req.file;
+
+    if (!file && !url) {
+      sendError(res, 400, 'Missing required file: file (or a url field pointing to the audio)');
+      return;
+    }
+    if (!AUDIO_TEXT_RESPONSE_FORMATS.includes(response_format)) {
+      sendError(res, 400, `Unsupported response_format: ${response_format}. Supported values are ${AUDIO_TEXT_RESPONSE_FORMATS.map(f => `'${f}'`).join(', ')}.`, {
+        param: 'response_format'
+      });
+      return;
+    }
+
+    if (temperature !== undefined && (Number.isNaN(Number(temperature)) || Number(temperature) < 0 || Number(temperature) > 2)) {
+      sendError(res, 400, 'temperature must be a number between 0 and 2');
+      return;
+    }
+
+    // OpenAI clients send 'whisper-1', which has no Gemini equivalent
+    const geminiModelName = !model || model.startsWith('whisper') ? DEFAULT_TRANSCRIPTION_MODEL : resolveModelAlias(model);
+    if (!authorizeClientKey(res, [model || geminiModelName, geminiModelName])) return;
+
+    let audioPart: Part;
+    if (file) {
+      audioPart = convertUploadToInlineDataPart(file);
+    } else {
+      try {
+        const { base64Data, mimeType } = await fetchAudioAsBase64(url!);
+        audioPart = { inlineData: { data: base64Data, mimeType } };
+      } catch (e: any) {
+        sendError(res, 400, `Failed to process audio from URL: ${url}. ${e.message}`);
+        return;
+      }
+    }
+
+    audioLog.info('Processing audio', {
+      model: geminiModelName,
+      response_format,
+      mime_type: audioPart.inlineData?.mimeType,
+      ...(file ? { bytes: file.size } : { url: url && describeUrl(url) }),
+    });
+
+    const includeSegments = ['srt', 'vtt', 'verbose_json'].includes(response_format);
+    const instructions: string[] = [
+      task === 'transcribe'
+        ? 'Transcribe the speech in this audio verbatim, in the language it is spoken in.'
+        : 'Translate the speech in this audio into English.',
+    ];
+    if (task === 'transcribe' && language) {
+      instructions.push(`The audio is in the language with ISO-639-1 code "${language}".`);
+    }
+    if (includeSegments) {
+      instructions.push('Split the text into short, sentence-level segments with accurate start and end times in seconds.');
+    }
+    if (prompt) {
+      instructions.push(`Use this context for names and spelling: ${prompt}`);
+    }
+
+    try {
+      const result = await callGemini(clientResult, (genAI, abortSignal) => genAI.models.generateContent(withAbortSignal({
+        model: geminiModelName,
+        contents: [{ role: 'user', parts: [audioPart, { text: instructions.join(' ') }] }],
+        config: {
+          ...(temperature !== undefined ? { temperature: Number(temperature) } : {}),
+          responseMimeType: 'application/json',
+          responseJsonSchema: buildTranscriptionSchema(includeSegments),
+          safetySettings: DEFAULT_SAFETY_SETTINGS,
+        },
+      }, abortSignal)));
+
+      let transcription: { language?: string; duration?: number; text?: string; segments?: TranscriptionSegment[] };
+      try {
+        transcription = JSON.parse(result.text ?? '');
+      } catch {
+        audioLog.error('Gemini returned an unparseable transcription', { text: result.text });
+        sendError(res, 502, 'Failed to parse the transcription returned by the model');
+        return;
+      }
+
+      const text = transcription.text ?? '';
+      const segments = transcription.segments ?? [];
+      audioLog.info('Audio transcribed', { characters: text.length, segments: segments.length });
+
+      switch (response_format) {
+        case 'text':
+          res.type('text/plain').send(text);
+          return;
+        case 'srt':
+          res.type('text/plain').send(buildSrtSubtitles(segments));
+          return;
+        case 'vtt':
+          res.type('text/plain').send(buildVttSubtitles(segments));
+          return;
+        case 'verbose_json': {
+          const verbose: OpenAIVerboseTranscription = {
+            task,
+            language: task === 'translate' ? 'en' : (transcription.language ?? language ?? ''),
+            duration: transcription.duration ?? (segments.length > 0 ? segments[segments.length - 1].end : 0),
+            text,
+            segments: segments.map((segment, id) => ({ id, start: segment.start, end: segment.end, text: segment.text })),
+          };
+          res.json(verbose);
+          return;
+        }
+        default:
+          res.json({ text });
+      }
+    } catch (error: any) {
+      audioLog.error(`Error during audio ${task}`, { error });
+      handleRouteError(res, error, `Failed to ${task} audio`);
+    }
+  };
+}
+
+app.post('/v1/audio/transcriptions', handleMultipartUpload(multipartUpload.single('file')), createAudioTextHandler('transcribe'));
+app.post('/v1/audio/translations', handleMultipartUpload(multipartUpload.single('file')), createAudioTextHandler('translate'));
+
+// ============================================================================
+// Files API Endpoints
+// ============================================================================
+
+// Files are written to a temp directory first, Gemini accepts uploads of up to 2GB
+// Uploads are spooled to the temp directory, so their size is capped well below the Gemini limit of 2GB
+const FILES_UPLOAD_MAX_BYTES = parseInt(process.env.FILES_UPLOAD_MAX_BYTES || '', 10) || 512 * 1024 * 1024;
+
+const fileUpload = multer({
+  storage: multer.diskStorage({ destination: os.tmpdir() }),
+  limits: { fileSize: FILES_UPLOAD_MAX_BYTES },
+});
+
+// Gemini lists at most 100 files per page
+const FILES_LIST_MAX_PAGE_SIZE = 100;
+
+// Helper function to read the first bytes of an uploaded file, enough to detect its type
+async function readFileHead(filePath: string, length: number): Promise<Buffer> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+// Gemini file names look like 'files/abc123', OpenAI ids are returned without the prefix
+function getFileId(name: string | undefined): string {
+  return (name ?? '').replace(/^files\//, '');
+}
+
+// Helper to convert a Gemini file to an OpenAI file object
+function formatFileResponse(file: GeminiFile, purpose: string = 'user_data'): OpenAIFileObject {
+  const id = getFileId(file.name);
+  return {
+    id,
+    object: 'file',
+    bytes: Number(file.sizeBytes ?? 0),
+    created_at: file.createTime ? Math.floor(new Date(file.createTime).getTime() / 1000) : Math.floor(Date.now() / 1000),
+    ...(file.expirationTime ? { expires_at: Math.floor(new Date(file.expirationTime).getTime() / 1000) } : {}),
+    filename: file.displayName || id,
+    purpose,
+    status: file.state === FileState.ACTIVE ? 'processed' : file.state === FileState.FAILED ? 'error' : 'uploaded',
+    google_gemini: {
+      name: file.name,
+      uri: file.uri,
+      mime_type: file.mimeType,
+      state: file.state,
+    },
+  };
+}
+
+// Helper to reject Files API requests made in Vertex AI mode
+function rejectVertexFilesRequest(useVertex: boolean, res: Response): boolean {
+  if (useVertex) {
+    sendError(res, 400, 'The Files API is only available with the Gemini API, not with Vertex AI');
+    return true;
+  }
+  return false;
+}
+
+// Upload a file to the Gemini Files API
+app.post('/v1/files', handleMultipartUpload(fileUpload.single('file')), async (req: Request, res: Response): Promise<void> => {
+  const file = req.file;
+  try {
+    const clientResult = initializeGenAI(req, res, false);
+    if (!clientResult) return;
+    if (rejectVertexFilesRequest(clientResult.useVertex, res)) return;
+
+    if (!file) {
+      sendError(res, 400, 'Missing required multipart field: file');
+      return;
+    }
+
+    const purpose = typeof req.body.purpose === 'string' && req.body.purpose ? req.body.purpose : 'user_data';
+    const mimeType = file.mimetype && file.mimetype !== 'application/octet-stream'
+      ? file.mimetype
+      : getMimeTypeFromBase64((await readFileHead(file.path, 64)).toString('base64'));
+
+    filesLog.info('Uploading file to Gemini Files API', { filename: file.originalname, bytes: file.size, mime_type: mimeType, purpose });
+
+    // A retried upload could store the file twice, so uploads are not retried
+    const uploaded = await callGemini(clientResult, (genAI, abortSignal) => genAI.files.upload(withAbortSignal({
+      file: file.path,
+      config: { mimeType, displayName: file.originalname },
+    }, abortSignal)), false);
+
+    filesLog.info('File uploaded', { name: uploaded.name, state: uploaded.state });
+    recordResourceOwner('file', uploaded.name, res.locals.clientKey, uploaded.expirationTime);
+    res.json(formatFileResponse(uploaded, purpose));
+  } catch (error: any) {
+    filesLog.error('Error uploading file', { error });
+    handleRouteError(res, error, 'Failed to upload file');
+  } finally {
+    if (file) {
+      fs.promises.unlink(file.path).catch(() => {});
+    }
+  }
+});
+
+// List files uploaded to the Gemini Files API
+app.get('/v1/files', async (req: Request, res: Response): Promise<void> => {
+  filesLog.info('Listing files');
+
+  const clientResult = initializeGenAI(req, res, false);
+  if (!clientResult) return;
+  if (rejectVertexFilesRequest(clientResult.useVertex, res)) return;
+
+  try {
+    // One page per request: limit is the page size and after the page token returned with the previous page
+    const pageSize = Math.min(Math.max(parseInt(req.query.limit as string) || FILES_LIST_MAX_PAGE_SIZE, 1), FILES_LIST_MAX_PAGE_SIZE);
+    const pageToken = typeof req.query.after === 'string' && req.query.after ? req.query.after : undefined;
+    const pager = await callGemini(clientResult, (genAI, abortSignal) => genAI.files.list(withAbortSignal({
+      config: { pageSize, ...(pageToken ? { pageToken } : {}) },
+    }, abortSignal)));
+
+    // Client keys only see their own files, so a page can hold fewer than limit files
+    const files: OpenAIFileObject[] = pager.page.slice(0, pageSize)
+      .filter(file => isResourceOwner('file', file.name, res.locals.clientKey))
+      .map(file => formatFileResponse(file));
+    const nextPageToken = pager.hasNextPage() ? pager.params.config?.pageToken : undefined;
+
+    const response: OpenAIFileList = {
+      object: 'list',
+      data: files,
+      has_more: Boolean(nextPageToken),
+      ...(nextPageToken ? { after: nextPageToken } : {}),
+    };
+    res.json(response);
+  } catch (error: any) {
+    filesLog.error('Error listing files', { error });
+    handleRouteError(res, error, 'Failed to list files');
+  }
+});
+
+// Get a specific file
+app.get('/v1/files/:fileId', async (req: Request, res: Response): Promise<void> => {
+  const fileId = req.params.fileId;
+  filesLog.info('Getting file', { file_id: fileId });
+
+  const clientResult = initializeGenAI(req, res, false);
+  if (!clientResult) return;
+  if (rejectVertexFilesRequest(clientResult.useVertex, res)) return;
+  if (!isResourceOwner('file', fileId, res.locals.clientKey)) {
+    sendError(res, 404, `File '${fileId}' not found`);
+    return;
+  }
+
+  try {
+    const file = await callGemini(clientResult, (genAI, abortSignal) => genAI.files.get({ name: toGeminiFileName(fileId), config: { abortSignal } }));
+    res.json(formatFileResponse(file));
+  } catch (error: any) {
+    filesLog.error('Error getting file', { error });
+    if (error.status === 404 || error.status === 403) {
+      sendError(res, 404, `File '${fileId}' not found`);
+      return;
+    }
+    handleRouteError(res, error, 'Failed to get file');
+  }
+});
+
+// Delete a file
+app.delete('/v1/files/:fileId', async (req: Request, res: Response): Promise<void> => {
+  const fileId = req.params.fileId;
+  filesLog.info('Deleting file', { file_id: fileId });
+
+  const clientResult = initializeGenAI(req, res, false);
+  if (!clientResult) return;
+  if (rejectVertexFilesRequest(clientResult.useVertex, res)) return;
+  if (!isResourceOwner('file', fileId, res.locals.clientKey)) {
+    sendError(res, 404, `File '${fileId}' not found`);
+    return;
+  }
+
+  try {
+    await callGemini(clientResult, (genAI, abortSignal) => genAI.files.delete({ name: toGeminiFileName(fileId), config: { abortSignal } }));
+    forgetResourceOwner('file', fileId);
+    res.json({ id: getFileId(fileId), object: 'file', deleted: true });
+  } catch (error: any) {
+    filesLog.error('Error deleting file', { error });
+    if (error.status === 404 || error.status === 403) {
+      sendError(res, 404, `File '${fileId}' not found`);
+      return;
+    }
+    handleRouteError(res, error, 'Failed to delete file');
+  }
+});
+
+// ============================================================================
+// Legacy Completions Endpoints
+// ============================================================================
+
+// Build the single user turn for a completions prompt
+// Gemini has no fill-in-the-middle mode, so a suffix is turned into an instruction
+function buildCompletionPromptText(prompt: string, suffix?: string): string {
+  if (!suffix) {
+    return prompt;
+  }
+  return [
+    'Fill in the missing text between the prefix and the suffix. Reply with the missing text only.',
+    `<prefix>\n${prompt}\n</prefix>`,
+    `<suffix>\n${suffix}\n</suffix>`,
+  ].join('\n\n');
+}
+
+// Every prompt is its own upstream call, so prompt arrays are capped and run with bounded concurrency
+const COMPLETIONS_MAX_PROMPTS = parseInt(process.env.COMPLETIONS_MAX_PROMPTS || '', 10) || 20;
+const COMPLETIONS_MAX_CONCURRENCY = parseInt(process.env.COMPLETIONS_MAX_CONCURRENCY || '', 10) || 4;
+
+// OpenAI legacy completions endpoint, every prompt is run as a single user turn
+app.post('/v1/completions', async (req: Request, res: Response): Promise<void> => {
+  completionsLog.info('Received completions request');
+
+  const clientResult = initializeGenAI(req, res);
+  if (!clientResult) return;
+
+  const requestBody = req.body as OpenAICompletionRequest;
+  const { model: modelName, prompt, suffix, echo, stream, n } = requestBody;
+
+  const prompts = typeof prompt === 'string' ? [prompt] : prompt;
+  if (!modelName || !Array.isArray(prompts) || prompts.length === 0) {
+    sendError(res, 400, 'Missing or invalid model or prompt in request body');
+    return;
+  }
+  if (prompts.some(item => typeof item !== 'string')) {
+    sendError(res, 400, 'prompt must be a string or an array of strings. Token arrays are not supported.');
+    return;
+  }
+  if (prompts.length > COMPLETIONS_MAX_PROMPTS) {
+    sendError(res, 400, `prompt arrays are limited to ${COMPLETIONS_MAX_PROMPTS} prompts per request.`, { param: 'prompt' });
+    return;
+  }
+  if (stream) {
+    sendError(res, 400, 'stream is not supported on /v1/completions. Use /v1/chat/completions for streaming.');
+    return;
+  }
+
+  try {
+    // max_tokens, temperature, top_p, stop, n, seed and penalties are validated and mapped like chat completions
+    let samplingConfig: GenerateContentConfig;
+    try {
+      samplingConfig = convertSamplingParamsToGemini({ ...requestBody, messages: [] });
+    } catch (e: any) {
+      if (e instanceof InvalidParameterError) {
+        handleRouteError(res, e);
+        return;
+      }
+      throw e;
+    }
+
+    const geminiModelName = resolveModelAlias(modelName);
+    if (!authorizeClientKey(res, [modelName, geminiModelName], getGeminiRequestFeatures(geminiModelName, undefined))) return;
+    const choiceCount = n ?? 1;
+    completionsLog.info('Completing prompts', {
+      model: modelName,
+      ...(geminiModelName !== modelName ? { gemini_model: geminiModelName } : {}),
+      prompts: prompts.length,
+      n: choiceCount,
+      echo: echo === true,
+      suffix: Boolean(suffix),
+    });
+
+    const geminiAPIConfig: GenerateContentConfig = {
+      temperature: requestBody.temperature ?? 1,
+      ...samplingConfig,
+      responseMimeType: 'text/plain',
+      safetySettings: DEFAULT_SAFETY_SETTINGS,
+    };
+
+    const geminiResponses = await mapWithConcurrency(prompts, COMPLETIONS_MAX_CONCURRENCY, promptText => callGemini(clientResult, (genAI, abortSignal) => genAI.models.generateContent(withAbortSignal({
+      model: geminiModelName,
+      contents: [{ role: 'user', parts: [{ text: buildCompletionPromptText(promptText, suffix) }] }],
+      config: geminiAPIConfig,
+    }, abortSignal))));
+
+    // Choices are ordered by prompt, then by candidate, as OpenAI does for prompt arrays with n > 1
+    const choices: OpenAICompletionResponse['choices'] = [];
+    const usage: OpenAICompletionResponse['usage'] = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    geminiResponses.forEach((geminiResponse, promptIndex) => {
+      const candidates = geminiResponse.candidates ?? [];
+      for (let candidateIndex = 0; candidateIndex < choiceCount; candidateIndex++) {
+        const candidate = candidates.find((c, i) => (c.index ?? i) === candidateIndex);
+        const text = extractTextFromParts(candidate?.content?.parts ?? []);
+        choices.push({
+          text: echo ? prompts[promptIndex] + text : text,
+          index: promptIndex * choiceCount + candidateIndex,
+          logprobs: null,
+          finish_reason: candidate ? mapGeminiFinishReasonToOpenAI(candidate.finishReason) : 'content_filter',
+        });
+      }
+
+      const promptUsage = mapGeminiUsageToOpenAI(geminiResponse.usageMetadata);
+      usage.prompt_tokens += promptUsage.prompt_tokens;
+      usage.completion_tokens += promptUsage.completion_tokens;
+      usage.total_tokens += promptUsage.total_tokens;
+    });
+
+    const response: OpenAICompletionResponse = {
+      id: 'cmpl-' + Date.now().toString(36) + Math.random().toString(36).substring(2, 15),
+      object: 'text_completion',
+      created: Math.floor(Date.now() / 1000),
+      model: modelName,
+      choices,
+      usage,
+    };
+
+    res.json(response);
+  } catch (error: any) {
+    completionsLog.error('Error creating completion', { error });
+    handleRouteError(res, error, 'Failed to create completion');
+  }
+});
+
+// ============================================================================
+// Anthropic Messages Endpoints
+// ============================================================================
+
+// Anthropic error types by HTTP status
+function getAnthropicErrorType(status: number): string {
+  switch (status) {
+    case 400:
+      return 'invalid_request_error';
+    case 401:
+      return 'authentication_error';
+    case 403:
+      return 'permission_error';
+    case 404:
+      return 'not_found_error';
+    case 413:
+      return 'request_too_large';
+    case 429:
+      return 'rate_limit_error';
+    case 503:
+    case 529:
+      return 'overloaded_error';
+    default:
+      return 'api_error';
+  }
+}
+
+// Helper to send an error in the Anthropic error format; only retryAfter is used from the options
+function sendAnthropicError(res: Response, status: number, message: string, options: HttpErrorOptions = {}): void {
+  if (options.retryAfter !== undefined) {
+    res.setHeader('Retry-After', String(options.retryAfter));
+  }
+  res.status(status).json({ type: 'error', error: { type: getAnthropicErrorType(status), message } });
+}
+
+// Convert an Anthropic image or document source to a Gemini part, fetching URLs like chat completions do
+async function convertAnthropicSourceToPart(
+  genAI: GoogleGenAI,
+  useVertex: boolean,
+  block: AnthropicImageBlock | AnthropicDocumentBlock,
+  param: string
+): Promise<Part> {
+  const source = block.source;
+  switch (source?.type) {
+    case 'base64':
+      if (!source.data) {
+        throw new InvalidParameterError(param, `${param}.source.data: Field required`);
+      }
+      return buildMediaPart(genAI, useVertex, source.data, source.media_type || getMimeTypeFromBase64(source.data));
+    case 'url': {
+      if (!source.url) {
+        throw new InvalidParameterError(param, `${param}.source.url: Field required`);
+      }
+      let media: { base64Data: string; mimeType: string };
+      try {
+        media = block.type === 'image' ? await fetchImageAsBase64(source.url) : await fetchFileAsBase64(source.url);
+      } catch (e: any) {
+        messagesLog.error(`Failed to process ${block.type} URL`, { url: describeUrl(source.url), error: e });
+        throw new InvalidParameterError(param, `Failed to process ${block.type} from URL: ${describeUrl(source.url)}. ${e.message}`);
+      }
+      return buildMediaPart(genAI, useVertex, media.base64Data, media.mimeType);
+    }
+    // Plain text documents are sent to Gemini as text
+    case 'text':
+      return { text: source.data ?? '' };
+    case 'content':
+      return {
+        text: typeof source.content === 'string'
+          ? source.content
+          : (source.content ?? []).map(contentBlock => contentBlock.text).join(''),
+      };
+    default:
+      throw new InvalidParameterError(param, `${param}.source.type: Unsupported ${block.type} source type '${source?.type}'`);
+  }
+}
+
+// Convert Anthropic messages to Gemini contents
+// Throws InvalidParameterError for malformed blocks and media that cannot be fetched
+async function convertAnthropicMessagesToGemini(messages: AnthropicMessage[], genAI: GoogleGenAI, useVertex: boolean): Promise<Content[]> {
+  const contents: Content[] = [];
+  // tool_result blocks only carry the tool_use id, but Gemini needs the function name
+  const toolUseNames = new Map<string, string>();
+
+  for (const [messageIndex, message] of messages.entries()) {
+    if (message.role !== 'user' && message.role !== 'assistant') {
+      throw new InvalidParameterError(`messages.${messageIndex}.role`, `messages.${messageIndex}.role: Input should be 'user' or 'assistant'`);
+    }
+    const blocks: AnthropicContentBlock[] = typeof message.content === 'string'
+      ? [{ type: 'text', text: message.content }]
+      : message.content;
+    if (!Array.isArray(blocks)) {
+      throw new InvalidParameterError(`messages.${messageIndex}.content`, `messages.${messageIndex}.content: Input should be a string or a list of content blocks`);
+    }
+
+    const parts: Part[] = [];
+    // Gemini thought signatures come back in thinking blocks and belong to the block that follows
+    let pendingSignature: string | undefined;
+    for (const [blockIndex, block] of blocks.entries()) {
+      const param = `messages.${messageIndex}.content.${blockIndex}`;
+      let blockParts: Part[];
+      switch (block.type) {
+        case 'text':
+          blockParts = [{ text: block.text }];
+          break;
+        case 'image':
+        case 'document':
+          blockParts = [await convertAnthropicSourceToPart(genAI, useVertex, block, param)];
+          break;
+        case 'tool_use':
+          toolUseNames.set(block.id, block.name);
+          blockParts = [{ functionCall: { name: block.name, args: block.input ?? {} } }];
+          break;
+        case 'tool_result': {
+          const name = toolUseNames.get(block.tool_use_id);
+          if (!name) {
+            throw new InvalidParameterError(param, `${param}: tool_result references unknown tool_use_id '${block.tool_use_id}'`);
+          }
+          const resultBlocks = typeof block.content === 'string'
+            ? [{ type: 'text' as const, text: block.content }]
+            : (block.content ?? []);
+          const text = resultBlocks
+            .map(resultBlock => (resultBlock.type === 'text' ? resultBlock.text : ''))
+            .join('');
+          const functionResponsePart = convertToolResultToGeminiPart(name, text);
+          if (block.is_error) {
+            functionResponsePart.functionResponse!.response = { error: text };
+          }
+          blockParts = [functionResponsePart];
+          // Images returned by a tool are sent next to the function response
+          for (const [resultIndex, resultBlock] of resultBlocks.entries()) {
+            if (resultBlock.type === 'image') {
+              blockParts.push(await convertAnthropicSourceToPart(genAI, useVertex, resultBlock, `${param}.content.${resultIndex}`));
+            }
+          }
+          break;
+        }
+        case 'thinking':
+          pendingSignature = block.signature || undefined;
+          continue;
+        case 'redacted_thinking':
+          continue;
+        default:
+          throw new InvalidParameterError(param, `${param}.type: Unsupported content block type '${(block as any).type}'`);
+      }
+
+      if (pendingSignature && blockParts.length > 0) {
+        blockParts[0] = { ...blockParts[0], thoughtSignature: pendingSignature };
+        pendingSignature = undefined;
+      }
+      parts.push(...blockParts);
+    }
+
+    if (parts.length > 0) {
+      contents.push({ role: message.role === 'assistant' ? 'model' : 'user', parts });
+    }
+  }
+  return contents;
+}
+
+// Stream an Anthropic message as message_start / content_block_* / message_delta / message_stop events
+async function streamAnthropicMessage(
+  res: Response,
+  client: GenAIClient,
+  generateContentOptions: GenerateContentParameters,
+  modelName: string
+): Promise<void> {
+  // Errors thrown here (before any byte is written) are handled by the regular JSON error path
+  const geminiStream = await callGemini(client, (genAI, abortSignal) => genAI.models.generateContentStream(withAbortSignal(generateContentOptions, abortSignal)));
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  const messageId = 'msg_' + Date.now().toString(36) + Math.random().toString(36).substring(2, 15);
+  const writeEvent = (event: string, data: Record<string, unknown>) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify({ type: event, ...data })}\n\n`);
+  };
+
+  let usageMetadata: GenerateContentResponse['usageMetadata'];
+  let geminiFinishReason: GeminiFinishReason | undefined;
+  let blockReason: string | undefined;
+  let messageStarted = false;
+  let hasToolUse = false;
+  // Index and type of the content block that is currently open
+  let blockIndex = -1;
+  let openBlockType: string | undefined;
+
+  // message_start is delayed until the first Gemini chunk so it can report the input tokens
+  const startMessage = () => {
+    if (messageStarted) return;
+    messageStarted = true;
+    writeEvent('message_start', {
+      message: {
+        id: messageId,
+        type: 'message',
+        role: 'assistant',
+        model: modelName,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: mapGeminiUsageToAnthropic(usageMetadata),
+      },
+    });
+  };
+  const closeBlock = () => {
+    if (openBlockType) {
+      writeEvent('content_block_stop', { index: blockIndex });
+      openBlockType = undefined;
+    }
+  };
+  const openBlock = (contentBlock: Record<string, unknown> & { type: string }) => {
+    closeBlock();
+    blockIndex++;
+    openBlockType = contentBlock.type;
+    writeEvent('content_block_start', { index: blockIndex, content_block: contentBlock });
+  };
+
+  for await (const geminiChunk of geminiStream) {
+    if (geminiChunk.usageMetadata) {
+      usageMetadata = geminiChunk.usageMetadata;
+    }
+    if (geminiChunk.promptFeedback?.blockReason) {
+      blockReason = geminiChunk.promptFeedback.blockReason;
+    }
+    startMessage();
+
+    const candidate = geminiChunk.candidates?.[0];
+    if (candidate?.finishReason) {
+      geminiFinishReason = candidate.finishReason;
+    }
+
+    for (const part of candidate?.content?.parts ?? []) {
+      if (part.thought && part.text) {
+        if (openBlockType !== 'thinking') {
+          openBlock({ type: 'thinking', thinking: '' });
+        }
+        writeEvent('content_block_delta', { index: blockIndex, delta: { type: 'thinking_delta', thinking: part.text } });
+      }
+      if (part.thoughtSignature) {
+        if (openBlockType !== 'thinking') {
+          openBlock({ type: 'thinking', thinking: '' });
+        }
+        writeEvent('content_block_delta', { index: blockIndex, delta: { type: 'signature_delta', signature: part.thoughtSignature } });
+        closeBlock();
+      }
+      if (part.thought) {
+        continue;
+      }
+
+      if (part.functionCall) {
+        // Gemini streams each function call as a complete part, so the input is sent in one delta
+        hasToolUse = true;
+        openBlock({ type: 'tool_use', id: part.functionCall.id || generateToolUseId(), name: part.functionCall.name || '', input: {} });
+        writeEvent('content_block_delta', {
+          index: blockIndex,
+          delta: { type: 'input_json_delta', partial_json: JSON.stringify(part.functionCall.args ?? {}) },
+        });
+        closeBlock();
+      } else if (part.text) {
+        if (openBlockType !== 'text') {
+          openBlock({ type: 'text', text: '' });
+        }
+        writeEvent('content_block_delta', { index: blockIndex, delta: { type: 'text_delta', text: part.text } });
+      }
+    }
+  }
+
+  startMessage();
+  closeBlock();
+
+  let stopReason: AnthropicStopReason = mapGeminiFinishReasonToAnthropic(geminiFinishReason);
+  if (hasToolUse) {
+    stopReason = 'tool_use';
+  } else if (!geminiFinishReason && blockReason) {
+    stopReason = 'refusal';
+  }
+  messagesLog.info('Anthropic stream finished', { content_blocks: blockIndex + 1, stop_reason: stopReason });
+
+  writeEvent('message_delta', {
+    delta: { stop_reason: stopReason, stop_sequence: null },
+    usage: mapGeminiUsageToAnthropic(usageMetadata),
+  });
+  writeEvent('message_stop', {});
+  res.end();
+}
+
+// Anthropic Messages API compatible endpoint
+app.post('/v1/messages', async (req: Request, res: Response): Promise<void> => {
+  messagesLog.info('Received Anthropic messages request');
+
+  const clientResult = initializeGenAI(req, res, true, sendAnthropicError);
+  if (!clientResult) return;
+  const { genAI, useVertex } = clientResult;
+
+  const requestBody = req.body as AnthropicMessagesRequest;
+  const { model: modelName, messages, system, stream, tools, tool_choice, thinking } = requestBody;
+
+  if (!modelName || !Array.isArray(messages)) {
+    sendAnthropicError(res, 400, 'Missing or invalid model or messages in request body');
+    return;
+  }
+
+  const geminiModelName = resolveModelAlias(modelName);
+  const requestedTools = Array.isArray(tools) ? convertAnthropicToolsToGemini(tools) : undefined;
+  if (!authorizeClientKey(res, [modelName, geminiModelName], getGeminiRequestFeatures(geminiModelName, requestedTools), sendAnthropicError)) {
+    return;
+  }
+
+  try {
+    let samplingConfig: GenerateContentConfig;
+    let contents: Content[];
+    try {
+      // Sampling parameters are checked before any media is fetched, so bad values fail fast
+      samplingConfig = convertAnthropicSamplingParamsToGemini(requestBody);
+      contents = await convertAnthropicMessagesToGemini(messages, genAI, useVertex);
+    } catch (e: any) {
+      if (e instanceof InvalidParameterError) {
+        sendAnthropicError(res, 400, e.message);
+        return;
+      }
+      throw e;
+    }
+
+    messagesLog.info('Processing messages', {
+      model: modelName,
+      ...(geminiModelName !== modelName ? { gemini_model: geminiModelName } : {}),
+      messages: messages.length,
+      stream: stream === true,
+    });
+
+    const geminiAPIConfig: GenerateContentConfig = {
+      temperature: 1,
+      ...samplingConfig,
+      safetySettings: DEFAULT_SAFETY_SETTINGS,
+    };
+
+    const systemText = typeof system === 'string'
+      ? system
+      : (system ?? []).map(block => block.text).join('\n');
+    if (systemText) {
+      geminiAPIConfig.systemInstruction = { parts: [{ text: systemText }], role: 'system' };
+    }
+
+    if (tools && Array.isArray(tools) && requestedTools && requestedTools.length > 0) {
+      geminiAPIConfig.tools = requestedTools;
+      messagesLog.info('Using tools', { tools: tools.map(tool => tool.name) });
+    }
+    if (tool_choice) {
+      const toolConfig = convertAnthropicToolChoiceToGemini(tool_choice);
+      if (toolConfig) {
+        geminiAPIConfig.toolConfig = toolConfig;
+      }
+    }
+
+    // Extended thinking maps to a Gemini thinking budget with thought summaries
+    if (thinking?.type === 'enabled') {
+      geminiAPIConfig.thinkingConfig = {
+        includeThoughts: true,
+        ...(typeof thinking.budget_tokens === 'number' ? { thinkingBudget: thinking.budget_tokens } : {}),
+      };
+    }
+
+    const generateContentOptions: GenerateContentParameters = {
+      model: geminiModelName,
+      contents,
+      config: geminiAPIConfig,
+    };
+
+    if (stream) {
+      await streamAnthropicMessage(res, clientResult, generateContentOptions, modelName);
+      return;
+    }
+
+    const geminiResponse = await callGemini(clientResult, (genAI, abortSignal) => genAI.models.generateContent(withAbortSignal(generateContentOptions, abortSignal)));
+    const candidate = geminiResponse.candidates?.[0];
+
+    const content = convertGeminiPartsToAnthropicBlocks(candidate?.content?.parts ?? []);
+    let stopReason: AnthropicStopReason = mapGeminiFinishReasonToAnthropic(candidate?.finishReason);
+    if (content.some(block => block.type === 'tool_use')) {
+      stopReason = 'tool_use';
+    } else if (!candidate) {
+      // The prompt itself was blocked
+      messagesLog.warn('No candidates from Gemini', { block_reason: geminiResponse.promptFeedback?.blockReason });
+      stopReason = 'refusal';
+    }
+
+    const anthropicResponse: AnthropicMessagesResponse = {
+      id: 'msg_' + Date.now().toString(36) + Math.random().toString(36).substring(2, 15),
+      type: 'message',
+      role: 'assistant',
+      model: modelName,
+      content,
+      stop_reason: stopReason,
+      stop_sequence: null,
+      usage: mapGeminiUsageToAnthropic(geminiResponse.usageMetadata),
+    };
+
+    res.json(anthropicResponse);
+  } catch (error: any) {
+    messagesLog.error('Error processing Anthropic messages request', { error });
+    // Same status translation as the OpenAI routes, reported in the Anthropic envelope
+    const httpError = toHttpError(error);
+    if (res.headersSent) {
+      // The SSE stream is already open, so the error can only be reported in-band
+      res.write(`event: error\ndata: ${JSON.stringify({ type: 'error', error: { type: getAnthropicErrorType(httpError.status), message: httpError.message } })}\n\n`);
+      res.end();
+      return;
+    }
+    setRetryAfterHeader(res, httpError);
+    sendAnthropicError(res, httpError.status, httpError.message);
+  }
+});
+
+// ============================================================================
+// Responses API Endpoints
+// ============================================================================
+
+// A stored response together with the Gemini conversation needed to continue it
+interface StoredResponse {
+  response: ResponsesResponse;
+  contents: Content[];
+  toolCallNames: Record<string, string>;
+  owner?: string; // Id of the client key that created the response
+  size?: number; // Approximate memory use in bytes, set by storeResponse()
+}
+
+// Past responses are kept in memory so previous_response_id can continue them; the oldest are evicted first
+// The contents keep inline media (base64), so the store is bounded by size as well as by count
+const RESPONSES_STORE_MAX_ENTRIES = parseInt(process.env.RESPONSES_STORE_MAX_ENTRIES || '', 10) || 1000;
+const RESPONSES_STORE_MAX_BYTES = parseInt(process.env.RESPONSES_STORE_MAX_BYTES || '', 10) || 256 * 1024 * 1024;
+const responseStore = new Map<string, StoredResponse>();
+let responseStoreBytes = 0;
+
+// Helper to get a stored response, visible only to the client key that created it
+function getStoredResponse(responseId: string, res: Response): StoredResponse | undefined {
+  const storedResponse = responseStore.get(responseId);
+  const clientKey: ClientKeyRecord | undefined = res.locals.clientKey;
+  return storedResponse && storedResponse.owner === clientKey?.id ? storedResponse : undefined;
+}
+
+function storeResponse(entry: StoredResponse): void {
+  const size = JSON.stringify(entry).length;
+  if (size > RESPONSES_STORE_MAX_BYTES) {
+    responsesLog.warn('Response is too large to store', { response_id: entry.response.id, bytes: size, max_bytes: RESPONSES_STORE_MAX_BYTES });
+    return;
+  }
+  responseStore.set(entry.response.id, { ...entry, size });
+  responseStoreBytes += size;
+  while (responseStore.size > RESPONSES_STORE_MAX_ENTRIES || responseStoreBytes > RESPONSES_STORE_MAX_BYTES) {
+    deleteStoredResponse(responseStore.keys().next().value!);
+  }
+}
+
+function deleteStoredResponse(responseId: string): void {
+  const storedResponse = responseStore.get(responseId);
+  if (storedResponse) {
+    responseStoreBytes -= storedResponse.size ?? 0;
+    responseStore.delete(responseId);
+  }
+}
+
+// Generate a Responses API id such as resp_..., msg_..., fc_... or rs_...
+// Ids are random: without client keys, a stored response is readable by anyone who knows its id
+function generateResponsesId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID().replace(/-/g, '')}`;
+}
+
+// Convert an input_image or input_file part to a Gemini part, fetching media like chat completions do
+async function convertResponsesMediaPart(
+  genAI: GoogleGenAI,
+  useVertex: boolean,
+  part: ResponsesInputImagePart | ResponsesInputFilePart,
+  param: string,
+  clientKey: ClientKeyRecord | undefined
+): Promise<Part> {
+  if (part.file_id) {
+    if (useVertex) {
+      throw new InvalidParameterError(param, `${param}.file_id: file references use the Gemini Files API, which is not available with use_vertex`);
+    }
+    if (!isResourceOwner('file', part.file_id, clientKey)) {
+      throw new InvalidParameterError(param, `${param}.file_id: File '${part.file_id}' not found`);
+    }
+    const file = await waitForFileActive(genAI, await genAI.files.get({ name: toGeminiFileName(part.file_id) }));
+    return { fileData: { fileUri: file.uri, mimeType: file.mimeType } };
+  }
+
+  const url = part.type === 'input_image' ? part.image_url : part.file_url;
+  if (url) {
+    let media: { base64Data: string; mimeType: string };
+    try {
+      media = part.type === 'input_image' ? await fetchImageAsBase64(url) : await fetchFileAsBase64(url);
+    } catch (e: any) {
+      responsesLog.error(`Failed to process ${part.type} URL`, { url: describeUrl(url), error: e });
+      throw new InvalidParameterError(param, `Failed to process ${part.type} from URL: ${describeUrl(url)}. ${e.message}`);
+    }
+    return buildMediaPart(genAI, useVertex, media.base64Data, media.mimeType);
+  }
+
+  if (part.type === 'input_file' && part.file_data) {
+    const { base64Data, mimeType } = part.file_data.startsWith('data:')
+      ? parseDataUrl(part.file_data)
+      : { base64Data: part.file_data, mimeType: getMimeTypeFromBase64(part.file_data) };
+    return buildMediaPart(genAI, useVertex, base64Data, mimeType, part.filename);
+  }
+
+  throw new InvalidParameterError(param, part.type === 'input_image'
+    ? `${param}: input_image requires image_url or file_id`
+    : `${param}: input_file requires file_id, file_url or file_data`);
+}
+
+// Convert Responses input items to Gemini contents, appending to the given conversation
+// Returns the text of system and developer messages, which become part of the system instruction
+async function convertResponsesInputToGemini(
+  input: string | ResponsesInputItem[],
+  genAI: GoogleGenAI,
+  useVertex: boolean,
+  contents: Content[],
+  toolCallNames: Record<string, string>,
+  clientKey: ClientKeyRecord | undefined
+): Promise<string[]> {
+  const systemTexts: string[] = [];
+  const items: ResponsesInputItem[] = typeof input === 'string' ? [{ role: 'user', content: input }] : input;
+  // Parallel function calls and their outputs are grouped into one Gemini turn
+  const appendParts = (role: 'user' | 'model', parts: Part[]) => {
+    const lastContent = contents[contents.length - 1];
+    if (lastContent?.role === role) {
+      lastContent.parts!.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  };
+  // Gemini thought signatures come back as reasoning items and belong to the item that follows
+  let pendingSignature: string | undefined;
+  const withSignature = (part: Part): Part => {
+    if (!pendingSignature) return part;
+    const signedPart = { ...part, thoughtSignature: pendingSignature };
+    pendingSignature = undefined;
+    return signedPart;
+  };
+
+  for (const [itemIndex, item] of items.entries()) {
+    const param = `input[${itemIndex}]`;
+    if (!item || typeof item !== 'object') {
+      throw new InvalidParameterError(param, `Invalid '${param}': expected an input item object.`);
+    }
+
+    if (item.type === 'function_call') {
+      let args: Record<string, unknown> = {};
+      if (item.arguments) {
+        try {
+          args = JSON.parse(item.arguments);
+        } catch {
+          throw new InvalidParameterError(`${param}.arguments`, `Invalid JSON in '${param}.arguments'.`);
+        }
+      }
+      toolCallNames[item.call_id] = item.name;
+      appendParts('model', [withSignature({ functionCall: { name: item.name, args } })]);
+    } else if (item.type === 'function_call_output') {
+      const name = toolCallNames[item.call_id];
+      if (!name) {
+        throw new InvalidParameterError(`${param}.call_id`, `No tool call found for function call output with call_id ${item.call_id}.`);
+      }
+      appendParts('user', [convertToolResultToGeminiPart(name, typeof item.output === 'string' ? item.output : JSON.stringify(item.output))]);
+    } else if (item.type === 'reasoning') {
+      pendingSignature = item.encrypted_content || undefined;
+    } else if (item.type === undefined || item.type === 'message') {
+      const contentParts: ResponsesInputContentPart[] = typeof item.content === 'string'
+        ? [{ type: 'input_text', text: item.content }]
+        : item.content;
+      if (!Array.isArray(contentParts)) {
+        throw new InvalidParameterError(`${param}.content`, `Invalid '${param}.content': expected a string or an array of content parts.`);
+      }
+
+      if (item.role === 'system' || item.role === 'developer') {
+        systemTexts.push(contentParts.map(part => (part.type === 'input_text' || part.type === 'output_text' ? part.text : '')).join(''));
+        continue;
+      }
+
+      const parts: Part[] = [];
+      for (const [partIndex, part] of contentParts.entries()) {
+        const partParam = `${param}.content[${partIndex}]`;
+        if (part.type === 'input_text' || part.type === 'output_text') {
+          parts.push({ text: part.text });
+        } else if (part.type === 'input_image' || part.type === 'input_file') {
+          parts.push(await convertResponsesMediaPart(genAI, useVertex, part, partParam, clientKey));
+        } else {
+          throw new InvalidParameterError(`${partParam}.type`, `Invalid '${partParam}.type': unsupported content part type '${(part as any).type}'.`);
+        }
+      }
+      if (parts.length > 0) {
+        parts[0] = withSignature(parts[0]);
+        appendParts(item.role === 'assistant' ? 'model' : 'user', parts);
+      }
+    } else {
+      throw new InvalidParameterError(`${param}.type`, `Invalid '${param}.type': unsupported input item type '${(item as any).type}'.`);
+    }
+  }
+  return systemTexts;
+}
+
+// Convert a Gemini candidate to Responses output items, recording the function names of new tool calls
+async function buildResponsesOutput(candidate: Candidate | undefined, toolCallNames: Record<string, string>): Promise<ResponsesOutputItem[]> {
+  const output: ResponsesOutputItem[] = [];
+  let reasoningItem: (ResponsesReasoningItem & { id: string }) | undefined;
+  let messageItem: ResponsesOutputMessage | undefined;
+  const startReasoningItem = () => {
+    reasoningItem = { type: 'reasoning', id: generateResponsesId('rs'), summary: [] };
+    output.push(reasoningItem);
+    return reasoningItem;
+  };
+
+  for (const part of candidate?.content?.parts ?? []) {
+    if (part.thought && part.text) {
+      const item = reasoningItem && !reasoningItem.encrypted_content ? reasoningItem : startReasoningItem();
+      item.summary.push({ type: 'summary_text', text: part.text });
+    }
+    if (part.thoughtSignature) {
+      const item = reasoningItem && !reasoningItem.encrypted_content ? reasoningItem : startReasoningItem();
+      item.encrypted_content = part.thoughtSignature;
+    }
+    if (part.thought) {
+      continue;
+    }
+    reasoningItem = undefined;
+
+    if (part.functionCall) {
+      const callId = part.functionCall.id || generateToolCallId();
+      const name = part.functionCall.name || '';
+      toolCallNames[callId] = name;
+      output.push({
+        type: 'function_call',
+        id: generateResponsesId('fc'),
+        call_id: callId,
+        name,
+        arguments: JSON.stringify(part.functionCall.args ?? {}),
+        status: 'completed',
+      });
+    } else if (part.text) {
+      if (!messageItem) {
+        messageItem = {
+          type: 'message',
+          id: generateResponsesId('msg'),
+          status: 'completed',
+          role: 'assistant',
+          content: [{ type: 'output_text', text: '', annotations: [] }],
+        };
+        output.push(messageItem);
+      }
+      messageItem.content[0].text += part.text;
+    }
+  }
+
+  // Google Search grounding becomes url_citation annotations on the output text
+  if (messageItem && candidate?.groundingMetadata?.groundingSupports) {
+    const resolvedChunks = await getResolvedGroundingChunks(candidate.groundingMetadata.groundingChunks);
+    const outputText = messageItem.content[0];
+    outputText.annotations = buildUrlCitations(outputText.text, candidate.groundingMetadata, resolvedChunks);
+  }
+  return output;
+}
+
+// OpenAI Responses API compatible endpoint
+app.post('/v1/responses', async (req: Request, res: Response): Promise<void> => {
+  responsesLog.info('Received responses request');
+
+  const clientResult = initializeGenAI(req, res);
+  if (!clientResult) return;
+  const { genAI, useVertex } = clientResult;
+
+  const requestBody = req.body as ResponsesRequest;
+  const {
+    model: modelName,
+    input,
+    instructions,
+    previous_response_id,
+    store = true,
+    stream,
+    tools,
+    tool_choice,
+    text,
+    reasoning,
+    metadata,
+  } = requestBody;
+
+  if (!modelName || (typeof input !== 'string' && !Array.isArray(input))) {
+    sendError(res, 400, 'Missing or invalid model or input in request body');
+    return;
+  }
+  if (stream) {
+    sendError(res, 400, 'stream is not supported on /v1/responses. Use /v1/chat/completions for streaming.');
+    return;
+  }
+
+  let previousResponse: StoredResponse | undefined;
+  if (previous_response_id) {
+    previousResponse = getStoredResponse(previous_response_id, res);
+    if (!previousResponse) {
+      sendError(res, 404, `Previous response with id '${previous_response_id}' not found.`, {
+        type: 'invalid_request_error',
+        param: 'previous_response_id',
+        code: 'previous_response_not_found',
+      });
+      return;
+    }
+  }
+
+  const geminiModelName = resolveModelAlias(modelName);
+  const requestedTools = Array.isArray(tools) ? convertResponsesToolsToGemini(tools) : undefined;
+  if (!authorizeClientKey(res, [modelName, geminiModelName], getGeminiRequestFeatures(geminiModelName, requestedTools))) {
+    return;
+  }
+
+  try {
+    // Continue from the stored conversation; copies keep the stored entry unchanged
+    const contents: Content[] = (previousResponse?.contents ?? []).map(content => ({ ...content, parts: [...(content.parts ?? [])] }));
+    const toolCallNames: Record<string, string> = { ...(previousResponse?.toolCallNames ?? {}) };
+
+    let samplingConfig: GenerateContentConfig;
+    let systemTexts: string[];
+    try {
+      // Sampling parameters are checked before any media is fetched, so bad values fail fast
+      samplingConfig = convertResponsesSamplingParamsToGemini(requestBody);
+      systemTexts = await convertResponsesInputToGemini(input, genAI, useVertex, contents, toolCallNames, res.locals.clientKey);
+    } catch (e: any) {
+      if (e instanceof InvalidParameterError) {
+        handleRouteError(res, e);
+        return;
+      }
+      throw e;
+    }
+
+    responsesLog.info('Processing response', {
+      model: modelName,
+      ...(geminiModelName !== modelName ? { gemini_model: geminiModelName } : {}),
+      input_items: typeof input === 'string' ? 1 : input.length,
+      ...(previous_response_id ? { previous_response_id } : {}),
+    });
+
+    const geminiAPIConfig: GenerateContentConfig = {
+      temperature: 1,
+      ...samplingConfig,
+      responseMimeType: 'text/plain',
+      safetySettings: DEFAULT_SAFETY_SETTINGS,
+    };
+
+    // Instructions are not carried over from previous responses, as with OpenAI
+    const systemText = [instructions, ...systemTexts].filter(Boolean).join('\n\n');
+    if (systemText) {
+      geminiAPIConfig.systemInstruction = { parts: [{ text: systemText }], role: 'system' };
+    }
+
+    if (tools && Array.isArray(tools) && requestedTools && requestedTools.length > 0) {
+      geminiAPIConfig.tools = requestedTools;
+      responsesLog.info('Using tools', { tools: tools.map(tool => tool.name || tool.type) });
+    }
+    if (tool_choice) {
+      const toolConfig = convertResponsesToolChoiceToGemini(tool_choice);
+      if (toolConfig) {
+        geminiAPIConfig.toolConfig = toolConfig;
+      }
+    }
+
+    if (text?.format) {
+      try {
+        Object.assign(geminiAPIConfig, convertResponseFormatToGemini(convertTextFormatToResponseFormat(text.format)));
+        responsesLog.info('Using text format', { format: text.format.type });
+      } catch (e: any) {
+        sendError(res, 400, `Invalid text.format: ${e.message}`, { param: 'text.format' });
+        return;
+      }
+    }
+
+    // reasoning.effort sets the thinking budget, reasoning.summary asks for thought summaries
+    if (reasoning?.effort || reasoning?.summary) {
+      geminiAPIConfig.thinkingConfig = {
+        ...(reasoning.effort ? { thinkingBudget: getThinkingBudgetForEffort(reasoning.effort) } : {}),
+        ...(reasoning.summary ? { includeThoughts: true } : {}),
+      };
+    }
+
+    const geminiResponse = await callGemini(clientResult, (genAI, abortSignal) => genAI.models.generateContent(withAbortSignal({
+      model: geminiModelName,
+      contents,
+      config: geminiAPIConfig,
+    }, abortSignal)));
+
+    const candidate = geminiResponse.candidates?.[0];
+    const output = await buildResponsesOutput(candidate, toolCallNames);
+
+    let incompleteDetails: ResponsesResponse['incomplete_details'] = null;
+    const finishReason = mapGeminiFinishReasonToOpenAI(candidate?.finishReason);
+    if (finishReason === 'length') {
+      incompleteDetails = { reason: 'max_output_tokens' };
+    } else if (finishReason === 'content_filter' || !candidate) {
+      incompleteDetails = { reason: 'content_filter' };
+    }
+
+    const response: ResponsesResponse = {
+      id: generateResponsesId('resp'),
+      object: 'response',
+      created_at: Math.floor(Date.now() / 1000),
+      status: incompleteDetails ? 'incomplete' : 'completed',
+      incomplete_details: incompleteDetails,
+      error: null,
+      model: modelName,
+      instructions: instructions ?? null,
+      previous_response_id: previous_response_id ?? null,
+      output,
+      output_text: output
+        .map(item => (item.type === 'message' ? item.content.map(part => part.text).join('') : ''))
+        .join(''),
+      tools: tools ?? [],
+      tool_choice: tool_choice ?? 'auto',
+      text: { format: text?.format ?? { type: 'text' } },
+      temperature: requestBody.temperature ?? null,
+      top_p: requestBody.top_p ?? null,
+      max_output_tokens: requestBody.max_output_tokens ?? null,
+      store,
+      metadata: metadata ?? {},
+      usage: mapGeminiUsageToResponses(geminiResponse.usageMetadata),
+    };
+
+    responsesLog.info('Response completed', { output: output.map(item => item.type), status: response.status });
+
+    if (store) {
+      storeResponse({
+        response,
+        // The model turn keeps its thought signatures for the next request
+        contents: candidate?.content ? [...contents, candidate.content] : contents,
+        toolCallNames,
+        owner: res.locals.clientKey?.id,
+      });
+    }
+
+    res.json(response);
+  } catch (error: any) {
+    responsesLog.error('Error creating response', { error });
+    handleRouteError(res, error, 'Failed to create response');
+  }
+});
+
+// Get a stored response
+app.get('/v1/responses/:responseId', (req: Request, res: Response): void => {
+  const responseId = req.params.responseId;
+  responsesLog.info('Getting response', { response_id: responseId });
+
+  const storedResponse = getStoredResponse(responseId, res);
+  if (!storedResponse) {
+    sendError(res, 404, `Response with id '${responseId}' not found`);
+    return;
+  }
+  res.json(storedResponse.response);
+});
+
+// Delete a stored response
+app.delete('/v1/responses/:responseId', (req: Request, res: Response): void => {
+  const responseId = req.params.responseId;
+  responsesLog.info('Deleting response', { response_id: responseId });
+
+  if (!getStoredResponse(responseId, res)) {
+    sendError(res, 404, `Response with id '${responseId}' not found`);
+    return;
+  }
+  deleteStoredResponse(responseId);
+  res.json({ id: responseId, object: 'response', deleted: true });
+});
+
+// ============================================================================
+// Metrics Endpoint
+// ============================================================================
+
+// Prometheus metrics in the text exposition format
+// With METRICS_API_KEY set, scrapers must send it as a Bearer token (the metrics name upstream credentials)
+app.get('/metrics', async (req: Request, res: Response): Promise<void> => {
+  if (process.env.METRICS_API_KEY) {
+    const authHeader = req.headers.authorization;
+    const key = authHeader && authHeader.startsWith('Bearer ') ? authHeader.substring(7) : undefined;
+    if (!isMetricsKey(key)) {
+      sendError(res, 401, 'Invalid or missing metrics API key. Use Bearer token in Authorization header.');
+      return;
+    }
+  }
+  try {
+    res.setHeader('Content-Type', metricsRegistry.contentType);
+    res.send(await metricsRegistry.metrics());
+  } catch (error: any) {
+    httpLog.error('Error collecting metrics', { error });
+    handleRouteError(res, error, 'Failed to collect metrics');
+  }
+});
+
+// ============================================================================
+// Health Endpoints
+// ============================================================================
+
+// Liveness: the process is up and serving requests
+app.get('/healthz', (req: Request, res: Response): void => {
+  res.json({ status: 'ok', uptime_seconds: Math.floor(process.uptime()) });
+});
+
+// Readiness: bucket server reachability and upstream credentials, 503 when a required dependency fails
+app.get('/readyz', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const readiness = await getReadiness();
+    res.status(readiness.status === 'ready' ? 200 : 503).json(readiness);
+  } catch (error: any) {
+    httpLog.error('Error checking readiness', { error });
+    handleRouteError(res, error, 'Failed to check readiness');
+  }
+});
+
+// ============================================================================
+// Admin Endpoints
+// ============================================================================
+
+// Admin routes are only available when ADMIN_API_KEY is set
+app.use('/admin', (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (!process.env.ADMIN_API_KEY) {
+    sendError(res, 404, 'Admin API is disabled. Set ADMIN_API_KEY to enable it.');
+    return;
+  }
+  const authHeader = req.headers.authorization;
+  const key = authHeader && authHeader.startsWith('Bearer ') ? authHeader.substring(7) : undefined;
+  if (!isAdminKey(key)) {
+    sendError(res, 401, 'Invalid or missing admin API key. Use Bearer token in Authorization header.');
+    return;
+  }
+  next();
+});
+
+// Create a client key; the plaintext key is only returned here
+app.post('/admin/keys', async (req: Request, res: Response): Promise<void> => {
+  const request: ClientKeyRequest = req.body || {};
+  adminLog.info('Creating client key', { name: request.name });
+
+  const validationError = validateClientKeyRequest(request, true);
+  if (validationError) {
+    sendError(res, 400, validationError);
+    return;
+  }
+
+  try {
+    const { record, key } = await createClientKey(request);
+    adminLog.info('Client key created', { key_id: record.id });
+    res.json(formatClientKeyResponse(record, key));
+  } catch (error: any) {
+    adminLog.error('Error creating client key', { error });
+    handleRouteError(res, error, 'Failed to create client key');
+  }
+});
+
+// List client keys
+app.get('/admin/keys', (req: Request, res: Response): void => {
+  adminLog.info('Listing client keys');
+  res.json({ object: 'list', data: listClientKeys().map(record => formatClientKeyResponse(record)) });
+});
+
+// Get a client key
+app.get('/admin/keys/:keyId', (req: Request, res: Response): void => {
+  const keyId = req.params.keyId;
+  adminLog.info('Getting client key', { key_id: keyId });
+
+  const record = getClientKey(keyId);
+  if (!record) {
+    sendError(res, 404, `Client key '${keyId}' not found`);
+    return;
+  }
+  res.json(formatClientKeyResponse(record));
+});
+
+// Update a client key (name, allowed models/features, upstream credential, disabled)
+app.patch('/admin/keys/:keyId', async (req: Request, res: Response): Promise<void> => {
+  const keyId = req.params.keyId;
+  const request: ClientKeyRequest = req.body || {};
+  adminLog.info('Updating client key', { key_id: keyId });
+
+  const validationError = validateClientKeyRequest(request, false);
+  if (validationError) {
+    sendError(res, 400, validationError);
+    return;
+  }
+
+  try {
+    const record = await updateClientKey(keyId, request);
+    if (!record) {
+      sendError(res, 404, `Client key '${keyId}' not found`);
+      return;
+    }
+    res.json(formatClientKeyResponse(record));
+  } catch (error: any) {
+    adminLog.error('Error updating client key', { error });
+    handleRouteError(res, error, 'Failed to update client key');
+  }
+});
+
+// Delete a client key
+app.delete('/admin/keys/:keyId', async (req: Request, res: Response): Promise<void> => {
+  const keyId = req.params.keyId;
+  adminLog.info('Deleting client key', { key_id: keyId });
+
+  try {
+    if (!(await deleteClientKey(keyId))) {
+      sendError(res, 404, `Client key '${keyId}' not found`);
+      return;
+    }
+    res.json({ id: keyId, object: 'client_key', deleted: true });
+  } catch (error: any) {
+    adminLog.error('Error deleting client key', { error });
+    handleRouteError(res, error, 'Failed to delete client key');
+  }
+});
+
+// List the configured upstream credentials with the health of every pooled key, without their secrets
+app.get('/admin/upstreams', (req: Request, res: Response): void => {
+  adminLog.info('Listing upstream credentials');
+  const credentials = getUpstreamCredentials();
+  res.json({
+    object: 'list',
+    data: Object.entries(credentials).map(([name, credential]) => {
+      const keys = [...getUpstreamTargets(credential, false), ...getUpstreamTargets(credential, true)].map(getUpstreamTargetHealth);
+      return {
+        name,
+        has_api_key: keys.some(key => key.type === 'api_key'),
+        has_vertex: keys.some(key => key.type === 'vertex'),
+        ...(credential.vertex ? { project: credential.vertex.project, location: credential.vertex.location } : {}),
+        healthy_keys: keys.filter(key => key.status === 'healthy').length,
+        keys,
+      };
+    }),
+  });
+});
+
+// Errors no route or middleware handled are reported as JSON in the route's envelope, never as Express's HTML page
+app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  httpLog.error('Unhandled error', { method: req.method, url: req.originalUrl, error });
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+  if (getRouteErrorSender(req) === sendAnthropicError) {
+    const httpError = toHttpError(error);
+    sendAnthropicError(res, httpError.status, httpError.message, { retryAfter: httpError.retryAfter });
+    return;
+  }
+  handleRouteError(res, error);
+});
+
+app.listen(port, () => {
+  serverLog.info('Reverse proxy server listening', { url: `http://localhost:${port}` });
+  
+  // Check bucket server health on startup (and periodically with HEALTH_PROBE_INTERVAL_MS)
+  startHealthProbes();
 });
\ No newline at end of file
@@ -0,0 +1,181 @@
+import { AsyncLocalStorage, AsyncResource } from 'async_hooks';
+import express from 'express';
+
+// Structured logging: every entry is one JSON line with time, level, module, request_id and msg
+// LOG_LEVEL sets the default level and LOG_LEVELS overrides it per module, e.g. "upstream=debug,bucket=warn"
+// Fields are sanitized before they are written: secrets are redacted, base64 data and long strings truncated
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  isLevelEnabled(level: LogLevel): boolean;
+}
+
+interface RequestContext {
+  requestId: string;
+}
+
+const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Field names whose values are never logged
+const SENSITIVE_FIELD_PATTERN = /^(authorization|x-api-key|x-goog-api-key|api_?keys?|key|access_token|refresh_token|id_token|token|secret|client_secret|password)$/i;
+
+// Secrets that can appear inside strings: Google API keys, proxy client keys and Bearer tokens
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/AIza[0-9A-Za-z_-]{35}/g, '[REDACTED_API_KEY]'],
+  [/sk-[0-9A-Za-z_-]{16,}/g, '[REDACTED_API_KEY]'],
+  [/Bearer\s+[^\s"',]+/gi, 'Bearer [REDACTED]'],
+];
+
+// Long runs of base64 (inline images, audio, files) are replaced by their length
+const BASE64_PATTERN = /^[A-Za-z0-9+/=\r\n]+$/;
+const MIN_BASE64_LENGTH = 256;
+const MAX_DEPTH = 8;
+const MAX_ARRAY_ITEMS = 20;
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+let parsedLevels: { source: string; defaultLevel: LogLevel; modules: Record<string, LogLevel> } | undefined;
+
+function isLogLevel(value: string): value is LogLevel {
+  return value in LOG_LEVEL_PRIORITY;
+}
+
+// Helper function to read LOG_LEVEL and LOG_LEVELS, parsed again only when they change
+function getLogLevel(module: string): LogLevel {
+  const source = `${process.env.LOG_LEVEL ?? ''}|${process.env.LOG_LEVELS ?? ''}`;
+  if (parsedLevels?.source !== source) {
+    const defaultLevel = (process.env.LOG_LEVEL || 'info').toLowerCase();
+    const modules: Record<string, LogLevel> = {};
+    for (const entry of (process.env.LOG_LEVELS || '').split(',')) {
+      const [name, level] = entry.split('=').map(part => part.trim());
+      if (name && level && isLogLevel(level.toLowerCase())) {
+        modules[name] = level.toLowerCase() as LogLevel;
+      }
+    }
+    parsedLevels = { source, defaultLevel: isLogLevel(defaultLevel) ? defaultLevel : 'info', modules };
+  }
+  return parsedLevels.modules[module] ?? parsedLevels.defaultLevel;
+}
+
+function getMaxStringLength(): number {
+  const value = parseInt(process.env.LOG_MAX_STRING_LENGTH || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : 1000;
+}
+
+// Helper function to redact secrets in a string and shorten base64 data and long text
+function sanitizeString(value: string): string {
+  const dataUrlMatch = /^data:([^,]*?),/.exec(value);
+  if (dataUrlMatch && value.length > MIN_BASE64_LENGTH) {
+    return `data:${dataUrlMatch[1]},[${value.length - dataUrlMatch[0].length} characters]`;
+  }
+  if (value.length >= MIN_BASE64_LENGTH && BASE64_PATTERN.test(value)) {
+    return `[base64, ${value.length} characters]`;
+  }
+  let sanitized = value;
+  for (const [pattern, replacement] of SECRET_PATTERNS) {
+    sanitized = sanitized.replace(pattern, replacement);
+  }
+  const maxLength = getMaxStringLength();
+  return sanitized.length > maxLength
+    ? `${sanitized.substring(0, maxLength)}... (${sanitized.length} characters)`
+    : sanitized;
+}
+
+// Make a value safe to log: secrets redacted, base64 and long strings truncated, errors reduced to name, message and stack
+export function sanitizeForLog(value: unknown, depth: number = 0): unknown {
+  if (typeof value === 'string') {
+    return sanitizeString(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'bigint' ? value.toString() : value;
+  }
+  if (value instanceof Error) {
+    const status = (value as any).status;
+    return {
+      name: value.name,
+      message: sanitizeString(value.message),
+      ...(typeof status === 'number' ? { status } : {}),
+      ...(value.stack ? { stack: sanitizeString(value.stack) } : {}),
+    };
+  }
+  if (Buffer.isBuffer(value) || value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    return `[binary, ${(value as ArrayBuffer).byteLength} bytes]`;
+  }
+  if (depth >= MAX_DEPTH) {
+    return Array.isArray(value) ? `[array, ${value.length} items]` : '[object]';
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map(item => sanitizeForLog(item, depth + 1));
+    return value.length > MAX_ARRAY_ITEMS ? [...items, `... (${value.length - MAX_ARRAY_ITEMS} more items)`] : items;
+  }
+  // Headers objects (fetch) are logged as plain objects
+  const entries = typeof (value as any).entries === 'function' && !(value instanceof Map) && typeof (value as any).get === 'function'
+    ? [...(value as any).entries()] as Array<[string, unknown]>
+    : Object.entries(value);
+  const sanitized: Record<string, unknown> = {};
+  for (const [key, fieldValue] of entries) {
+    sanitized[key] = SENSITIVE_FIELD_PATTERN.test(key) && fieldValue !== undefined && fieldValue !== null
+      ? '[REDACTED]'
+      : sanitizeForLog(fieldValue, depth + 1);
+  }
+  return sanitized;
+}
+
+function writeEntry(level: LogLevel, module: string, message: string, fields?: LogFields): void {
+  const entry: Record<string, unknown> = {
+    time: new Date().toISOString(),
+    level,
+    module,
+  };
+  const requestId = getRequestId();
+  if (requestId) {
+    entry.request_id = requestId;
+  }
+  entry.msg = sanitizeString(message);
+  if (fields) {
+    Object.assign(entry, sanitizeForLog(fields));
+  }
+  const line = JSON.stringify(entry) + '\n';
+  if (LOG_LEVEL_PRIORITY[level] >= LOG_LEVEL_PRIORITY.warn) {
+    process.stderr.write(line);
+  } else {
+    process.stdout.write(line);
+  }
+}
+
+export function createLogger(module: string): Logger {
+  const isLevelEnabled = (level: LogLevel) => LOG_LEVEL_PRIORITY[level] >= LOG_LEVEL_PRIORITY[getLogLevel(module)];
+  const log = (level: LogLevel) => (message: string, fields?: LogFields) => {
+    if (isLevelEnabled(level)) {
+      writeEntry(level, module, message, fields);
+    }
+  };
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    isLevelEnabled,
+  };
+}
+
+// Helper function to get the id of the request being handled, if any
+export function getRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+// Run a request handler chain with a request id that every log entry it writes is tagged with
+export function runWithRequestId<T>(requestId: string, callback: () => T): T {
+  return requestContext.run({ requestId }, callback);
+}
+
+// Wrap a middleware that calls next() from a stream event (body parsers, multer), where the request id would be lost
+export function preserveRequestContext(middleware: express.RequestHandler): express.RequestHandler {
+  return (req, res, next) => middleware(req, res, AsyncResource.bind(next));
+}
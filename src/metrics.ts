@@ -0,0 +1,159 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { GenerateContentResponseUsageMetadata } from '@google/genai';
+import { getUpstreamCredentials } from './clientKeys';
+import { getUpstreamTargetHealth, getUpstreamTargets } from './upstreamPool';
+
+// Prometheus metrics, served in the text exposition format by GET /metrics
+
+export type UpstreamRequestOutcome = 'success' | 'rate_limited' | 'timeout' | 'cancelled' | 'error';
+export type MediaFetchKind = 'image' | 'file' | 'audio';
+
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
+
+const httpRequestsTotal = new Counter({
+  name: 'http_requests_total',
+  help: 'Requests handled by the proxy, by route, Gemini model (other for rejected or failed requests) and HTTP status',
+  labelNames: ['method', 'route', 'model', 'status'],
+  registers: [metricsRegistry],
+});
+
+const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'Time from receiving a request to finishing its response',
+  labelNames: ['method', 'route'],
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300],
+  registers: [metricsRegistry],
+});
+
+const upstreamRequestDuration = new Histogram({
+  name: 'gemini_upstream_request_duration_seconds',
+  help: 'Duration of each Gemini API attempt (until the stream opens for streaming calls), by upstream type and outcome',
+  labelNames: ['upstream', 'outcome'],
+  buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300],
+  registers: [metricsRegistry],
+});
+
+const upstreamRateLimitsTotal = new Counter({
+  name: 'gemini_upstream_rate_limits_total',
+  help: 'Gemini 429 / RESOURCE_EXHAUSTED responses, by upstream key pool (credential name, with :vertex for its Vertex AI projects)',
+  labelNames: ['pool'],
+  registers: [metricsRegistry],
+});
+
+new Gauge({
+  name: 'gemini_upstream_keys',
+  help: 'Pooled upstream keys and Vertex AI projects, by credential and status (healthy or cooling_down)',
+  labelNames: ['credential', 'status'],
+  registers: [metricsRegistry],
+  collect() {
+    this.reset();
+    for (const [name, credential] of Object.entries(getUpstreamCredentials())) {
+      const targets = [...getUpstreamTargets(credential, false), ...getUpstreamTargets(credential, true)];
+      // Both series exist for every credential, so "no healthy key" reads as 0 instead of a missing series
+      this.set({ credential: name, status: 'healthy' }, 0);
+      this.set({ credential: name, status: 'cooling_down' }, 0);
+      for (const health of targets.map(getUpstreamTargetHealth)) {
+        this.inc({ credential: name, status: health.status });
+      }
+    }
+  },
+});
+
+const tokensTotal = new Counter({
+  name: 'gemini_tokens_total',
+  help: 'Tokens reported in Gemini usageMetadata, by model and type (prompt, completion, cached, thinking)',
+  labelNames: ['model', 'type'],
+  registers: [metricsRegistry],
+});
+
+const imageUploadsTotal = new Counter({
+  name: 'image_uploads_total',
+  help: 'Generated images uploaded to the bucket server, or returned as data URLs after a failed upload',
+  labelNames: ['outcome'],
+  registers: [metricsRegistry],
+});
+
+const mediaFetchBytesTotal = new Counter({
+  name: 'media_fetch_bytes_total',
+  help: 'Bytes downloaded from media URLs in requests',
+  labelNames: ['kind'],
+  registers: [metricsRegistry],
+});
+
+const mediaFetchDuration = new Histogram({
+  name: 'media_fetch_duration_seconds',
+  help: 'Duration of media URL downloads, by media kind and outcome',
+  labelNames: ['kind', 'outcome'],
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry],
+});
+
+export function recordHttpRequest(method: string, route: string, model: string, status: number, durationSeconds: number): void {
+  httpRequestsTotal.inc({ method, route, model, status: String(status) });
+  httpRequestDuration.observe({ method, route }, durationSeconds);
+}
+
+// Start timing one Gemini API attempt; call the returned function with its outcome
+export function startUpstreamRequestTimer(upstream: string): (outcome: UpstreamRequestOutcome) => void {
+  const end = upstreamRequestDuration.startTimer({ upstream });
+  return outcome => {
+    end({ outcome });
+  };
+}
+
+export function recordUpstreamRateLimitMetric(pool: string): void {
+  upstreamRateLimitsTotal.inc({ pool });
+}
+
+export function recordTokenUsage(model: string | undefined, usage: GenerateContentResponseUsageMetadata | undefined): void {
+  // Cached content usage only carries totalTokenCount, which is not a generation
+  if (!usage || usage.promptTokenCount === undefined) {
+    return;
+  }
+  const modelLabel = model || 'unknown';
+  tokensTotal.inc({ model: modelLabel, type: 'prompt' }, usage.promptTokenCount ?? 0);
+  tokensTotal.inc({ model: modelLabel, type: 'completion' }, usage.candidatesTokenCount ?? 0);
+  tokensTotal.inc({ model: modelLabel, type: 'cached' }, usage.cachedContentTokenCount ?? 0);
+  tokensTotal.inc({ model: modelLabel, type: 'thinking' }, usage.thoughtsTokenCount ?? 0);
+}
+
+// Helper function to recognize the async generator returned by generateContentStream
+function isAsyncGenerator(value: any): value is AsyncGenerator<any> {
+  return typeof value?.[Symbol.asyncIterator] === 'function' && typeof value.next === 'function' && typeof value.throw === 'function';
+}
+
+// Count the tokens of a Gemini result: the usageMetadata of a response, or of the last chunk of a stream
+// (stream chunks carry the running total, so only the last one is counted)
+export function observeTokenUsage<T>(result: T): T {
+  if (isAsyncGenerator(result)) {
+    const stream = result;
+    return (async function* () {
+      let lastChunk: any;
+      try {
+        for await (const chunk of stream) {
+          if (chunk?.usageMetadata) {
+            lastChunk = chunk;
+          }
+          yield chunk;
+        }
+      } finally {
+        recordTokenUsage(lastChunk?.modelVersion, lastChunk?.usageMetadata);
+      }
+    })() as T;
+  }
+  const response = result as { modelVersion?: string; usageMetadata?: GenerateContentResponseUsageMetadata } | undefined;
+  recordTokenUsage(response?.modelVersion, response?.usageMetadata);
+  return result;
+}
+
+export function recordImageUpload(outcome: 'uploaded' | 'fallback'): void {
+  imageUploadsTotal.inc({ outcome });
+}
+
+export function recordMediaFetch(kind: MediaFetchKind, outcome: 'success' | 'error', durationSeconds: number, bytes: number = 0): void {
+  mediaFetchDuration.observe({ kind, outcome }, durationSeconds);
+  if (bytes > 0) {
+    mediaFetchBytesTotal.inc({ kind }, bytes);
+  }
+}
@@ -0,0 +1,63 @@
+import { ClientKeyRecord } from './types';
+
+// Files and context caches are created in the Gemini project of the upstream key, which every client key
+// bound to the same credential shares. The proxy records the client key that created each one, so other
+// keys can neither list, read, use nor delete it. Without client keys, callers share everything.
+// Owners are kept in memory: resources created before a restart are hidden from every client key.
+
+export type OwnedResourceType = 'file' | 'cache';
+
+interface ResourceOwner {
+  owner: string; // Id of the client key that created the resource
+  expiresAt?: number; // Time in ms after which the resource is gone and the entry can be dropped
+}
+
+const resourceOwners = new Map<string, ResourceOwner>();
+
+// Resources are referenced as 'abc', 'files/abc' or 'projects/.../cachedContents/abc'; the last segment identifies them
+function getOwnerKey(type: OwnedResourceType, name: string): string {
+  return `${type}:${name.substring(name.lastIndexOf('/') + 1)}`;
+}
+
+function parseExpireTime(expireTime: string | undefined): number | undefined {
+  const time = expireTime ? Date.parse(expireTime) : NaN;
+  return Number.isFinite(time) ? time : undefined;
+}
+
+// Drop the entries of resources that have expired in Gemini
+function pruneExpiredOwners(): void {
+  const now = Date.now();
+  for (const [key, entry] of resourceOwners) {
+    if (entry.expiresAt !== undefined && entry.expiresAt <= now) {
+      resourceOwners.delete(key);
+    }
+  }
+}
+
+export function recordResourceOwner(type: OwnedResourceType, name: string | undefined, clientKey: ClientKeyRecord | undefined, expireTime?: string): void {
+  if (!name || !clientKey) {
+    return;
+  }
+  pruneExpiredOwners();
+  resourceOwners.set(getOwnerKey(type, name), { owner: clientKey.id, expiresAt: parseExpireTime(expireTime) });
+}
+
+// Context caches can be extended, so their entries follow the new expiration time
+export function updateResourceExpiry(type: OwnedResourceType, name: string | undefined, expireTime: string | undefined): void {
+  const entry = name ? resourceOwners.get(getOwnerKey(type, name)) : undefined;
+  if (entry) {
+    entry.expiresAt = parseExpireTime(expireTime);
+  }
+}
+
+export function forgetResourceOwner(type: OwnedResourceType, name: string): void {
+  resourceOwners.delete(getOwnerKey(type, name));
+}
+
+// Helper function to check whether the request's client key may access a resource
+export function isResourceOwner(type: OwnedResourceType, name: string | undefined, clientKey: ClientKeyRecord | undefined): boolean {
+  if (!clientKey) {
+    return true;
+  }
+  return !!name && resourceOwners.get(getOwnerKey(type, name))?.owner === clientKey.id;
+}
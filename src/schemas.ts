@@ -0,0 +1,302 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { sendError } from './errors';
+import { createLogger } from './logger';
+
+// Request bodies are declared once as zod schemas: src/types.ts infers the request types from them
+// and the routes validate incoming bodies against them
+// Objects are declared strict; in lenient mode (the default) unknown fields are ignored instead of rejected
+
+export type RequestValidationMode = 'strict' | 'lenient';
+
+// OpenAI message content parts
+export const openAIContentTextPartSchema = z.strictObject({
+  type: z.literal('text'),
+  text: z.string(),
+});
+
+export const openAIContentImageUrlPartSchema = z.strictObject({
+  type: z.literal('image_url'),
+  image_url: z.strictObject({
+    url: z.string(),
+    detail: z.enum(['auto', 'low', 'high']).optional(), // Accepted for compatibility, not used by Gemini
+  }),
+});
+
+export const openAIContentFileUrlPartSchema = z.strictObject({
+  type: z.literal('file_url'),
+  file_url: z.strictObject({
+    url: z.string(),
+  }),
+});
+
+export const openAIContentInputAudioPartSchema = z.strictObject({
+  type: z.literal('input_audio'),
+  input_audio: z.strictObject({
+    data: z.string(), // base64 encoded audio
+    format: z.string(), // e.g. 'wav', 'mp3'
+  }),
+});
+
+export const openAIContentFilePartSchema = z.strictObject({
+  type: z.literal('file'),
+  file: z.strictObject({
+    file_id: z.string().optional(), // Id returned by POST /v1/files
+    file_data: z.string().optional(), // data URL or raw base64
+    filename: z.string().optional(),
+  }),
+});
+
+export const openAIContentPartSchema = z.discriminatedUnion('type', [
+  openAIContentTextPartSchema,
+  openAIContentImageUrlPartSchema,
+  openAIContentFileUrlPartSchema,
+  openAIContentInputAudioPartSchema,
+  openAIContentFilePartSchema,
+]);
+
+// Function calling
+export const openAIToolCallSchema = z.strictObject({
+  id: z.string(),
+  type: z.literal('function'),
+  function: z.strictObject({
+    name: z.string(),
+    arguments: z.string(), // JSON encoded arguments
+  }),
+  // Gemini thought signature, which must be sent back with the call in later turns
+  extra_content: z.looseObject({
+    google: z.looseObject({
+      thought_signature: z.string().optional(),
+    }).optional(),
+  }).optional(),
+});
+
+export const openAIFunctionToolSchema = z.strictObject({
+  type: z.literal('function'),
+  function: z.strictObject({
+    name: z.string(),
+    description: z.string().optional(),
+    parameters: z.record(z.string(), z.any()).optional(), // JSON Schema
+    strict: z.boolean().optional(), // Accepted for compatibility, Gemini always follows the schema
+  }),
+});
+
+// Gemini-native tools have no type and are passed through unchanged
+export const geminiNativeToolSchema = z.looseObject({
+  type: z.undefined().optional(),
+  googleSearch: z.looseObject({}).optional(),
+  codeExecution: z.looseObject({}).optional(),
+  urlContext: z.looseObject({}).optional(),
+});
+
+export const openAIToolSchema = z.discriminatedUnion('type', [openAIFunctionToolSchema, geminiNativeToolSchema]);
+
+export const openAIToolChoiceSchema = z.union([
+  z.enum(['none', 'auto', 'required']),
+  z.strictObject({
+    type: z.literal('function'),
+    function: z.strictObject({ name: z.string() }),
+  }),
+]);
+
+// Structured output
+export const openAIResponseFormatJsonSchemaSchema = z.strictObject({
+  type: z.literal('json_schema'),
+  json_schema: z.strictObject({
+    name: z.string().optional(),
+    description: z.string().optional(),
+    schema: z.record(z.string(), z.any()).optional(), // JSON Schema
+    strict: z.boolean().optional(),
+  }),
+});
+
+export const openAIResponseFormatSchema = z.discriminatedUnion('type', [
+  z.strictObject({ type: z.literal('text') }),
+  z.strictObject({ type: z.literal('json_object') }),
+  openAIResponseFormatJsonSchemaSchema,
+]);
+
+export const openAIMessageSchema = z.strictObject({
+  role: z.enum(['system', 'user', 'assistant', 'tool']),
+  // String or array of parts (null or omitted for assistant tool calls)
+  content: z.union([z.string(), z.array(openAIContentPartSchema)]).nullable().optional(),
+  tool_calls: z.array(openAIToolCallSchema).optional(), // Assistant messages only
+  tool_call_id: z.string().optional(), // Tool messages only
+  name: z.string().optional(),
+});
+
+// Response modalities Gemini can generate (compared case-insensitively)
+const SUPPORTED_MODALITIES = ['text', 'image'];
+
+export const openAIChatCompletionRequestSchema = z.strictObject({
+  model: z.string().min(1),
+  messages: z.array(openAIMessageSchema),
+  temperature: z.number().nullish(),
+  stream: z.boolean().optional(), // Stream the response as chat.completion.chunk server-sent events
+  stream_options: z.strictObject({
+    include_usage: z.boolean().optional(), // Include token usage in the final streamed chunk
+  }).optional(),
+  // Sampling parameters, whose ranges are checked by convertSamplingParamsToGemini
+  max_tokens: z.number().nullish(), // Mapped to maxOutputTokens
+  max_completion_tokens: z.number().nullish(), // Takes precedence over max_tokens
+  top_p: z.number().nullish(),
+  stop: z.union([z.string(), z.array(z.string())]).nullish(), // Mapped to stopSequences
+  seed: z.number().nullish(),
+  presence_penalty: z.number().nullish(),
+  frequency_penalty: z.number().nullish(),
+  n: z.number().nullish(), // Mapped to candidateCount, one choice per candidate
+  reasoning_effort: z.enum(['low', 'medium', 'high', 'none']).optional(),
+  thinking_level: z.enum(['minimal', 'low', 'medium', 'high']).optional(),
+  include_thoughts: z.boolean().optional(), // Return thought summaries as reasoning_content
+  tools: z.array(openAIToolSchema).optional(), // Function tools and Gemini-native tools
+  tool_choice: openAIToolChoiceSchema.optional(),
+  modalities: z.array(z.string().refine(
+    modality => SUPPORTED_MODALITIES.includes(modality.toLowerCase()),
+    `supported modalities are ${SUPPORTED_MODALITIES.map(m => `'${m}'`).join(' and ')}`,
+  )).optional(), // Mixed text and image generation
+  response_format: openAIResponseFormatSchema.optional(), // Structured output (JSON mode or JSON schema)
+  // Vertex AI configuration
+  use_vertex: z.boolean().optional(), // If true, use Google Cloud Vertex AI instead of Gemini AI
+  google_cloud_project: z.string().optional(), // Required when use_vertex is true
+  google_cloud_location: z.string().optional(), // Required when use_vertex is true (e.g., 'us-central1', 'global')
+  // Context caching support
+  cached_content: z.string().optional(), // Cache resource name (e.g., 'projects/.../locations/.../cachedContents/...')
+});
+
+// Context caches
+const ttlSchema = z.string().regex(/^\d+(\.\d+)?s$/, "expected a duration in seconds such as '3600s'");
+const expireTimeSchema = z.iso.datetime({ offset: true, error: "expected an ISO 8601 timestamp such as '2025-01-01T00:00:00Z'" });
+
+export const cacheContentPartSchema = z.strictObject({
+  text: z.string().optional(),
+  file_data: z.strictObject({
+    mime_type: z.string(),
+    file_uri: z.string(),
+  }).optional(),
+  inline_data: z.strictObject({
+    mime_type: z.string(),
+    data: z.string(), // base64 encoded
+  }).optional(),
+});
+
+export const cacheContentSchema = z.strictObject({
+  role: z.enum(['user', 'model']),
+  parts: z.array(cacheContentPartSchema),
+});
+
+export const createCacheRequestSchema = z.strictObject({
+  model: z.string().min(1),
+  display_name: z.string().optional(),
+  contents: z.array(cacheContentSchema).optional(),
+  system_instruction: z.string().optional(),
+  ttl: ttlSchema.optional(), // Duration string like "3600s" for 1 hour
+  expire_time: expireTimeSchema.optional(), // ISO 8601 timestamp
+  // Vertex AI configuration (required for cache operations)
+  use_vertex: z.boolean().optional(),
+  google_cloud_project: z.string().optional(),
+  google_cloud_location: z.string().optional(),
+});
+
+export const updateCacheRequestSchema = z.strictObject({
+  ttl: ttlSchema.optional(),
+  expire_time: expireTimeSchema.optional(),
+  // Vertex AI configuration
+  use_vertex: z.boolean().optional(),
+  google_cloud_project: z.string().optional(),
+  google_cloud_location: z.string().optional(),
+});
+
+const log = createLogger('validation');
+
+export function getRequestValidationMode(): RequestValidationMode {
+  return process.env.REQUEST_VALIDATION?.toLowerCase() === 'strict' ? 'strict' : 'lenient';
+}
+
+// Helper function to format a zod issue path the way OpenAI reports params, e.g. messages[0].content[1].type
+function formatParamPath(path: PropertyKey[]): string {
+  return path.reduce<string>((param, segment) => {
+    if (typeof segment === 'number') {
+      return `${param}[${segment}]`;
+    }
+    return param ? `${param}.${String(segment)}` : String(segment);
+  }, '');
+}
+
+// Helper function to drop the unknown field issues lenient mode ignores, including those inside union branches
+function filterIssues(issues: z.core.$ZodIssue[], mode: RequestValidationMode): z.core.$ZodIssue[] {
+  if (mode === 'strict') {
+    return issues;
+  }
+  return issues.filter(issue => {
+    if (issue.code === 'unrecognized_keys') {
+      return false;
+    }
+    if (issue.code === 'invalid_union' && issue.errors.length > 0) {
+      // The union is valid when one of its branches only failed on unknown fields
+      return !issue.errors.some(branchIssues => filterIssues(branchIssues, mode).length === 0);
+    }
+    return true;
+  });
+}
+
+// Helper function to describe the first validation issue as an OpenAI error message, param and code
+function describeIssue(issue: z.core.$ZodIssue, mode: RequestValidationMode): { message: string; param: string; code: string } {
+  const param = formatParamPath(issue.path);
+  switch (issue.code) {
+    case 'unrecognized_keys': {
+      const unknownParam = formatParamPath([...issue.path, issue.keys[0]]);
+      return { message: `Unrecognized request argument supplied: ${unknownParam}`, param: unknownParam, code: 'unknown_parameter' };
+    }
+    case 'invalid_type':
+      if (issue.input === undefined) {
+        return { message: `Missing required parameter: '${param}'.`, param, code: 'missing_required_parameter' };
+      }
+      return { message: `Invalid type for '${param}': expected ${issue.expected}, but got ${describeInputType(issue.input)} instead.`, param, code: 'invalid_type' };
+    case 'invalid_value':
+      return { message: `Invalid value for '${param}': expected one of ${issue.values.map(value => `'${String(value)}'`).join(', ')}.`, param, code: 'invalid_value' };
+    case 'invalid_union': {
+      if (issue.discriminator) {
+        // The runtime issue lists the discriminator values, which $ZodIssueInvalidUnion does not declare
+        const options = ((issue as { options?: unknown[] }).options ?? []).filter(option => option !== undefined).map(option => `'${String(option)}'`).join(', ');
+        return { message: `Invalid value for '${param}': expected one of ${options}.`, param, code: 'invalid_value' };
+      }
+      // Report the failure inside the branch the value was meant for: one that failed below the value itself,
+      // or else one that failed on the value rather than on its type
+      const branches = issue.errors.map(branchIssues => filterIssues(branchIssues, mode)).filter(branchIssues => branchIssues.length > 0);
+      const branch = branches.find(branchIssues => branchIssues[0].path.length > 0)
+        ?? branches.find(branchIssues => branchIssues[0].code !== 'invalid_type');
+      if (branch) {
+        return describeIssue({ ...branch[0], path: [...issue.path, ...branch[0].path] }, mode);
+      }
+      return { message: `Invalid type for '${param}': got ${describeInputType(issue.input)}, which does not match any of the accepted formats.`, param, code: 'invalid_type' };
+    }
+    default:
+      return { message: `Invalid '${param}': ${issue.message}.`, param, code: 'invalid_value' };
+  }
+}
+
+// Helper function to name the JSON type of an invalid value
+function describeInputType(input: unknown): string {
+  if (input === null) return 'null';
+  if (Array.isArray(input)) return 'array';
+  return typeof input;
+}
+
+// Validate a request body against its schema
+// Returns the body, or undefined after sending a 400 response for the first invalid field
+export function validateRequestBody<T>(res: Response, schema: z.ZodType<T>, body: unknown): T | undefined {
+  const mode = getRequestValidationMode();
+  const result = schema.safeParse(body ?? {}, { reportInput: true });
+  if (result.success) {
+    return result.data;
+  }
+  const issues = filterIssues(result.error.issues, mode);
+  if (issues.length === 0) {
+    // Only unknown fields failed: keep the body as sent, extra fields included
+    return body as T;
+  }
+  const { message, param, code } = describeIssue(issues[0], mode);
+  log.warn('Rejected request body', { reason: message, param: param || undefined, code });
+  sendError(res, 400, message, { param: param || undefined, code });
+  return undefined;
+}
@@ -1,91 +1,71 @@
-import { FinishReason as GeminiFinishReason } from '@google/genai';
+import { FinishReason as GeminiFinishReason, GenerateContentResponseUsageMetadata, SafetySetting } from '@google/genai';
+import type { z } from 'zod';
+import type {
+  openAIContentTextPartSchema,
+  openAIContentImageUrlPartSchema,
+  openAIContentFileUrlPartSchema,
+  openAIContentInputAudioPartSchema,
+  openAIContentFilePartSchema,
+  openAIContentPartSchema,
+  openAIToolCallSchema,
+  openAIFunctionToolSchema,
+  geminiNativeToolSchema,
+  openAIToolSchema,
+  openAIToolChoiceSchema,
+  openAIResponseFormatJsonSchemaSchema,
+  openAIResponseFormatSchema,
+  openAIMessageSchema,
+  openAIChatCompletionRequestSchema,
+  cacheContentPartSchema,
+  cacheContentSchema,
+  createCacheRequestSchema,
+  updateCacheRequestSchema,
+} from './schemas';
 
-// Define new interfaces for OpenAI message content parts
-export interface OpenAIContentTextPart {
-  type: 'text';
-  text: string;
-}
+// OpenAI chat completion request types are inferred from the request schemas in src/schemas.ts,
+// which the routes also validate incoming bodies against
 
-export interface OpenAIContentImageUrlPart {
-  type: 'image_url';
-  image_url: {
-    url: string;
-    // detail?: string; // Optional, not used by Gemini in this way
-  };
-}
+// OpenAI message content parts
+export type OpenAIContentTextPart = z.infer<typeof openAIContentTextPartSchema>;
+export type OpenAIContentImageUrlPart = z.infer<typeof openAIContentImageUrlPartSchema>;
+export type OpenAIContentFileUrlPart = z.infer<typeof openAIContentFileUrlPartSchema>;
+export type OpenAIContentInputAudioPart = z.infer<typeof openAIContentInputAudioPartSchema>;
+export type OpenAIContentFilePart = z.infer<typeof openAIContentFilePartSchema>;
+export type OpenAIContentPart = z.infer<typeof openAIContentPartSchema>;
 
-export interface OpenAIContentFileUrlPart {
-  type: 'file_url';
-  file_url: {
-    url: string;
-  };
-}
+// Function calling types
+export type OpenAIToolCall = z.infer<typeof openAIToolCallSchema>;
+export type OpenAIFunctionTool = z.infer<typeof openAIFunctionToolSchema>;
+// Gemini-native tools are still accepted and passed through unchanged
+export type GeminiNativeTool = z.infer<typeof geminiNativeToolSchema>;
+export type OpenAITool = z.infer<typeof openAIToolSchema>;
+export type OpenAIToolChoice = z.infer<typeof openAIToolChoiceSchema>;
 
-export type OpenAIContentPart = OpenAIContentTextPart | OpenAIContentImageUrlPart | OpenAIContentFileUrlPart;
+// Structured output types
+export type OpenAIResponseFormatJsonSchema = z.infer<typeof openAIResponseFormatJsonSchemaSchema>;
+export type OpenAIResponseFormat = z.infer<typeof openAIResponseFormatSchema>;
 
-// Modify OpenAIMessage interface
-export interface OpenAIMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string | OpenAIContentPart[]; // Can be string or array of parts
-}
+export type OpenAIMessage = z.infer<typeof openAIMessageSchema>;
+export type OpenAIChatCompletionRequest = z.infer<typeof openAIChatCompletionRequestSchema>;
 
-export interface OpenAIChatCompletionRequest {
-  model: string;
-  messages: OpenAIMessage[];
-  temperature?: number;
-  // stream?: boolean; // Not yet supported
-  // max_tokens?: number; // Not directly mapped, Gemini uses other limits
-  reasoning_effort?: 'low' | 'medium' | 'high' | 'none'; // Added reasoning_effort
-  thinking_level?: 'minimal' | 'low' | 'medium' | 'high'; // Added thinking_level
-  tools?: Array<{ googleSearch?: {} }>; // Added tools support
-  modalities?: string[]; // Added modalities support for mixed content generation
-  // Vertex AI configuration
-  use_vertex?: boolean; // If true, use Google Cloud Vertex AI instead of Gemini AI
-  google_cloud_project?: string; // Required when use_vertex is true
-  google_cloud_location?: string; // Required when use_vertex is true (e.g., 'us-central1', 'global')
-  // Context caching support
-  cached_content?: string; // Cache resource name (e.g., 'projects/.../locations/.../cachedContents/...')
+// Entry of the MODEL_ALIASES routing table (a plain string entry is { model })
+export interface ModelRoute {
+  model: string; // Gemini model the alias resolves to
+  fallbacks?: string[]; // Models tried in order when the previous one answers 404, 429 or 503
+  defaults?: ModelRouteDefaults; // Chat parameters used when the request does not set them
+  safety_settings?: SafetySetting[]; // Replaces the default safety settings
 }
 
-// Context Cache Types
-export interface CacheContentPart {
-  text?: string;
-  file_data?: {
-    mime_type: string;
-    file_uri: string;
-  };
-  inline_data?: {
-    mime_type: string;
-    data: string; // base64 encoded
-  };
-}
+export type ModelRouteDefaults = Pick<
+  OpenAIChatCompletionRequest,
+  'temperature' | 'max_tokens' | 'top_p' | 'reasoning_effort' | 'thinking_level' | 'include_thoughts' | 'tools' | 'tool_choice' | 'modalities'
+>;
 
-export interface CacheContent {
-  role: 'user' | 'model';
-  parts: CacheContentPart[];
-}
-
-export interface CreateCacheRequest {
-  model: string;
-  display_name?: string;
-  contents?: CacheContent[];
-  system_instruction?: string;
-  ttl?: string; // Duration string like "3600s" for 1 hour
-  expire_time?: string; // ISO 8601 timestamp
-  // Vertex AI configuration (required for cache operations)
-  use_vertex?: boolean;
-  google_cloud_project?: string;
-  google_cloud_location?: string;
-}
-
-export interface UpdateCacheRequest {
-  ttl?: string;
-  expire_time?: string;
-  // Vertex AI configuration
-  use_vertex?: boolean;
-  google_cloud_project?: string;
-  google_cloud_location?: string;
-}
+// Context Cache Types
+export type CacheContentPart = z.infer<typeof cacheContentPartSchema>;
+export type CacheContent = z.infer<typeof cacheContentSchema>;
+export type CreateCacheRequest = z.infer<typeof createCacheRequestSchema>;
+export type UpdateCacheRequest = z.infer<typeof updateCacheRequestSchema>;
 
 export interface CacheResponse {
   name: string;
@@ -113,7 +93,9 @@ export interface OpenAIChatCompletionResponse {
     index: number;
     message: {
       role: 'assistant';
-      content: string | OpenAIContentPart[]; // Support mixed content for image generation
+      content: string | OpenAIContentPart[] | null; // Support mixed content for image generation
+      reasoning_content?: string; // Thought summaries, only when include_thoughts is set
+      tool_calls?: OpenAIToolCall[];
     };
     finish_reason: string;
   }>;
@@ -122,9 +104,578 @@ export interface OpenAIChatCompletionResponse {
     completion_tokens: number;
     total_tokens: number;
     cached_content_token_count?: number; // Token count from cached content
+    completion_tokens_details?: {
+      reasoning_tokens: number; // Gemini thoughtsTokenCount, included in completion_tokens
+    };
+  };
+}
+
+// Streaming chunk returned when stream is true
+export interface OpenAIChatCompletionChunk {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: 'assistant';
+      content?: string | OpenAIContentPart[]; // Array only when the chunk carries generated images
+      reasoning_content?: string;
+      tool_calls?: Array<OpenAIToolCall & { index: number }>;
+    };
+    finish_reason: string | null;
+    google_gemini_body?: any;
+  }>;
+  usage?: OpenAIChatCompletionResponse['usage'];
+}
+
+// Client API key types (proxy-issued keys, managed through /admin/keys)
+// Features that must be granted explicitly to a client key
+export type ClientKeyFeature = 'vertex' | 'grounding' | 'image_generation';
+
+export interface ClientKeyRecord {
+  id: string;
+  name: string;
+  key_hash: string; // SHA-256 of the key, the key itself is only returned on creation
+  key_prefix: string; // First characters of the key, to recognize it in listings
+  created_at: number;
+  disabled: boolean;
+  allowed_models?: string[]; // Model names or prefixes ending in '*'; all models when omitted
+  allowed_features: ClientKeyFeature[];
+  upstream: string; // Name of the upstream credential in UPSTREAM_CREDENTIALS
+}
+
+// Client key as returned by the admin API
+export type ClientKeyResponse = Omit<ClientKeyRecord, 'key_hash'> & { object: 'client_key'; key?: string };
+
+export interface ClientKeyRequest {
+  name?: string;
+  allowed_models?: string[] | null;
+  allowed_features?: ClientKeyFeature[];
+  upstream?: string;
+  disabled?: boolean;
+}
+
+// Upstream Gemini credential a client key resolves to
+// api_keys and vertex_projects form a pool that requests rotate across
+export interface UpstreamCredential {
+  api_key?: string;
+  api_keys?: string[];
+  vertex?: UpstreamVertexProject;
+  vertex_projects?: UpstreamVertexProject[];
+}
+
+export interface UpstreamVertexProject {
+  project: string;
+  location: string;
+}
+
+// Health of one pooled upstream key or Vertex AI project (GET /admin/upstreams)
+export interface UpstreamKeyHealth {
+  id: string;
+  type: 'api_key' | 'vertex';
+  label: string;
+  status: 'healthy' | 'cooling_down';
+  cooldown_until: number | null;
+  requests: number;
+  successes: number;
+  rate_limited: number;
+  errors: number;
+  last_error?: string;
+  last_used_at?: number;
+}
+
+// Health endpoints (GET /healthz, GET /readyz)
+// ok: working; degraded: the proxy still serves requests with reduced function; fail: not ready for traffic
+export type HealthCheckStatus = 'ok' | 'degraded' | 'fail';
+
+// Result of a bucket server probe; checked_at is a Unix timestamp in seconds
+export interface BucketServerHealth {
+  reachable: boolean;
+  url: string;
+  status_code?: number;
+  error?: string;
+  latency_ms: number;
+  checked_at: number;
+}
+
+export interface BucketReadinessCheck extends BucketServerHealth {
+  status: HealthCheckStatus;
+  background_probe: boolean;
+}
+
+export interface UpstreamReadinessCheck {
+  status: HealthCheckStatus;
+  configured: boolean;
+  credentials: number;
+  keys: number;
+  healthy_keys: number;
+  message?: string;
+}
+
+export interface ReadinessResponse {
+  status: 'ready' | 'not_ready';
+  checks: {
+    bucket: BucketReadinessCheck;
+    upstream: UpstreamReadinessCheck;
+  };
+}
+
+// Legacy completions types (POST /v1/completions)
+export interface OpenAICompletionRequest {
+  model: string;
+  prompt: string | string[];
+  suffix?: string; // Text that follows the completion
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stop?: string | string[];
+  n?: number; // Completions per prompt
+  echo?: boolean; // Prepend the prompt to each completion
+  seed?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  stream?: boolean;
+  // Vertex AI configuration, as for chat completions
+  use_vertex?: boolean;
+  google_cloud_project?: string;
+  google_cloud_location?: string;
+}
+
+export interface OpenAICompletionResponse {
+  id: string;
+  object: 'text_completion';
+  created: number;
+  model: string;
+  choices: Array<{
+    text: string;
+    index: number;
+    logprobs: null;
+    finish_reason: string;
+  }>;
+  usage: OpenAIChatCompletionResponse['usage'];
+}
+
+// Anthropic Messages API types (POST /v1/messages)
+export interface AnthropicTextBlock {
+  type: 'text';
+  text: string;
+}
+
+export interface AnthropicMediaSource {
+  type: 'base64' | 'url' | 'text' | 'content';
+  media_type?: string;
+  data?: string; // base64 data, or plain text for 'text' sources
+  url?: string;
+  content?: string | AnthropicTextBlock[]; // Only for 'content' sources
+}
+
+export interface AnthropicImageBlock {
+  type: 'image';
+  source: AnthropicMediaSource;
+}
+
+export interface AnthropicDocumentBlock {
+  type: 'document';
+  source: AnthropicMediaSource;
+  title?: string;
+}
+
+export interface AnthropicToolUseBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface AnthropicToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content?: string | Array<AnthropicTextBlock | AnthropicImageBlock>;
+  is_error?: boolean;
+}
+
+// Thinking blocks carry Gemini thought signatures so they can be sent back with the next request
+export interface AnthropicThinkingBlock {
+  type: 'thinking';
+  thinking: string;
+  signature?: string;
+}
+
+export interface AnthropicRedactedThinkingBlock {
+  type: 'redacted_thinking';
+  data: string;
+}
+
+export type AnthropicContentBlock =
+  | AnthropicTextBlock
+  | AnthropicImageBlock
+  | AnthropicDocumentBlock
+  | AnthropicToolUseBlock
+  | AnthropicToolResultBlock
+  | AnthropicThinkingBlock
+  | AnthropicRedactedThinkingBlock;
+
+export interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+// Client tools have an input_schema; server tools (web_search, code_execution) have a versioned type
+export interface AnthropicTool {
+  type?: string;
+  name: string;
+  description?: string;
+  input_schema?: Record<string, any>;
+}
+
+export interface AnthropicToolChoice {
+  type: 'auto' | 'any' | 'tool' | 'none';
+  name?: string;
+}
+
+export interface AnthropicMessagesRequest {
+  model: string;
+  messages: AnthropicMessage[];
+  max_tokens: number;
+  system?: string | AnthropicTextBlock[];
+  stop_sequences?: string[];
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  stream?: boolean;
+  tools?: AnthropicTool[];
+  tool_choice?: AnthropicToolChoice;
+  thinking?: { type: 'enabled' | 'disabled'; budget_tokens?: number };
+  metadata?: Record<string, unknown>;
+  // Vertex AI configuration, as for chat completions
+  use_vertex?: boolean;
+  google_cloud_project?: string;
+  google_cloud_location?: string;
+}
+
+export interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+}
+
+export interface AnthropicMessagesResponse {
+  id: string;
+  type: 'message';
+  role: 'assistant';
+  model: string;
+  content: Array<AnthropicTextBlock | AnthropicToolUseBlock | AnthropicThinkingBlock>;
+  stop_reason: AnthropicStopReason | null;
+  stop_sequence: string | null;
+  usage: AnthropicUsage;
+}
+
+export type AnthropicStopReason = 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use' | 'refusal';
+
+// OpenAI Responses API types (POST /v1/responses)
+export interface ResponsesInputTextPart {
+  type: 'input_text' | 'output_text'; // output_text appears in assistant messages replayed as input
+  text: string;
+}
+
+export interface ResponsesInputImagePart {
+  type: 'input_image';
+  image_url?: string; // http(s) or data: URL
+  file_id?: string; // Id returned by POST /v1/files
+  detail?: 'low' | 'high' | 'auto';
+}
+
+export interface ResponsesInputFilePart {
+  type: 'input_file';
+  file_id?: string;
+  file_data?: string; // data URL or raw base64
+  file_url?: string;
+  filename?: string;
+}
+
+export type ResponsesInputContentPart = ResponsesInputTextPart | ResponsesInputImagePart | ResponsesInputFilePart;
+
+export interface ResponsesInputMessage {
+  type?: 'message';
+  role: 'user' | 'assistant' | 'system' | 'developer';
+  content: string | ResponsesInputContentPart[];
+}
+
+export interface ResponsesFunctionCallItem {
+  type: 'function_call';
+  id?: string;
+  call_id: string;
+  name: string;
+  arguments: string;
+  status?: string;
+}
+
+export interface ResponsesFunctionCallOutputItem {
+  type: 'function_call_output';
+  call_id: string;
+  output: string;
+}
+
+// Reasoning items carry thought summaries and the Gemini thought signature (as encrypted_content)
+export interface ResponsesReasoningItem {
+  type: 'reasoning';
+  id?: string;
+  summary: Array<{ type: 'summary_text'; text: string }>;
+  encrypted_content?: string;
+}
+
+export type ResponsesInputItem =
+  | ResponsesInputMessage
+  | ResponsesFunctionCallItem
+  | ResponsesFunctionCallOutputItem
+  | ResponsesReasoningItem;
+
+// Function tools are flat in the Responses API; web_search maps to Gemini googleSearch
+export interface ResponsesTool {
+  type: 'function' | 'web_search' | 'web_search_preview' | string;
+  name?: string;
+  description?: string;
+  parameters?: Record<string, any>;
+  strict?: boolean;
+}
+
+export type ResponsesToolChoice = 'none' | 'auto' | 'required' | { type: 'function'; name: string } | { type: string };
+
+export type ResponsesTextFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | { type: 'json_schema'; name?: string; description?: string; schema: Record<string, any>; strict?: boolean };
+
+export interface ResponsesRequest {
+  model: string;
+  input: string | ResponsesInputItem[];
+  instructions?: string;
+  previous_response_id?: string;
+  store?: boolean; // Defaults to true, as with OpenAI
+  stream?: boolean;
+  tools?: ResponsesTool[];
+  tool_choice?: ResponsesToolChoice;
+  text?: { format?: ResponsesTextFormat };
+  reasoning?: { effort?: 'none' | 'low' | 'medium' | 'high'; summary?: 'auto' | 'concise' | 'detailed' };
+  temperature?: number;
+  top_p?: number;
+  max_output_tokens?: number;
+  metadata?: Record<string, string>;
+  // Vertex AI configuration, as for chat completions
+  use_vertex?: boolean;
+  google_cloud_project?: string;
+  google_cloud_location?: string;
+}
+
+export interface ResponsesUrlCitation {
+  type: 'url_citation';
+  start_index: number;
+  end_index: number;
+  url: string;
+  title: string;
+}
+
+export interface ResponsesOutputMessage {
+  type: 'message';
+  id: string;
+  status: 'completed' | 'incomplete';
+  role: 'assistant';
+  content: Array<{ type: 'output_text'; text: string; annotations: ResponsesUrlCitation[] }>;
+}
+
+export type ResponsesOutputItem =
+  | ResponsesOutputMessage
+  | (ResponsesFunctionCallItem & { id: string; status: 'completed' })
+  | (ResponsesReasoningItem & { id: string });
+
+export interface ResponsesUsage {
+  input_tokens: number;
+  input_tokens_details: { cached_tokens: number };
+  output_tokens: number;
+  output_tokens_details: { reasoning_tokens: number };
+  total_tokens: number;
+}
+
+export interface ResponsesResponse {
+  id: string;
+  object: 'response';
+  created_at: number;
+  status: 'completed' | 'incomplete';
+  incomplete_details: { reason: 'max_output_tokens' | 'content_filter' } | null;
+  error: null;
+  model: string;
+  instructions: string | null;
+  previous_response_id: string | null;
+  output: ResponsesOutputItem[];
+  output_text: string; // Convenience field with the concatenated output text, as returned by the OpenAI SDKs
+  tools: ResponsesTool[];
+  tool_choice: ResponsesToolChoice;
+  text: { format: ResponsesTextFormat };
+  temperature: number | null;
+  top_p: number | null;
+  max_output_tokens: number | null;
+  store: boolean;
+  metadata: Record<string, string>;
+  usage: ResponsesUsage;
+}
+
+// Model discovery types
+export interface OpenAIModel {
+  id: string;
+  object: 'model';
+  created: number;
+  owned_by: string;
+  // Gemini-specific details, not part of the OpenAI schema
+  google_gemini?: {
+    name?: string; // Full Gemini resource name (e.g. 'models/gemini-2.5-flash')
+    display_name?: string;
+    description?: string;
+    version?: string;
+    input_token_limit?: number;
+    output_token_limit?: number;
+    supported_generation_methods?: string[];
+    alias_for?: string; // Set for configured model aliases
+  };
+}
+
+export interface OpenAIModelList {
+  object: 'list';
+  data: OpenAIModel[];
+}
+
+// Embedding types
+export interface OpenAIEmbeddingRequest {
+  model: string;
+  input: string | string[];
+  dimensions?: number; // Mapped to outputDimensionality
+  encoding_format?: 'float' | 'base64';
+  task_type?: string; // Gemini extension (e.g. 'RETRIEVAL_QUERY', 'RETRIEVAL_DOCUMENT', 'SEMANTIC_SIMILARITY')
+  // Vertex AI configuration
+  use_vertex?: boolean;
+  google_cloud_project?: string;
+  google_cloud_location?: string;
+}
+
+export interface OpenAIEmbeddingResponse {
+  object: 'list';
+  data: Array<{
+    object: 'embedding';
+    index: number;
+    embedding: number[] | string; // base64 string when encoding_format is 'base64'
+  }>;
+  model: string;
+  usage: {
+    prompt_tokens: number;
+    total_tokens: number;
   };
 }
 
+// Image generation types
+export interface OpenAIImageGenerationRequest {
+  prompt: string;
+  model?: string; // Gemini image model or Imagen model (default: gemini-2.5-flash-image)
+  n?: number;
+  size?: string; // 'WIDTHxHEIGHT' or 'auto', mapped to the closest supported aspect ratio
+  aspect_ratio?: string; // Gemini extension, e.g. '16:9' (takes precedence over size)
+  response_format?: 'url' | 'b64_json';
+  // Vertex AI configuration
+  use_vertex?: boolean;
+  google_cloud_project?: string;
+  google_cloud_location?: string;
+}
+
+// Multipart fields of /v1/images/edits (the image and mask files arrive as uploads)
+export interface OpenAIImageEditRequest {
+  prompt: string;
+  model?: string;
+  n?: string; // Multipart fields are strings
+  size?: string;
+  aspect_ratio?: string;
+  response_format?: 'url' | 'b64_json';
+  use_vertex?: string;
+  google_cloud_project?: string;
+  google_cloud_location?: string;
+}
+
+export interface OpenAIImagesResponse {
+  created: number;
+  data: Array<{
+    url?: string;
+    b64_json?: string;
+    revised_prompt?: string;
+  }>;
+}
+
+// Text-to-speech types
+export interface OpenAISpeechRequest {
+  input: string;
+  model?: string; // Gemini TTS model (default: gemini-2.5-flash-preview-tts)
+  voice?: string; // OpenAI voice name (mapped to a Gemini voice) or a Gemini prebuilt voice name
+  response_format?: 'mp3' | 'wav' | 'pcm' | 'opus' | 'aac' | 'flac';
+  speed?: number; // 0.25 to 4.0
+  instructions?: string; // Optional speaking style instructions
+  // Vertex AI configuration
+  use_vertex?: boolean;
+  google_cloud_project?: string;
+  google_cloud_location?: string;
+}
+
+// Speech-to-text types (multipart fields of /v1/audio/transcriptions and /v1/audio/translations)
+export interface OpenAIAudioTextRequest {
+  model?: string; // Gemini model; OpenAI 'whisper-*' names use the default model
+  url?: string; // Gemini extension: audio URL to fetch instead of uploading a file
+  language?: string; // ISO-639-1 language of the audio (transcriptions only)
+  prompt?: string; // Context or spelling hints
+  response_format?: 'json' | 'text' | 'srt' | 'vtt' | 'verbose_json';
+  temperature?: string; // Multipart fields are strings
+  use_vertex?: string;
+  google_cloud_project?: string;
+  google_cloud_location?: string;
+}
+
+export interface TranscriptionSegment {
+  start: number; // Seconds
+  end: number; // Seconds
+  text: string;
+}
+
+export interface OpenAIVerboseTranscription {
+  task: 'transcribe' | 'translate';
+  language: string;
+  duration: number;
+  text: string;
+  segments: Array<TranscriptionSegment & { id: number }>;
+}
+
+// Files API types
+export interface OpenAIFileObject {
+  id: string;
+  object: 'file';
+  bytes: number;
+  created_at: number;
+  expires_at?: number;
+  filename: string;
+  purpose: string;
+  status: 'uploaded' | 'processed' | 'error';
+  // Gemini-specific details, not part of the OpenAI schema
+  google_gemini?: {
+    name?: string;
+    uri?: string;
+    mime_type?: string;
+    state?: string;
+  };
+}
+
+export interface OpenAIFileList {
+  object: 'list';
+  data: OpenAIFileObject[];
+  has_more: boolean;
+  after?: string; // Gemini page token of the next page, passed back as ?after=
+}
+
 // Types for Gemini image generation responses
 export interface GeminiImagePart {
   inlineData: {
@@ -147,6 +698,22 @@ export interface ImageUploadResponse {
   error?: string;
 }
 
+export const mapGeminiUsageToOpenAI = (usageMetadata: GenerateContentResponseUsageMetadata | undefined): OpenAIChatCompletionResponse['usage'] => {
+  const promptTokens = usageMetadata?.promptTokenCount ?? 0;
+  // Gemini counts thinking separately, OpenAI includes reasoning tokens in completion_tokens
+  const reasoningTokens = usageMetadata?.thoughtsTokenCount ?? 0;
+  const completionTokens = (usageMetadata?.candidatesTokenCount ?? (usageMetadata as any)?.candidateTokenCount ?? 0) + reasoningTokens;
+  const totalTokens = usageMetadata?.totalTokenCount ?? (promptTokens + completionTokens);
+  const cachedContentTokenCount = usageMetadata?.cachedContentTokenCount;
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: totalTokens,
+    ...(cachedContentTokenCount ? { cached_content_token_count: cachedContentTokenCount } : {}),
+    ...(reasoningTokens ? { completion_tokens_details: { reasoning_tokens: reasoningTokens } } : {}),
+  };
+};
+
 export const mapGeminiFinishReasonToOpenAI = (reason: GeminiFinishReason | undefined): string => {
   if (!reason) return 'stop';
   switch (reason) {
@@ -163,3 +730,44 @@ export const mapGeminiFinishReasonToOpenAI = (reason: GeminiFinishReason | undef
       return 'stop';
   }
 };
+
+// Anthropic reports cached tokens separately from input_tokens
+export const mapGeminiUsageToAnthropic = (usageMetadata: GenerateContentResponseUsageMetadata | undefined): AnthropicUsage => {
+  const cachedTokens = usageMetadata?.cachedContentTokenCount ?? 0;
+  return {
+    input_tokens: Math.max((usageMetadata?.promptTokenCount ?? 0) - cachedTokens, 0),
+    output_tokens: (usageMetadata?.candidatesTokenCount ?? 0) + (usageMetadata?.thoughtsTokenCount ?? 0),
+    // Gemini creates caches explicitly through /v1/caches, never while answering a request
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: cachedTokens,
+  };
+};
+
+export const mapGeminiFinishReasonToAnthropic = (reason: GeminiFinishReason | undefined): AnthropicStopReason => {
+  switch (reason) {
+    case GeminiFinishReason.MAX_TOKENS:
+      return 'max_tokens';
+    case GeminiFinishReason.SAFETY:
+    case GeminiFinishReason.PROHIBITED_CONTENT:
+    case GeminiFinishReason.BLOCKLIST:
+    case GeminiFinishReason.SPII:
+      return 'refusal';
+    case GeminiFinishReason.STOP:
+    default:
+      return 'end_turn';
+  }
+};
+
+// Responses API usage; like OpenAI, output_tokens includes reasoning tokens
+export const mapGeminiUsageToResponses = (usageMetadata: GenerateContentResponseUsageMetadata | undefined): ResponsesUsage => {
+  const inputTokens = usageMetadata?.promptTokenCount ?? 0;
+  const reasoningTokens = usageMetadata?.thoughtsTokenCount ?? 0;
+  const outputTokens = (usageMetadata?.candidatesTokenCount ?? 0) + reasoningTokens;
+  return {
+    input_tokens: inputTokens,
+    input_tokens_details: { cached_tokens: usageMetadata?.cachedContentTokenCount ?? 0 },
+    output_tokens: outputTokens,
+    output_tokens_details: { reasoning_tokens: reasoningTokens },
+    total_tokens: usageMetadata?.totalTokenCount ?? (inputTokens + outputTokens),
+  };
+};
@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import { GoogleGenAI } from '@google/genai';
+import { UpstreamCredential, UpstreamKeyHealth, UpstreamVertexProject } from './types';
+
+// Requests rotate across the Gemini API keys (or Vertex AI projects) of an upstream credential
+// A key that hits 429 / RESOURCE_EXHAUSTED is put on cooldown for the retryDelay Google reports
+
+export interface UpstreamTarget {
+  id: string;
+  type: 'api_key' | 'vertex';
+  label: string;
+  apiKey?: string;
+  vertex?: UpstreamVertexProject;
+}
+
+interface UpstreamTargetState {
+  requests: number;
+  successes: number;
+  rateLimited: number;
+  errors: number;
+  cooldownUntil: number;
+  lastError?: string;
+  lastUsedAt?: number;
+}
+
+const targetStates = new Map<string, UpstreamTargetState>();
+const nextTargetIndex = new Map<string, number>();
+
+// Cooldown used when a rate limit error carries no retryDelay (default: 60s)
+function getDefaultCooldownMs(): number {
+  const value = parseInt(process.env.UPSTREAM_COOLDOWN_MS || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : 60000;
+}
+
+function getTargetState(target: UpstreamTarget): UpstreamTargetState {
+  let state = targetStates.get(target.id);
+  if (!state) {
+    state = { requests: 0, successes: 0, rateLimited: 0, errors: 0, cooldownUntil: 0 };
+    targetStates.set(target.id, state);
+  }
+  return state;
+}
+
+// Helper function to show an API key in logs and admin responses without revealing it
+function maskApiKey(apiKey: string): string {
+  return apiKey.length > 12 ? `${apiKey.substring(0, 4)}...${apiKey.substring(apiKey.length - 4)}` : '****';
+}
+
+// Helper function to list the pooled upstreams of a credential, in configuration order
+export function getUpstreamTargets(credential: UpstreamCredential, useVertex: boolean): UpstreamTarget[] {
+  const targets = new Map<string, UpstreamTarget>();
+  if (useVertex) {
+    for (const vertex of [credential.vertex, ...(credential.vertex_projects ?? [])]) {
+      if (vertex?.project && vertex.location) {
+        const id = `vertex:${vertex.project}/${vertex.location}`;
+        targets.set(id, { id, type: 'vertex', label: `${vertex.project} (${vertex.location})`, vertex });
+      }
+    }
+  } else {
+    for (const apiKey of [credential.api_key, ...(credential.api_keys ?? [])]) {
+      if (apiKey) {
+        const id = `key_${crypto.createHash('sha256').update(apiKey).digest('hex').substring(0, 12)}`;
+        targets.set(id, { id, type: 'api_key', label: maskApiKey(apiKey), apiKey });
+      }
+    }
+  }
+  return [...targets.values()];
+}
+
+export function createGenAIForTarget(target: UpstreamTarget): GoogleGenAI {
+  return target.vertex
+    ? new GoogleGenAI({ vertexai: true, project: target.vertex.project, location: target.vertex.location })
+    : new GoogleGenAI({ apiKey: target.apiKey });
+}
+
+function isCoolingDown(target: UpstreamTarget, now: number = Date.now()): boolean {
+  return getTargetState(target).cooldownUntil > now;
+}
+
+// Order the healthy upstreams of a pool for a request
+// With rotate, every call starts one position further into the pool (round robin)
+export function orderUpstreamTargets(poolName: string, targets: UpstreamTarget[], rotate: boolean): UpstreamTarget[] {
+  if (targets.length === 0) {
+    return [];
+  }
+  const start = (nextTargetIndex.get(poolName) ?? 0) % targets.length;
+  if (rotate) {
+    nextTargetIndex.set(poolName, start + 1);
+  }
+  const now = Date.now();
+  return [...targets.slice(start), ...targets.slice(0, start)].filter(target => !isCoolingDown(target, now));
+}
+
+// Helper function to get the time until the first upstream of a pool leaves its cooldown
+export function getPoolCooldownRemainingMs(targets: UpstreamTarget[]): number {
+  const now = Date.now();
+  const remaining = targets.map(target => getTargetState(target).cooldownUntil - now);
+  return Math.max(0, Math.min(...remaining));
+}
+
+// Helper function to recognize Gemini quota errors (HTTP 429 / RESOURCE_EXHAUSTED)
+export function isRateLimitError(error: any): boolean {
+  return error?.status === 429
+    || /got status:\s*429/.test(error?.message ?? '')
+    || (error?.message ?? '').includes('RESOURCE_EXHAUSTED');
+}
+
+// Helper function to read google.rpc.RetryInfo.retryDelay (e.g. "37s" or "1.5s") from a Gemini error
+export function getRetryDelayMs(error: any): number | undefined {
+  const match = (error?.message ?? '').match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+}
+
+export function recordUpstreamRequest(target: UpstreamTarget): void {
+  const state = getTargetState(target);
+  state.requests++;
+  state.lastUsedAt = Date.now();
+}
+
+export function recordUpstreamSuccess(target: UpstreamTarget): void {
+  getTargetState(target).successes++;
+}
+
+export function recordUpstreamError(target: UpstreamTarget, error: any): void {
+  const state = getTargetState(target);
+  state.errors++;
+  state.lastError = error?.message;
+}
+
+// Put an upstream on cooldown after a rate limit error; returns the cooldown in milliseconds
+export function recordUpstreamRateLimit(target: UpstreamTarget, error: any): number {
+  const state = getTargetState(target);
+  // At least one second, so a retryDelay of "0s" cannot make a request loop over the same key
+  const cooldownMs = Math.max(getRetryDelayMs(error) ?? getDefaultCooldownMs(), 1000);
+  state.rateLimited++;
+  state.lastError = error?.message;
+  state.cooldownUntil = Date.now() + cooldownMs;
+  return cooldownMs;
+}
+
+export function getUpstreamTargetHealth(target: UpstreamTarget): UpstreamKeyHealth {
+  const state = getTargetState(target);
+  const coolingDown = isCoolingDown(target);
+  return {
+    id: target.id,
+    type: target.type,
+    label: target.label,
+    status: coolingDown ? 'cooling_down' : 'healthy',
+    cooldown_until: coolingDown ? Math.ceil(state.cooldownUntil / 1000) : null,
+    requests: state.requests,
+    successes: state.successes,
+    rate_limited: state.rateLimited,
+    errors: state.errors,
+    ...(state.lastError ? { last_error: state.lastError } : {}),
+    ...(state.lastUsedAt ? { last_used_at: Math.floor(state.lastUsedAt / 1000) } : {}),
+  };
+}
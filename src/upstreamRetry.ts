@@ -0,0 +1,125 @@
+import { getRetryDelayMs, isRateLimitError } from './upstreamPool';
+
+// Retry policy for upstream Gemini calls: exponential backoff with jitter for transient failures,
+// and a deadline per proxied request that covers every attempt
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+}
+
+// Transient HTTP statuses: timeouts, rate limits and "model overloaded" / unavailable errors
+const TRANSIENT_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+// Network errors raised by fetch before Gemini sent a response
+const TRANSIENT_NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+
+// The Gemini SDK rethrows fetch failures as a plain Error without cause or code,
+// e.g. "exception TypeError: fetch failed sending request", so only the message identifies them
+const SDK_REQUEST_ERROR_PATTERN = /^exception .* sending request$/;
+const NETWORK_ERROR_MESSAGE_PATTERN = /fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN/;
+
+// Error for an upstream call that did not finish before the request deadline
+export class UpstreamTimeoutError extends Error {
+  status: number;
+
+  constructor(timeoutMs: number) {
+    super(`Gemini API request timed out after ${timeoutMs}ms`);
+    this.name = 'UpstreamTimeoutError';
+    this.status = 504;
+  }
+}
+
+function getIntegerEnv(name: string, defaultValue: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : defaultValue;
+}
+
+export function getRetryPolicy(): RetryPolicy {
+  return {
+    maxAttempts: Math.max(1, getIntegerEnv('GEMINI_RETRY_MAX_ATTEMPTS', 3)),
+    baseDelayMs: getIntegerEnv('GEMINI_RETRY_BASE_DELAY_MS', 500),
+    maxDelayMs: getIntegerEnv('GEMINI_RETRY_MAX_DELAY_MS', 10000),
+    timeoutMs: getIntegerEnv('GEMINI_REQUEST_TIMEOUT_MS', 300000),
+  };
+}
+
+// Helper function to get the HTTP status of a Gemini error (ApiError.status or "got status: 503" in the message)
+export function getErrorStatus(error: any): number | undefined {
+  if (typeof error?.status === 'number') {
+    return error.status;
+  }
+  const match = (error?.message ?? '').match(/got status:\s*(\d+)/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+// Helper function to tell whether Gemini could not be reached at all (no HTTP response)
+// Aborts are wrapped the same way by the SDK, but they come from the client or the request deadline
+export function isNetworkError(error: any): boolean {
+  const code = error?.cause?.code ?? error?.code;
+  if (TRANSIENT_NETWORK_ERROR_CODES.includes(code)) {
+    return true;
+  }
+  const message: string = typeof error?.message === 'string' ? error.message : '';
+  if (error?.name === 'AbortError' || message.includes('AbortError')) {
+    return false;
+  }
+  return SDK_REQUEST_ERROR_PATTERN.test(message) || NETWORK_ERROR_MESSAGE_PATTERN.test(message);
+}
+
+export function isTransientError(error: any): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return TRANSIENT_STATUS_CODES.includes(status);
+  }
+  return isRateLimitError(error) || isNetworkError(error);
+}
+
+// Delay before the next attempt, or undefined when the error must not be retried
+// attempt is the number of the attempt that just failed (starting at 1)
+export function getRetryBackoffMs(error: any, attempt: number, policy: RetryPolicy): number | undefined {
+  if (attempt >= policy.maxAttempts || !isTransientError(error)) {
+    return undefined;
+  }
+  // Equal jitter: half of the exponential delay is fixed, the other half random
+  const exponentialDelay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const backoffMs = Math.round(exponentialDelay / 2 + Math.random() * exponentialDelay / 2);
+  // Google's RetryInfo says when the request can succeed; waiting longer than the policy allows is a failure
+  const retryDelayMs = getRetryDelayMs(error);
+  if (retryDelayMs !== undefined) {
+    return retryDelayMs <= policy.maxDelayMs ? Math.max(backoffMs, retryDelayMs) : undefined;
+  }
+  return backoffMs;
+}
+
+// Signal for one upstream attempt: aborted when the client disconnects or the request deadline passes
+export function createAttemptSignal(clientSignal: AbortSignal | undefined, deadline: number | undefined): AbortSignal | undefined {
+  const signals: AbortSignal[] = [];
+  if (clientSignal) {
+    signals.push(clientSignal);
+  }
+  if (deadline !== undefined) {
+    signals.push(AbortSignal.timeout(Math.max(0, deadline - Date.now())));
+  }
+  return signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+}
+
+// Helper function to wait between attempts; resolves early when the signal aborts
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+// Helper function to pass an abort signal to a Gemini SDK call through its config
+export function withAbortSignal<T extends { config?: object }>(params: T, abortSignal: AbortSignal | undefined): T {
+  return abortSignal ? { ...params, config: { ...params.config, abortSignal } } : params;
+}
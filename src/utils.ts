@@ -3,11 +3,51 @@ import mime from 'mime';
 import dotenv from 'dotenv';
 import FormData from 'form-data';
 import axios from 'axios';
-import { OpenAIContentPart } from './types';
+import { Mp3Encoder } from '@breezystack/lamejs';
+import {
+  File as GeminiFile,
+  FileState,
+  FunctionCallingConfigMode,
+  FunctionDeclaration,
+  GenerateContentConfig,
+  GoogleGenAI,
+  GroundingMetadata,
+  Part,
+  Tool,
+  ToolConfig,
+} from '@google/genai';
+import {
+  AnthropicMessagesRequest,
+  AnthropicMessagesResponse,
+  AnthropicTool,
+  AnthropicToolChoice,
+  BucketServerHealth,
+  ModelRoute,
+  OpenAIChatCompletionRequest,
+  OpenAIContentPart,
+  TranscriptionSegment,
+  OpenAIFunctionTool,
+  OpenAIResponseFormat,
+  OpenAITool,
+  OpenAIToolCall,
+  OpenAIToolChoice,
+  ResponsesRequest,
+  ResponsesTextFormat,
+  ResponsesTool,
+  ResponsesToolChoice,
+  ResponsesUrlCitation,
+} from './types';
+import { MediaFetchKind, recordImageUpload, recordMediaFetch } from './metrics';
+import { createLogger } from './logger';
 
 // Load environment variables
 dotenv.config();
 
+const mediaLog = createLogger('media');
+const bucketLog = createLogger('bucket');
+const configLog = createLogger('config');
+const toolsLog = createLogger('tools');
+
 // Helper function to transform URLs for local development
 export function transformUrlForLocal(url: string): string {
   try {
@@ -27,28 +67,80 @@ export function transformUrlForLocal(url: string): string {
         parsedUrl.port = targetPort;
       }
       parsedUrl.protocol = targetProtocol;
-      console.log(`Transformed URL: ${url} -> ${parsedUrl.toString()}`);
+      mediaLog.debug('Transformed URL', { url, transformed_url: parsedUrl.toString() });
       return parsedUrl.toString();
     }
     
     // Return original URL if no transformation needed
     return url;
   } catch (error) {
-    console.warn(`Failed to parse URL for transformation: ${url}`, error);
+    mediaLog.warn('Failed to parse URL for transformation', { url, error });
     return url; // Return original URL if parsing fails
   }
 }
 
+// Helper function to decode a data URL (data:[<mime type>][;base64],<data>) locally
+export function parseDataUrl(dataUrl: string): { base64Data: string; mimeType: string } {
+  const match = /^data:([^,]*?),(.*)$/s.exec(dataUrl);
+  if (!match) {
+    throw new Error('Malformed data URL');
+  }
+  const metadata = match[1].split(';').map(item => item.trim());
+  const isBase64 = metadata.includes('base64');
+  const declaredMimeType = metadata[0] && metadata[0].includes('/') ? metadata[0].toLowerCase() : '';
+  const base64Data = isBase64
+    ? match[2].replace(/\s/g, '')
+    : Buffer.from(decodeURIComponent(match[2]), 'utf8').toString('base64');
+
+  if (!base64Data) {
+    throw new Error('Data URL contains no data');
+  }
+
+  // Trust the magic numbers over the declared type when they identify the content
+  const detectedMimeType = getMimeTypeFromBase64(base64Data);
+  if (detectedMimeType !== 'application/octet-stream') {
+    if (declaredMimeType && declaredMimeType !== detectedMimeType) {
+      mediaLog.warn('Data URL MIME type does not match its content, using the detected type', { declared_mime_type: declaredMimeType, detected_mime_type: detectedMimeType });
+    }
+    return { base64Data, mimeType: detectedMimeType };
+  }
+  return { base64Data, mimeType: declaredMimeType || 'application/octet-stream' };
+}
+
+// Helper function to shorten data URLs for log and error messages
+export function describeUrl(url: string): string {
+  if (!url.startsWith('data:')) {
+    return url;
+  }
+  const commaIndex = url.indexOf(',');
+  return `${url.substring(0, commaIndex === -1 ? 30 : commaIndex + 1)}... (${url.length} characters)`;
+}
+
+// Helper function to download media from a URL, recording its size and duration in the media fetch metrics
+async function downloadMedia(kind: MediaFetchKind, url: string): Promise<{ buffer: ArrayBuffer; contentType: string | null }> {
+  const startTime = performance.now();
+  try {
+    const response = await fetch(transformUrlForLocal(url));
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${kind}: ${response.status} ${response.statusText} from URL: ${url}`);
+    }
+    const buffer = await response.arrayBuffer();
+    recordMediaFetch(kind, 'success', (performance.now() - startTime) / 1000, buffer.byteLength);
+    return { buffer, contentType: response.headers.get('content-type') };
+  } catch (error) {
+    recordMediaFetch(kind, 'error', (performance.now() - startTime) / 1000);
+    throw error;
+  }
+}
+
 // Helper function to fetch file and convert to base64
 export async function fetchFileAsBase64(fileUrl: string): Promise<{ base64Data: string; mimeType: string }> {
-  const transformedUrl = transformUrlForLocal(fileUrl);
-  const response = await fetch(transformedUrl);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch file: ${response.status} ${response.statusText} from URL: ${fileUrl}`);
+  if (fileUrl.startsWith('data:')) {
+    return parseDataUrl(fileUrl);
   }
-  const fileBuffer = await response.arrayBuffer();
+  const { buffer: fileBuffer, contentType } = await downloadMedia('file', fileUrl);
   const base64Data = Buffer.from(fileBuffer).toString('base64');
-  let detectedMimeType = response.headers.get('content-type');
+  let detectedMimeType = contentType;
   if (!detectedMimeType) {
     // Try mime package
     const typeFromUrl = mime.getType(fileUrl);
@@ -65,15 +157,18 @@ export async function fetchFileAsBase64(fileUrl: string): Promise<{ base64Data:
 // Helper function to fetch image and convert to base64
 export async function fetchImageAsBase64(imageUrl: string): Promise<{ base64Data: string; mimeType: string }> {
   try {
-    const transformedUrl = transformUrlForLocal(imageUrl);
-    const response = await fetch(transformedUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch image: ${response.status} ${response.statusText} from URL: ${imageUrl}`);
+    if (imageUrl.startsWith('data:')) {
+      // Most OpenAI SDKs send images inline as data URLs
+      const { base64Data, mimeType } = parseDataUrl(imageUrl);
+      if (!mimeType.startsWith('image/')) {
+        throw new Error(`Data URL does not contain an image (detected ${mimeType})`);
+      }
+      return { base64Data, mimeType };
     }
-    const imageBuffer = await response.arrayBuffer();
+    const { buffer: imageBuffer, contentType } = await downloadMedia('image', imageUrl);
     const base64Data = Buffer.from(imageBuffer).toString('base64');
     
-    let detectedMimeType = response.headers.get('content-type');
+    let detectedMimeType = contentType;
     if (!detectedMimeType || !detectedMimeType.startsWith('image/')) {
       const typeFromUrl = mime.getType(imageUrl);
       if (typeFromUrl && typeFromUrl.startsWith('image/')) {
@@ -81,13 +176,13 @@ export async function fetchImageAsBase64(imageUrl: string): Promise<{ base64Data
       } else {
         // Fallback or throw error if essential. Common types: image/jpeg, image/png, image/webp, etc.
         // Gemini example used image/png. Let's default to jpeg if truly unknown.
-        console.warn(`Could not reliably determine MIME type for ${imageUrl}. Defaulting to image/jpeg.`);
+        mediaLog.warn('Could not reliably determine image MIME type, defaulting to image/jpeg', { url: describeUrl(imageUrl) });
         detectedMimeType = 'image/jpeg'; 
       }
     }
     return { base64Data, mimeType: detectedMimeType || 'image/jpeg' };
   } catch (error) {
-    console.error(`Error fetching image ${imageUrl}:`, error);
+    mediaLog.error('Error fetching image', { url: describeUrl(imageUrl), error });
     throw error; // Re-throw to be handled by the main error handler
   }
 }
@@ -142,14 +237,13 @@ export function getMimeTypeFromBase64(base64Data: string): string {
 // Helper function to resolve a single redirect URL
 export async function resolveRedirect(url: string): Promise<string> {
   if (!url.startsWith('http://') && !url.startsWith('https://')) {
-    // console.warn(`Skipping redirect resolution for non-HTTP/S URL: ${url}`);
     return url;
   }
   try {
     const response = await fetch(url, { method: 'GET', redirect: 'follow' });
     return response.url || url; // response.url should be the final URL after all redirects
   } catch (error) {
-    console.error(`Error resolving redirect for ${url}:`, error);
+    mediaLog.error('Error resolving redirect', { url, error });
     return url; // Return original URL in case of an error
   }
 }
@@ -157,7 +251,7 @@ export async function resolveRedirect(url: string): Promise<string> {
 // Function to resolve redirects with fallback for 403/405 errors
 export async function resolveRedirects(url: string, visitedUrls: Set<string> = new Set(), method: string = 'HEAD'): Promise<string> {
   if (visitedUrls.has(url)) {
-    console.error(`Circular redirect detected for URL: ${url}`);
+    mediaLog.error('Circular redirect detected', { url });
     return url; // Avoid infinite loops
   }
   visitedUrls.add(url);
@@ -180,7 +274,7 @@ export async function resolveRedirects(url: string, visitedUrls: Set<string> = n
         const redirectUrl = new URL(res.headers.location, url).toString();
         // Limit recursion depth if necessary, or rely on visitedUrls for cycles
         if (visitedUrls.size > 10) { // Max 10 redirects
-            console.error(`Max redirects exceeded for URL: ${url}`);
+            mediaLog.error('Max redirects exceeded', { url });
             resolve(url); // Return the last known URL before exceeding max redirects
             return;
         }
@@ -189,28 +283,28 @@ export async function resolveRedirects(url: string, visitedUrls: Set<string> = n
         resolve(url); // Final URL
       } else if ((res.statusCode === 405 || res.statusCode === 403) && method === 'HEAD') {
         // Try with GET method if HEAD failed with 405 (Method Not Allowed) or 403 (Forbidden)
-        console.warn(`${method} method failed with ${res.statusCode} for ${url}, trying GET method`);
+        mediaLog.warn(`${method} method failed, trying GET method`, { url, status: res.statusCode });
         // Remove from visitedUrls to allow retry with different method
         visitedUrls.delete(url);
         resolve(resolveRedirects(url, visitedUrls, 'GET'));
       } else if (res.statusCode === 403 || res.statusCode === 405) {
         // If GET also fails with 403/405, just return the original URL
-        console.warn(`Access denied or method not allowed for URL: ${url}, Status: ${res.statusCode}. Returning original URL.`);
+        mediaLog.warn('Access denied or method not allowed, returning original URL', { url, status: res.statusCode });
         resolve(url);
       } else {
-        console.error(`Failed to resolve URL: ${url}, Status: ${res.statusCode}`);
+        mediaLog.error('Failed to resolve URL', { url, status: res.statusCode });
         resolve(url); // Return original URL on error or other non-redirect/success status
       }
     });
 
     req.on('error', (e) => {
-      console.error(`Error resolving URL ${url}: ${e.message}`);
+      mediaLog.error('Error resolving URL', { url, error: e });
       resolve(url); // Return original URL on request error
     });
 
     // Set a timeout to avoid hanging requests
     req.setTimeout(5000, () => {
-      console.warn(`Timeout resolving URL: ${url}. Returning original URL.`);
+      mediaLog.warn('Timeout resolving URL, returning original URL', { url });
       req.destroy();
       resolve(url);
     });
@@ -219,6 +313,27 @@ export async function resolveRedirects(url: string, visitedUrls: Set<string> = n
   });
 }
 
+// Map items with at most `limit` calls in flight, keeping results in input order
+// After the first failure no new calls are started and that error is thrown
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  let failed = false;
+  const worker = async (): Promise<void> => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
 // Helper function to process grounding chunks and add resolved URIs
 export async function getResolvedGroundingChunks(groundingChunks: any[] | undefined): Promise<any[] | undefined> {
   if (!groundingChunks) {
@@ -244,22 +359,17 @@ export async function getResolvedGroundingChunks(groundingChunks: any[] | undefi
 // Helper function to fetch audio and convert to base64
 export async function fetchAudioAsBase64(audioUrl: string): Promise<{ base64Data: string; mimeType: string }> {
   try {
-    const transformedUrl = transformUrlForLocal(audioUrl);
-    const response = await fetch(transformedUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch audio: ${response.status} ${response.statusText} from URL: ${audioUrl}`);
-    }
-    const audioBuffer = await response.arrayBuffer();
+    const { buffer: audioBuffer, contentType } = await downloadMedia('audio', audioUrl);
     const base64Data = Buffer.from(audioBuffer).toString('base64');
     
-    let detectedMimeType = response.headers.get('content-type');
+    let detectedMimeType = contentType;
     // Basic validation for audio MIME types
     if (!detectedMimeType || !detectedMimeType.startsWith('audio/')) {
       const typeFromUrl = mime.getType(audioUrl);
       if (typeFromUrl && typeFromUrl.startsWith('audio/')) {
         detectedMimeType = typeFromUrl;
       } else {
-        console.warn(`Could not reliably determine MIME type for ${audioUrl}. Attempting to default based on extension or to a generic audio type.`);
+        mediaLog.warn('Could not reliably determine audio MIME type, falling back to the file extension', { url: describeUrl(audioUrl) });
         // Attempt to infer from common audio extensions if mime.getType failed or was not specific enough
         if (audioUrl.endsWith('.mp3')) detectedMimeType = 'audio/mpeg';
         else if (audioUrl.endsWith('.wav')) detectedMimeType = 'audio/wav';
@@ -270,17 +380,184 @@ export async function fetchAudioAsBase64(audioUrl: string): Promise<{ base64Data
         else {
             // Fallback to a generic audio type if still unknown, though Gemini might prefer more specific types
             detectedMimeType = 'application/octet-stream'; // Or handle as an error
-             console.warn(`Using fallback MIME type ${detectedMimeType} for ${audioUrl}. Specific audio type preferred.`);
+            mediaLog.warn('Using fallback audio MIME type', { url: describeUrl(audioUrl), mime_type: detectedMimeType });
         }
       }
     }
     return { base64Data, mimeType: detectedMimeType || 'application/octet-stream' };
   } catch (error) {
-    console.error(`Error fetching audio ${audioUrl}:`, error);
+    mediaLog.error('Error fetching audio', { url: describeUrl(audioUrl), error });
     throw error; // Re-throw to be handled by the main error handler
   }
 }
 
+// Helper function to read the sample rate from a PCM MIME type ('audio/L16;codec=pcm;rate=24000')
+export function getSampleRateFromMimeType(mimeType: string, defaultRate: number = 24000): number {
+  const match = /rate=(\d+)/i.exec(mimeType);
+  return match ? parseInt(match[1], 10) : defaultRate;
+}
+
+// Helper function to wrap 16-bit little-endian PCM in a WAV container
+export function encodePcmAsWav(pcm: Buffer, sampleRate: number, channels: number = 1): Buffer {
+  const bitsPerSample = 16;
+  const byteRate = sampleRate * channels * bitsPerSample / 8;
+  const blockAlign = channels * bitsPerSample / 8;
+  const header = Buffer.alloc(44);
+
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(1, 20); // PCM format
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(byteRate, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(bitsPerSample, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(pcm.length, 40);
+
+  return Buffer.concat([header, pcm]);
+}
+
+// Helper function to encode 16-bit little-endian mono PCM as MP3
+export function encodePcmAsMp3(pcm: Buffer, sampleRate: number, kbps: number = 128): Buffer {
+  // Int16Array views need an even byte offset, so copy misaligned buffers first
+  const alignedPcm = pcm.byteOffset % 2 === 0 ? pcm : Buffer.from(pcm);
+  const samples = new Int16Array(alignedPcm.buffer, alignedPcm.byteOffset, Math.floor(alignedPcm.length / 2));
+  const encoder = new Mp3Encoder(1, sampleRate, kbps);
+  const mp3Chunks: Buffer[] = [];
+  const frameSize = 1152; // Samples per MP3 frame
+
+  for (let i = 0; i < samples.length; i += frameSize) {
+    const encoded = encoder.encodeBuffer(samples.subarray(i, i + frameSize));
+    if (encoded.length > 0) {
+      mp3Chunks.push(Buffer.from(encoded.buffer, encoded.byteOffset, encoded.length));
+    }
+  }
+  const flushed = encoder.flush();
+  if (flushed.length > 0) {
+    mp3Chunks.push(Buffer.from(flushed.buffer, flushed.byteOffset, flushed.length));
+  }
+
+  return Buffer.concat(mp3Chunks);
+}
+
+// Helper function to format seconds as a subtitle timestamp (00:01:02,500 for SRT, 00:01:02.500 for VTT)
+export function formatSubtitleTimestamp(seconds: number, decimalSeparator: ',' | '.'): string {
+  const totalMilliseconds = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMilliseconds / 3600000);
+  const minutes = Math.floor((totalMilliseconds % 3600000) / 60000);
+  const secs = Math.floor((totalMilliseconds % 60000) / 1000);
+  const milliseconds = totalMilliseconds % 1000;
+  const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${decimalSeparator}${pad(milliseconds, 3)}`;
+}
+
+// Helper function to build SubRip subtitles from transcription segments
+export function buildSrtSubtitles(segments: TranscriptionSegment[]): string {
+  return segments
+    .map((segment, i) => `${i + 1}\n${formatSubtitleTimestamp(segment.start, ',')} --> ${formatSubtitleTimestamp(segment.end, ',')}\n${segment.text.trim()}\n`)
+    .join('\n');
+}
+
+// Helper function to build WebVTT subtitles from transcription segments
+export function buildVttSubtitles(segments: TranscriptionSegment[]): string {
+  const cues = segments
+    .map(segment => `${formatSubtitleTimestamp(segment.start, '.')} --> ${formatSubtitleTimestamp(segment.end, '.')}\n${segment.text.trim()}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${cues}`;
+}
+
+// Helper function to get the MIME type of an OpenAI input_audio format
+export function getMimeTypeFromAudioFormat(format: string): string {
+  const mimeTypes: Record<string, string> = {
+    wav: 'audio/wav',
+    mp3: 'audio/mp3',
+    aiff: 'audio/aiff',
+    aac: 'audio/aac',
+    ogg: 'audio/ogg',
+    flac: 'audio/flac',
+    m4a: 'audio/mp4',
+    webm: 'audio/webm',
+  };
+  return mimeTypes[format.toLowerCase()] || `audio/${format.toLowerCase()}`;
+}
+
+// Media larger than this is uploaded through the Gemini Files API instead of being sent inline
+// (Gemini rejects requests with more than 20MB of inline data)
+export function getFilesApiThresholdBytes(): number {
+  const threshold = parseInt(process.env.FILES_API_THRESHOLD_BYTES || '', 10);
+  return Number.isFinite(threshold) && threshold >= 0 ? threshold : 10 * 1024 * 1024;
+}
+
+// Helper function to convert an OpenAI-style file id to a Gemini file resource name
+export function toGeminiFileName(fileId: string): string {
+  return fileId.startsWith('files/') ? fileId : `files/${fileId}`;
+}
+
+// Helper function to wait until an uploaded Gemini file has finished processing
+export async function waitForFileActive(genAI: GoogleGenAI, file: GeminiFile, timeoutMs: number = 300000, intervalMs: number = 2000): Promise<GeminiFile> {
+  const deadline = Date.now() + timeoutMs;
+  let current = file;
+  while (current.state !== FileState.ACTIVE) {
+    if (current.state === FileState.FAILED) {
+      throw new Error(`Gemini failed to process file ${current.name}: ${current.error?.message || 'unknown error'}`);
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for file ${current.name} to become ACTIVE (state: ${current.state})`);
+    }
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+    current = await genAI.files.get({ name: current.name! });
+  }
+  return current;
+}
+
+// Helper function to upload data through the Gemini Files API and wait until it can be used
+export async function uploadBufferToGeminiFiles(genAI: GoogleGenAI, data: Buffer, mimeType: string, displayName?: string): Promise<GeminiFile> {
+  mediaLog.info('Uploading to the Gemini Files API', { bytes: data.length, mime_type: mimeType });
+  const uploaded = await genAI.files.upload({
+    file: new Blob([data], { type: mimeType }),
+    config: { mimeType, ...(displayName ? { displayName } : {}) },
+  });
+  const activeFile = await waitForFileActive(genAI, uploaded);
+  mediaLog.info('Gemini file is ACTIVE', { name: activeFile.name, uri: activeFile.uri });
+  return activeFile;
+}
+
+// Helper function to join the visible text of Gemini response parts, skipping thought summaries
+export function extractTextFromParts(parts: Part[]): string {
+  return parts.filter(part => !part.thought).map(part => part.text).filter(Boolean).join('');
+}
+
+// Helper function to join the thought summaries of Gemini response parts (present when includeThoughts is set)
+export function extractReasoningFromParts(parts: Part[]): string {
+  return parts.filter(part => part.thought).map(part => part.text).filter(Boolean).join('');
+}
+
+// Helper function to get the bucket server upload URL
+// BUCKET_API_URL takes precedence; otherwise it is built from the TRANSFORM_TARGET_* variables
+export function getBucketUploadUrl(): string {
+  let bucketUrl: string;
+  if (process.env.BUCKET_API_URL) {
+    // Use the direct API URL if provided (should already include /upload endpoint)
+    bucketUrl = process.env.BUCKET_API_URL;
+  } else {
+    // Fallback to legacy environment variables and construct upload endpoint
+    const bucketProtocol = process.env.TRANSFORM_TARGET_PROTOCOL || 'http:';
+    const bucketHostname = process.env.TRANSFORM_TARGET_HOSTNAME || 'localhost';
+    const bucketPort = process.env.TRANSFORM_TARGET_PORT || '3003';
+    bucketUrl = `${bucketProtocol}//${bucketHostname}:${bucketPort}/upload`;
+  }
+
+  // Ensure the URL ends with /upload if not already present
+  if (!bucketUrl.endsWith('/upload')) {
+    bucketUrl = bucketUrl.replace(/\/$/, '') + '/upload';
+  }
+  return bucketUrl;
+}
+
 // Helper function to upload base64 image to bucket server
 export async function uploadImageToBucket(base64Data: string, mimeType: string, filename?: string): Promise<string> {
   try {
@@ -300,29 +577,10 @@ export async function uploadImageToBucket(base64Data: string, mimeType: string,
       contentType: mimeType,
     });
     
-    // Get bucket server configuration from environment variables
-    const bucketApiUrl = process.env.BUCKET_API_URL;
     const bucketApiKey = process.env.BUCKET_API_KEY;
+    const bucketUrl = getBucketUploadUrl();
     
-    // Build upload URL
-    let bucketUrl: string;
-    if (bucketApiUrl) {
-      // Use the direct API URL if provided (should already include /upload endpoint)
-      bucketUrl = bucketApiUrl;
-    } else {
-      // Fallback to legacy environment variables and construct upload endpoint
-      const bucketProtocol = process.env.TRANSFORM_TARGET_PROTOCOL || 'http:';
-      const bucketHostname = process.env.TRANSFORM_TARGET_HOSTNAME || 'localhost';
-      const bucketPort = process.env.TRANSFORM_TARGET_PORT || '3003';
-      bucketUrl = `${bucketProtocol}//${bucketHostname}:${bucketPort}/upload`;
-    }
-    
-    // Ensure the URL ends with /upload if not already present
-    if (!bucketUrl.endsWith('/upload')) {
-      bucketUrl = bucketUrl.replace(/\/$/, '') + '/upload';
-    }
-    
-    console.log(`Uploading image to bucket server: ${bucketUrl}`);
+    bucketLog.info('Uploading image to bucket server', { url: bucketUrl });
     
     // Prepare headers
     const headers = formData.getHeaders();
@@ -337,26 +595,24 @@ export async function uploadImageToBucket(base64Data: string, mimeType: string,
     
     const result = response.data as any;
     
-    console.log('Bucket server response:', JSON.stringify(result, null, 2));
-    console.log('Response status:', response.status);
-    console.log('Response headers:', response.headers);
+    bucketLog.debug('Bucket server response', { status: response.status, headers: response.headers, body: result });
     
     // Check for different possible response formats
     if (result && result.fileUrl) {
       // Format: {message: "...", fileUrl: "..."}
-      console.log(`Image uploaded successfully: ${result.fileUrl}`);
+      bucketLog.info('Image uploaded successfully', { url: result.fileUrl });
       return result.fileUrl;
     } else if (result && result.success === true && result.url) {
       // Format: {success: true, url: "..."}
-      console.log(`Image uploaded successfully: ${result.url}`);
+      bucketLog.info('Image uploaded successfully', { url: result.url });
       return result.url;
     } else if (result && result.url) {
       // Format: {url: "..."}
-      console.log(`Image uploaded successfully (no success field): ${result.url}`);
+      bucketLog.info('Image uploaded successfully (no success field)', { url: result.url });
       return result.url;
     } else if (typeof result === 'string' && result.startsWith('http')) {
       // Format: "http://..."
-      console.log(`Image uploaded successfully (URL string): ${result}`);
+      bucketLog.info('Image uploaded successfully (URL string)', { url: result });
       return result;
     } else {
       throw new Error(`Bucket server upload failed: ${result?.error || result?.message || 'Unknown response format'}`);
@@ -370,10 +626,10 @@ export async function uploadImageToBucket(base64Data: string, mimeType: string,
       const statusText = error.response.statusText || 'Unknown Error';
       const errorData = error.response.data;
       const errorMessage = typeof errorData === 'object' ? JSON.stringify(errorData) : errorData;
-      console.error('Error uploading image to bucket:', `${statusCode} ${statusText} - ${errorMessage}`);
+      bucketLog.error('Error uploading image to bucket', { status: statusCode, status_text: statusText, response: errorMessage });
       throw new Error(`Failed to upload image to bucket: ${statusCode} ${statusText} - ${errorMessage}`);
     } else {
-      console.error('Error uploading image to bucket:', error);
+      bucketLog.error('Error uploading image to bucket', { error });
       throw error;
     }
   }
@@ -406,6 +662,10 @@ export async function processGeminiResponseParts(parts: any[]): Promise<OpenAICo
   const processedParts: OpenAIContentPart[] = [];
   
   for (const part of parts) {
+    // Thought parts (including interim images from thinking image models) are returned as reasoning_content
+    if (part.thought) {
+      continue;
+    }
     if (isGeminiImagePart(part)) {
       try {
         // Upload the base64 image to bucket server (with fallback)
@@ -422,9 +682,9 @@ export async function processGeminiResponseParts(parts: any[]): Promise<OpenAICo
           },
         });
         
-        console.log(`Successfully processed image part: ${imageUrl.startsWith('data:') ? 'data URL' : 'uploaded URL'}`);
+        bucketLog.info('Processed image part', { source: imageUrl.startsWith('data:') ? 'data_url' : 'uploaded_url' });
       } catch (error) {
-        console.error('Failed to process image part:', error);
+        bucketLog.error('Failed to process image part', { error });
         // Add error message as text part
         processedParts.push({
           type: 'text',
@@ -443,37 +703,689 @@ export async function processGeminiResponseParts(parts: any[]): Promise<OpenAICo
   return processedParts;
 }
 
-// Helper function to check if bucket server is available
-export async function checkBucketServerHealth(): Promise<boolean> {
+// Aspect ratios supported by Gemini image models and by Imagen
+export const GEMINI_IMAGE_ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+export const IMAGEN_ASPECT_RATIOS = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+// Helper function to map an OpenAI size ('1792x1024') to the closest supported aspect ratio
+export function convertImageSizeToAspectRatio(size: string, supportedRatios: string[]): string | undefined {
+  if (size === 'auto') {
+    return undefined;
+  }
+  const match = /^(\d+)x(\d+)$/.exec(size);
+  if (!match) {
+    throw new Error(`Invalid size: ${size}. Expected 'WIDTHxHEIGHT' (e.g. '1024x1024') or 'auto'.`);
+  }
+  const requestedRatio = parseInt(match[1], 10) / parseInt(match[2], 10);
+  if (!Number.isFinite(requestedRatio) || requestedRatio <= 0) {
+    throw new Error(`Invalid size: ${size}.`);
+  }
+
+  // Compare on a log scale so that 2:1 and 1:2 are equally far from 1:1
+  let closestRatio = supportedRatios[0];
+  let closestDistance = Infinity;
+  for (const ratio of supportedRatios) {
+    const [width, height] = ratio.split(':').map(Number);
+    const distance = Math.abs(Math.log(width / height) - Math.log(requestedRatio));
+    if (distance < closestDistance) {
+      closestDistance = distance;
+      closestRatio = ratio;
+    }
+  }
+  return closestRatio;
+}
+
+// Helper function to check if the bucket server is reachable at the URL images are uploaded to
+// Any response below 500 counts: the upload endpoint may answer a GET with 404, 405 or 401
+export async function checkBucketServerHealth(timeoutMs: number): Promise<BucketServerHealth> {
+  const bucketUrl = getBucketUploadUrl();
+  const startTime = performance.now();
   try {
-    // Simple check - just verify the bucket server responds at the base URL
-    const bucketProtocol = process.env.TRANSFORM_TARGET_PROTOCOL || 'http:';
-    const bucketHostname = process.env.TRANSFORM_TARGET_HOSTNAME || 'localhost';
-    const bucketPort = process.env.TRANSFORM_TARGET_PORT || '3003';
-    
-    const bucketUrl = `${bucketProtocol}//${bucketHostname}:${bucketPort}`;
-    
     const response = await fetch(bucketUrl, {
       method: 'GET',
-      headers: { 'User-Agent': 'gemini-reverse-proxy' }
+      headers: { 'User-Agent': 'gemini-reverse-proxy' },
+      signal: AbortSignal.timeout(timeoutMs),
     });
-    
-    // Check if server responds with any successful status
-    return response.ok;
-  } catch (error) {
-    console.warn('Bucket server health check failed:', error instanceof Error ? error.message : error);
-    return false;
+    await response.body?.cancel();
+    return {
+      reachable: response.status < 500,
+      url: bucketUrl,
+      status_code: response.status,
+      latency_ms: Math.round(performance.now() - startTime),
+      checked_at: Math.floor(Date.now() / 1000),
+    };
+  } catch (error: any) {
+    bucketLog.debug('Bucket server health check failed', { url: bucketUrl, error });
+    return {
+      reachable: false,
+      url: bucketUrl,
+      error: error?.name === 'TimeoutError' ? `No response within ${timeoutMs}ms` : error?.cause?.code || error?.message || String(error),
+      latency_ms: Math.round(performance.now() - startTime),
+      checked_at: Math.floor(Date.now() / 1000),
+    };
   }
 }
 
 // Enhanced image upload with fallback handling
 export async function uploadImageToBucketWithFallback(base64Data: string, mimeType: string, filename?: string): Promise<string> {
   try {
-    return await uploadImageToBucket(base64Data, mimeType, filename);
+    const imageUrl = await uploadImageToBucket(base64Data, mimeType, filename);
+    recordImageUpload('uploaded');
+    return imageUrl;
   } catch (uploadError) {
-    console.warn('Image upload failed, falling back to data URL:', uploadError instanceof Error ? uploadError.message : uploadError);
+    bucketLog.warn('Image upload failed, falling back to data URL', { error: uploadError });
+    recordImageUpload('fallback');
     
     // Fallback: return data URL (not ideal for production but useful for testing)
     return `data:${mimeType};base64,${base64Data}`;
   }
 }
+
+
+// Helper function to read the model routing table from the MODEL_ALIASES environment variable
+// Format: a JSON object mapping alias -> Gemini model, or alias -> route with fallbacks and defaults, e.g.
+// {"gpt-4o": "gemini-2.5-pro", "fast": {"model": "gemini-2.5-flash", "fallbacks": ["gemini-2.5-flash-lite"]}}
+export function getModelRoutes(): Record<string, ModelRoute> {
+  const rawAliases = process.env.MODEL_ALIASES;
+  if (!rawAliases) {
+    return {};
+  }
+  try {
+    const aliases = JSON.parse(rawAliases);
+    if (!aliases || typeof aliases !== 'object' || Array.isArray(aliases)) {
+      configLog.warn('MODEL_ALIASES must be a JSON object mapping alias names to Gemini models. Ignoring.');
+      return {};
+    }
+    const routes: Record<string, ModelRoute> = {};
+    for (const [alias, target] of Object.entries<any>(aliases)) {
+      if (typeof target === 'string' && target) {
+        routes[alias] = { model: target };
+      } else if (target && typeof target === 'object' && typeof target.model === 'string' && target.model) {
+        routes[alias] = {
+          ...target,
+          fallbacks: Array.isArray(target.fallbacks) ? target.fallbacks.filter((model: unknown) => typeof model === 'string' && model) : undefined,
+        };
+      } else {
+        configLog.warn('MODEL_ALIASES entry must be a model name or an object with a model. Ignoring.', { alias });
+      }
+    }
+    return routes;
+  } catch (error) {
+    configLog.warn('Failed to parse MODEL_ALIASES, ignoring', { error });
+    return {};
+  }
+}
+
+// Helper function to map every alias to the Gemini model it resolves to
+export function getModelAliases(): Record<string, string> {
+  return Object.fromEntries(Object.entries(getModelRoutes()).map(([alias, route]) => [alias, route.model]));
+}
+
+export function getModelRoute(model: string): ModelRoute | undefined {
+  return getModelRoutes()[model];
+}
+
+// Helper function to resolve a model alias to the real Gemini model name
+export function resolveModelAlias(model: string): string {
+  return getModelAliases()[model] ?? model;
+}
+
+// Helper function to encode an embedding the way OpenAI does for encoding_format 'base64'
+// (little-endian float32 values)
+export function encodeEmbeddingAsBase64(values: number[]): string {
+  const buffer = Buffer.alloc(values.length * 4);
+  values.forEach((value, i) => buffer.writeFloatLE(value, i * 4));
+  return buffer.toString('base64');
+}
+
+// Helper function to check if a tool is an OpenAI-style function tool
+export function isOpenAIFunctionTool(tool: any): tool is OpenAIFunctionTool {
+  return tool?.type === 'function' && typeof tool?.function === 'object';
+}
+
+// Convert OpenAI tools to Gemini tools
+// Function tools are collected into a single functionDeclarations tool; Gemini-native tools
+// (googleSearch, codeExecution, ...) are passed through unchanged
+export function convertOpenAIToolsToGemini(tools: OpenAITool[]): Tool[] {
+  const functionDeclarations: FunctionDeclaration[] = [];
+  const geminiTools: Tool[] = [];
+
+  for (const tool of tools) {
+    if (!tool || typeof tool !== 'object') continue;
+
+    if (isOpenAIFunctionTool(tool)) {
+      if (!tool.function.name) {
+        toolsLog.warn('Skipping function tool without a name', { tool });
+        continue;
+      }
+      functionDeclarations.push({
+        name: tool.function.name,
+        description: tool.function.description,
+        // Gemini accepts the OpenAI JSON Schema as-is through parametersJsonSchema
+        ...(tool.function.parameters ? { parametersJsonSchema: tool.function.parameters } : {}),
+      });
+      continue;
+    }
+
+    // A valid native tool must have at least one property (googleSearch, codeExecution, etc.)
+    const hasValidProperty = Object.keys(tool).length > 0 &&
+      Object.values(tool).some(v => v !== undefined && v !== null);
+    if (hasValidProperty) {
+      geminiTools.push(tool as Tool);
+    }
+  }
+
+  if (functionDeclarations.length > 0) {
+    geminiTools.unshift({ functionDeclarations });
+  }
+  return geminiTools;
+}
+
+// Convert OpenAI tool_choice to Gemini toolConfig
+export function convertToolChoiceToGemini(toolChoice: OpenAIToolChoice): ToolConfig | undefined {
+  if (toolChoice === 'none') {
+    return { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } };
+  }
+  if (toolChoice === 'auto') {
+    return { functionCallingConfig: { mode: FunctionCallingConfigMode.AUTO } };
+  }
+  if (toolChoice === 'required') {
+    return { functionCallingConfig: { mode: FunctionCallingConfigMode.ANY } };
+  }
+  if (typeof toolChoice === 'object' && toolChoice?.function?.name) {
+    return {
+      functionCallingConfig: {
+        mode: FunctionCallingConfigMode.ANY,
+        allowedFunctionNames: [toolChoice.function.name],
+      },
+    };
+  }
+  toolsLog.warn('Unsupported tool_choice value, ignoring', { tool_choice: toolChoice });
+  return undefined;
+}
+
+// Generate an OpenAI-style tool call id for Gemini function calls that have none
+export function generateToolCallId(): string {
+  return 'call_' + Date.now().toString(36) + Math.random().toString(36).substring(2, 15);
+}
+
+// Convert Gemini functionCall parts to OpenAI tool calls
+export function extractToolCallsFromParts(parts: Part[]): OpenAIToolCall[] {
+  return parts
+    .filter(part => part.functionCall)
+    .map(part => ({
+      id: part.functionCall!.id || generateToolCallId(),
+      type: 'function' as const,
+      function: {
+        name: part.functionCall!.name || '',
+        arguments: JSON.stringify(part.functionCall!.args ?? {}),
+      },
+      ...(part.thoughtSignature ? { extra_content: { google: { thought_signature: part.thoughtSignature } } } : {}),
+    }));
+}
+
+// Convert an OpenAI assistant tool call back to a Gemini functionCall part
+export function convertToolCallToGeminiPart(toolCall: OpenAIToolCall): Part {
+  let args: Record<string, unknown> = {};
+  if (toolCall.function.arguments) {
+    try {
+      args = JSON.parse(toolCall.function.arguments);
+    } catch (error) {
+      throw new Error(`Invalid JSON in arguments of tool call ${toolCall.id}`);
+    }
+  }
+  const thoughtSignature = toolCall.extra_content?.google?.thought_signature;
+  return {
+    functionCall: {
+      name: toolCall.function.name,
+      args,
+    },
+    ...(thoughtSignature ? { thoughtSignature } : {}),
+  };
+}
+
+// Convert the content of an OpenAI tool message to a Gemini functionResponse part
+export function convertToolResultToGeminiPart(name: string, content: string | OpenAIContentPart[] | null | undefined): Part {
+  const text = typeof content === 'string'
+    ? content
+    : (content || []).map(p => (p.type === 'text' ? p.text : '')).join('');
+
+  // Gemini expects the function response to be a JSON object
+  let response: Record<string, unknown>;
+  try {
+    const parsed = JSON.parse(text);
+    response = parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : { result: parsed };
+  } catch {
+    response = { result: text };
+  }
+  return { functionResponse: { name, response } };
+}
+
+// JSON Schema keywords OpenAI accepts that Gemini's responseJsonSchema cannot express
+const UNSUPPORTED_GEMINI_SCHEMA_KEYWORDS = [
+  'allOf',
+  'not',
+  'if',
+  'then',
+  'else',
+  'patternProperties',
+  'dependentRequired',
+  'dependentSchemas',
+  'unevaluatedProperties',
+  'unevaluatedItems',
+  'contains',
+];
+
+// Translate an OpenAI JSON Schema into one Gemini accepts
+// - `definitions` becomes `$defs` (and `$ref`s pointing into it are rewritten)
+// - `const` becomes a single-value `enum`
+// - `$schema` is dropped
+// Throws with the offending path when the schema uses keywords Gemini rejects
+export function translateJsonSchemaForGemini(schema: any, path: string = 'schema'): any {
+  if (Array.isArray(schema)) {
+    return schema.map((item, index) => translateJsonSchemaForGemini(item, `${path}[${index}]`));
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+
+  const translated: Record<string, any> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (UNSUPPORTED_GEMINI_SCHEMA_KEYWORDS.includes(key)) {
+      throw new Error(`JSON Schema keyword '${key}' at ${path} is not supported by Gemini`);
+    }
+    if (key === '$schema') {
+      continue;
+    }
+    if (key === 'const') {
+      translated.enum = [value];
+      continue;
+    }
+    if (key === '$ref' && typeof value === 'string') {
+      translated.$ref = value.replace(/^#\/definitions\//, '#/$defs/');
+      continue;
+    }
+    if (key === 'definitions' || key === '$defs') {
+      translated.$defs = { ...translated.$defs, ...translateSchemaMap(value, `${path}.${key}`) };
+      continue;
+    }
+    if (key === 'properties') {
+      // Property names are user data, not keywords
+      translated.properties = translateSchemaMap(value, `${path}.properties`);
+      continue;
+    }
+    translated[key] = translateJsonSchemaForGemini(value, `${path}.${key}`);
+  }
+  return translated;
+}
+
+// Translate every subschema of a name -> schema map (properties, $defs)
+function translateSchemaMap(schemas: any, path: string): Record<string, any> {
+  if (!schemas || typeof schemas !== 'object') {
+    return schemas;
+  }
+  const translated: Record<string, any> = {};
+  for (const [name, subschema] of Object.entries(schemas)) {
+    translated[name] = translateJsonSchemaForGemini(subschema, `${path}.${name}`);
+  }
+  return translated;
+}
+
+// Convert OpenAI response_format to Gemini responseMimeType/responseJsonSchema
+export function convertResponseFormatToGemini(responseFormat: OpenAIResponseFormat): { responseMimeType: string; responseJsonSchema?: unknown } {
+  switch (responseFormat.type) {
+    case 'text':
+      return { responseMimeType: 'text/plain' };
+    case 'json_object':
+      return { responseMimeType: 'application/json' };
+    case 'json_schema': {
+      const schema = responseFormat.json_schema?.schema;
+      if (!schema || typeof schema !== 'object') {
+        throw new Error('response_format.json_schema.schema must be a JSON Schema object');
+      }
+      return {
+        responseMimeType: 'application/json',
+        responseJsonSchema: translateJsonSchemaForGemini(schema, 'response_format.json_schema.schema'),
+      };
+    }
+    default:
+      throw new Error(`Unsupported response_format type: ${(responseFormat as any).type}. Supported types are 'text', 'json_object' and 'json_schema'.`);
+  }
+}
+
+// Error for a request parameter with an invalid value, reported as an OpenAI invalid_request_error
+export class InvalidParameterError extends Error {
+  param: string;
+
+  constructor(param: string, message: string) {
+    super(message);
+    this.name = 'InvalidParameterError';
+    this.param = param;
+  }
+}
+
+// Helper function to validate an optional numeric parameter
+function validateNumberParam(param: string, value: unknown, min: number, max: number, integer: boolean = false): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new InvalidParameterError(param, `Invalid type for '${param}': expected a number, but got ${typeof value} instead.`);
+  }
+  if (integer && !Number.isInteger(value)) {
+    throw new InvalidParameterError(param, `Invalid type for '${param}': expected an integer, but got a decimal number instead.`);
+  }
+  if (value < min) {
+    throw new InvalidParameterError(param, `Invalid '${param}': value below minimum. Expected a value >= ${min}, but got ${value} instead.`);
+  }
+  if (value > max) {
+    throw new InvalidParameterError(param, `Invalid '${param}': value above maximum. Expected a value <= ${max}, but got ${value} instead.`);
+  }
+  return value;
+}
+
+// Maximum number of stop sequences and candidates Gemini accepts
+const MAX_STOP_SEQUENCES = 5;
+const MAX_CANDIDATE_COUNT = 8;
+
+// Convert OpenAI sampling parameters to GenerateContentConfig fields
+// Throws InvalidParameterError for out-of-range or mistyped values
+export function convertSamplingParamsToGemini(request: OpenAIChatCompletionRequest): GenerateContentConfig {
+  const config: GenerateContentConfig = {};
+
+  // temperature itself is set by the caller (defaulting to 1), but is validated here
+  validateNumberParam('temperature', request.temperature, 0, 2);
+
+  const maxTokens = validateNumberParam('max_completion_tokens', request.max_completion_tokens, 1, Number.MAX_SAFE_INTEGER, true)
+    ?? validateNumberParam('max_tokens', request.max_tokens, 1, Number.MAX_SAFE_INTEGER, true);
+  if (maxTokens !== undefined) {
+    config.maxOutputTokens = maxTokens;
+  }
+
+  const topP = validateNumberParam('top_p', request.top_p, 0, 1);
+  if (topP !== undefined) {
+    config.topP = topP;
+  }
+
+  if (request.stop !== undefined && request.stop !== null) {
+    const stopSequences = typeof request.stop === 'string' ? [request.stop] : request.stop;
+    if (!Array.isArray(stopSequences) || stopSequences.some(seq => typeof seq !== 'string')) {
+      throw new InvalidParameterError('stop', `Invalid type for 'stop': expected a string or an array of strings.`);
+    }
+    if (stopSequences.length > MAX_STOP_SEQUENCES) {
+      throw new InvalidParameterError('stop', `Invalid 'stop': array too long. Expected an array with maximum length ${MAX_STOP_SEQUENCES}, but got an array with length ${stopSequences.length} instead.`);
+    }
+    if (stopSequences.length > 0) {
+      config.stopSequences = stopSequences;
+    }
+  }
+
+  const seed = validateNumberParam('seed', request.seed, Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER, true);
+  if (seed !== undefined) {
+    config.seed = seed;
+  }
+
+  const presencePenalty = validateNumberParam('presence_penalty', request.presence_penalty, -2, 2);
+  if (presencePenalty !== undefined) {
+    config.presencePenalty = presencePenalty;
+  }
+
+  const frequencyPenalty = validateNumberParam('frequency_penalty', request.frequency_penalty, -2, 2);
+  if (frequencyPenalty !== undefined) {
+    config.frequencyPenalty = frequencyPenalty;
+  }
+
+  const n = validateNumberParam('n', request.n, 1, MAX_CANDIDATE_COUNT, true);
+  if (n !== undefined && n > 1) {
+    config.candidateCount = n;
+  }
+
+  return config;
+}
+
+// Convert Anthropic Messages sampling parameters to GenerateContentConfig fields
+// Throws InvalidParameterError for missing, out-of-range or mistyped values
+export function convertAnthropicSamplingParamsToGemini(request: AnthropicMessagesRequest): GenerateContentConfig {
+  const config: GenerateContentConfig = {};
+
+  // max_tokens is required by the Anthropic API
+  if (request.max_tokens === undefined || request.max_tokens === null) {
+    throw new InvalidParameterError('max_tokens', 'max_tokens: Field required');
+  }
+  config.maxOutputTokens = validateNumberParam('max_tokens', request.max_tokens, 1, Number.MAX_SAFE_INTEGER, true);
+
+  // Anthropic temperatures range from 0 to 1
+  const temperature = validateNumberParam('temperature', request.temperature, 0, 1);
+  if (temperature !== undefined) {
+    config.temperature = temperature;
+  }
+
+  const topP = validateNumberParam('top_p', request.top_p, 0, 1);
+  if (topP !== undefined) {
+    config.topP = topP;
+  }
+
+  const topK = validateNumberParam('top_k', request.top_k, 1, Number.MAX_SAFE_INTEGER, true);
+  if (topK !== undefined) {
+    config.topK = topK;
+  }
+
+  if (request.stop_sequences !== undefined && request.stop_sequences !== null) {
+    if (!Array.isArray(request.stop_sequences) || request.stop_sequences.some(seq => typeof seq !== 'string')) {
+      throw new InvalidParameterError('stop_sequences', 'stop_sequences: Input should be a valid list of strings');
+    }
+    if (request.stop_sequences.length > MAX_STOP_SEQUENCES) {
+      throw new InvalidParameterError('stop_sequences', `stop_sequences: Gemini accepts at most ${MAX_STOP_SEQUENCES} stop sequences, but got ${request.stop_sequences.length}`);
+    }
+    if (request.stop_sequences.length > 0) {
+      config.stopSequences = request.stop_sequences;
+    }
+  }
+
+  return config;
+}
+
+// Convert Anthropic tools to Gemini tools
+// Client tools become function declarations; the web_search and code_execution server tools
+// map to Gemini's googleSearch and codeExecution
+export function convertAnthropicToolsToGemini(tools: AnthropicTool[]): Tool[] {
+  const openAITools: OpenAITool[] = [];
+  for (const tool of tools) {
+    if (!tool || typeof tool !== 'object') continue;
+
+    if (tool.type?.startsWith('web_search')) {
+      openAITools.push({ googleSearch: {} });
+    } else if (tool.type?.startsWith('code_execution')) {
+      openAITools.push({ codeExecution: {} });
+    } else if (!tool.type || tool.type === 'custom') {
+      openAITools.push({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+      });
+    } else {
+      toolsLog.warn('Unsupported Anthropic tool type, skipping', { type: tool.type, name: tool.name });
+    }
+  }
+  return convertOpenAIToolsToGemini(openAITools);
+}
+
+// Convert Anthropic tool_choice to Gemini toolConfig
+export function convertAnthropicToolChoiceToGemini(toolChoice: AnthropicToolChoice): ToolConfig | undefined {
+  switch (toolChoice?.type) {
+    case 'none':
+      return convertToolChoiceToGemini('none');
+    case 'auto':
+      return convertToolChoiceToGemini('auto');
+    case 'any':
+      return convertToolChoiceToGemini('required');
+    case 'tool':
+      return convertToolChoiceToGemini({ type: 'function', function: { name: toolChoice.name ?? '' } });
+    default:
+      toolsLog.warn('Unsupported tool_choice value, ignoring', { tool_choice: toolChoice });
+      return undefined;
+  }
+}
+
+// Generate an Anthropic-style tool_use id for Gemini function calls that have none
+export function generateToolUseId(): string {
+  return 'toolu_' + Date.now().toString(36) + Math.random().toString(36).substring(2, 15);
+}
+
+// Convert Gemini response parts to Anthropic content blocks
+// Thought summaries become thinking blocks, and thought signatures are kept on thinking blocks
+// placed before the part they belong to, so clients send them back unchanged
+export function convertGeminiPartsToAnthropicBlocks(parts: Part[]): AnthropicMessagesResponse['content'] {
+  const blocks: AnthropicMessagesResponse['content'] = [];
+  for (const part of parts) {
+    if (part.thought && part.text) {
+      const lastBlock = blocks[blocks.length - 1];
+      if (lastBlock?.type === 'thinking' && !lastBlock.signature) {
+        lastBlock.thinking += part.text;
+      } else {
+        blocks.push({ type: 'thinking', thinking: part.text });
+      }
+    }
+    if (part.thoughtSignature) {
+      const lastBlock = blocks[blocks.length - 1];
+      if (lastBlock?.type === 'thinking' && !lastBlock.signature) {
+        lastBlock.signature = part.thoughtSignature;
+      } else {
+        blocks.push({ type: 'thinking', thinking: '', signature: part.thoughtSignature });
+      }
+    }
+    if (part.thought) {
+      continue;
+    }
+
+    if (part.functionCall) {
+      blocks.push({
+        type: 'tool_use',
+        id: part.functionCall.id || generateToolUseId(),
+        name: part.functionCall.name || '',
+        input: part.functionCall.args ?? {},
+      });
+    } else if (part.text) {
+      const previousBlock = blocks[blocks.length - 1];
+      if (previousBlock?.type === 'text') {
+        previousBlock.text += part.text;
+      } else {
+        blocks.push({ type: 'text', text: part.text });
+      }
+    }
+  }
+  return blocks;
+}
+
+// Map an OpenAI reasoning effort to a Gemini thinking budget
+export function getThinkingBudgetForEffort(reasoningEffort: string): number {
+  switch (reasoningEffort) {
+    case 'low':
+      return 1000;
+    case 'medium':
+      return 8000;
+    case 'high':
+      return 24000;
+    case 'none':
+      return 0;
+    default:
+      // Log invalid value but proceed with default 0
+      toolsLog.warn('Invalid reasoning_effort value, defaulting to thinking budget 0', { reasoning_effort: reasoningEffort });
+      return 0;
+  }
+}
+
+// Convert Responses API sampling parameters to GenerateContentConfig fields
+// Throws InvalidParameterError for out-of-range or mistyped values
+export function convertResponsesSamplingParamsToGemini(request: ResponsesRequest): GenerateContentConfig {
+  const config: GenerateContentConfig = {};
+
+  const temperature = validateNumberParam('temperature', request.temperature, 0, 2);
+  if (temperature !== undefined) {
+    config.temperature = temperature;
+  }
+
+  const topP = validateNumberParam('top_p', request.top_p, 0, 1);
+  if (topP !== undefined) {
+    config.topP = topP;
+  }
+
+  const maxOutputTokens = validateNumberParam('max_output_tokens', request.max_output_tokens, 1, Number.MAX_SAFE_INTEGER, true);
+  if (maxOutputTokens !== undefined) {
+    config.maxOutputTokens = maxOutputTokens;
+  }
+
+  return config;
+}
+
+// Convert Responses API tools to Gemini tools
+// Function tools become function declarations; web_search maps to googleSearch and code_interpreter to codeExecution
+export function convertResponsesToolsToGemini(tools: ResponsesTool[]): Tool[] {
+  const openAITools: OpenAITool[] = [];
+  for (const tool of tools) {
+    if (!tool || typeof tool !== 'object') continue;
+
+    if (tool.type === 'function') {
+      openAITools.push({
+        type: 'function',
+        function: { name: tool.name ?? '', description: tool.description, parameters: tool.parameters },
+      });
+    } else if (tool.type?.startsWith('web_search')) {
+      openAITools.push({ googleSearch: {} });
+    } else if (tool.type === 'code_interpreter') {
+      openAITools.push({ codeExecution: {} });
+    } else {
+      toolsLog.warn('Unsupported Responses tool type, skipping', { type: tool.type });
+    }
+  }
+  return convertOpenAIToolsToGemini(openAITools);
+}
+
+// Convert Responses API tool_choice to Gemini toolConfig
+export function convertResponsesToolChoiceToGemini(toolChoice: ResponsesToolChoice): ToolConfig | undefined {
+  if (typeof toolChoice === 'object' && toolChoice?.type === 'function' && 'name' in toolChoice) {
+    return convertToolChoiceToGemini({ type: 'function', function: { name: toolChoice.name } });
+  }
+  if (typeof toolChoice === 'object') {
+    // Forcing a hosted tool (e.g. web_search) has no Gemini equivalent, the tool is simply available
+    toolsLog.warn('Unsupported tool_choice value, ignoring', { tool_choice: toolChoice });
+    return undefined;
+  }
+  return convertToolChoiceToGemini(toolChoice);
+}
+
+// Convert Responses API text.format to the chat completions response_format
+export function convertTextFormatToResponseFormat(format: ResponsesTextFormat): OpenAIResponseFormat {
+  if (format.type === 'json_schema') {
+    return {
+      type: 'json_schema',
+      json_schema: { name: format.name ?? 'response', description: format.description, schema: format.schema, strict: format.strict },
+    };
+  }
+  return format;
+}
+
+// Build url_citation annotations from Gemini grounding supports
+// Gemini reports segment offsets in UTF-8 bytes, annotations use character offsets into the text
+export function buildUrlCitations(text: string, groundingMetadata: GroundingMetadata | undefined, resolvedChunks?: any[]): ResponsesUrlCitation[] {
+  const chunks = resolvedChunks ?? groundingMetadata?.groundingChunks ?? [];
+  const citations: ResponsesUrlCitation[] = [];
+  const textBytes = Buffer.from(text, 'utf8');
+  const toCharIndex = (byteIndex: number) => textBytes.subarray(0, byteIndex).toString('utf8').length;
+
+  for (const support of groundingMetadata?.groundingSupports ?? []) {
+    const segment = support.segment;
+    if (!segment || segment.endIndex === undefined) continue;
+    for (const chunkIndex of support.groundingChunkIndices ?? []) {
+      const web = chunks[chunkIndex]?.web;
+      if (!web?.uri) continue;
+      citations.push({
+        type: 'url_citation',
+        start_index: toCharIndex(segment.startIndex ?? 0),
+        end_index: toCharIndex(segment.endIndex),
+        url: web.resolved_uri || web.uri,
+        title: web.title || web.domain || '',
+      });
+    }
+  }
+  return citations;
+}
@@ -0,0 +1,160 @@
+/**
+ * Helpers for the tests that run the proxy in-process against a mocked Gemini API
+ * These tests need no Gemini API key and no running server. They are run with vite-node,
+ * which compiles the TypeScript sources on the fly, e.g. npx vite-node tests/test-upstream-retry.js
+ */
+
+const realFetch = globalThis.fetch;
+
+// Settings a local .env could provide; they are cleared so every test starts from the same configuration
+const CONFIG_VARIABLES = [
+  'GEMINI_API_KEY', 'GEMINI_API_KEYS', 'UPSTREAM_CREDENTIALS', 'CLIENT_KEYS_FILE', 'ADMIN_API_KEY', 'METRICS_API_KEY',
+  'ALLOW_ANONYMOUS', 'MODEL_ALIASES', 'BUCKET_API_URL', 'BUCKET_API_KEY', 'HEALTH_PROBE_INTERVAL_MS', 'HEALTH_REQUIRE_BUCKET',
+];
+
+// A Gemini API key shaped value; the mocked upstream accepts any key
+export const TEST_API_KEY = 'AIzaSyTEST-KEY-0000000000000000000000000';
+
+let failures = 0;
+
+export function jsonResponse(body, status = 200, headers = {}) {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json', ...headers } });
+}
+
+// Google API error body, as returned by the Gemini API
+export function geminiError(status, googleStatus, message, details = []) {
+  return jsonResponse({ error: { code: status, message, status: googleStatus, details } }, status);
+}
+
+// generateContent response with one text candidate per entry of texts
+export function geminiText(texts, usage = { promptTokenCount: 3, candidatesTokenCount: 2, totalTokenCount: 5 }) {
+  return {
+    candidates: [].concat(texts).map((text, index) => ({
+      index,
+      content: { role: 'model', parts: [{ text }] },
+      finishReason: 'STOP',
+    })),
+    usageMetadata: usage,
+  };
+}
+
+// streamGenerateContent response: one server-sent event per generateContent shaped chunk
+export function geminiStream(chunks) {
+  const body = chunks.map(chunk => `data: ${JSON.stringify(chunk)}\r\n\r\n`).join('');
+  return new Response(body, { status: 200, headers: { 'content-type': 'text/event-stream' } });
+}
+
+// Replace the Gemini API with handler(call). The handler returns a Response or a JSON body,
+// or throws to simulate a network failure. Every call is recorded in the returned array
+export function mockGemini(handler) {
+  const calls = [];
+  globalThis.fetch = async (input, init = {}) => {
+    const url = new URL(typeof input === 'string' || input instanceof URL ? input : input.url);
+    if (!url.hostname.endsWith('googleapis.com')) {
+      return realFetch(input, init);
+    }
+    const call = {
+      method: init.method || 'GET',
+      path: url.pathname,
+      query: url.searchParams,
+      headers: new Headers(init.headers),
+      body: parseBody(init.body),
+      signal: init.signal,
+    };
+    // Model calls look like /v1beta/models/gemini-2.5-flash:generateContent
+    const modelMatch = /\/models\/([^/:]+):(\w+)$/.exec(url.pathname);
+    if (modelMatch) {
+      call.model = modelMatch[1];
+      call.action = modelMatch[2];
+    }
+    calls.push(call);
+    const result = await handler(call, calls);
+    return result instanceof Response ? result : jsonResponse(result);
+  };
+  return calls;
+}
+
+function parseBody(body) {
+  if (typeof body !== 'string') {
+    return body;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+// Start the proxy on a free port with the given environment and wait until it answers
+export async function startProxy(env = {}) {
+  const port = String(3100 + Math.floor(Math.random() * 800));
+  for (const name of CONFIG_VARIABLES) {
+    process.env[name] = '';
+  }
+  Object.assign(process.env, {
+    LOG_LEVEL: 'error',
+    GEMINI_RETRY_BASE_DELAY_MS: '10',
+    GEMINI_RETRY_MAX_DELAY_MS: '50',
+    ...env,
+    PORT: port,
+  });
+  await import('../src/index.ts');
+  const baseUrl = `http://localhost:${port}`;
+  for (let attempt = 0; attempt < 50; attempt++) {
+    try {
+      await realFetch(`${baseUrl}/healthz`);
+      return baseUrl;
+    } catch {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+  throw new Error('The proxy did not start');
+}
+
+// Send a request to the proxy; JSON bodies are encoded and decoded, FormData is sent as it is
+export async function request(baseUrl, method, path, { body, key, headers = {} } = {}) {
+  const response = await realFetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(body !== undefined && !(body instanceof FormData) ? { 'Content-Type': 'application/json' } : {}),
+      ...(key ? { 'Authorization': `Bearer ${key}` } : {}),
+      ...headers,
+    },
+    body: body === undefined || body instanceof FormData ? body : JSON.stringify(body),
+  });
+  const text = await response.text();
+  let json;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = undefined;
+  }
+  return { status: response.status, headers: response.headers, json, text };
+}
+
+// Create a client key through the admin API
+export async function createClientKey(baseUrl, adminKey, options) {
+  const response = await request(baseUrl, 'POST', '/admin/keys', { key: adminKey, body: { upstream: 'default', ...options } });
+  if (response.status !== 201 && response.status !== 200) {
+    throw new Error(`Could not create client key: ${response.status} ${response.text}`);
+  }
+  return response.json;
+}
+
+export function check(name, condition, detail) {
+  if (condition) {
+    console.log(`✅ ${name}`);
+    return;
+  }
+  failures++;
+  console.log(`❌ ${name}`);
+  if (detail !== undefined) {
+    console.log(`   ${typeof detail === 'string' ? detail : JSON.stringify(detail)}`);
+  }
+}
+
+// Print the summary and exit; the proxy keeps listening otherwise
+export function finish(title) {
+  console.log(`\n🏁 ${title} completed: ${failures === 0 ? 'all checks passed' : `${failures} check(s) failed`}`);
+  process.exit(failures === 0 ? 0 : 1);
+}
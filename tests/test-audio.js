@@ -0,0 +1,165 @@
+/**
+ * Test script for the audio endpoints (/v1/audio/speech, /v1/audio/transcriptions and /v1/audio/translations)
+ * Runs the proxy against mocked Gemini models and checks voices, speed directions, the local encoding
+ * of the PCM audio, the transcription response formats and request validation
+ */
+
+import { mockGemini, startProxy, request, geminiText, check, finish, TEST_API_KEY } from './mock-gemini.js';
+
+const SAMPLE_RATE = 24000;
+// 0.1 seconds of a quiet 440 Hz tone, as 16-bit little-endian mono PCM
+const PCM = Buffer.alloc(SAMPLE_RATE / 10 * 2);
+for (let sample = 0; sample < PCM.length / 2; sample++) {
+  PCM.writeInt16LE(Math.round(Math.sin(2 * Math.PI * 440 * sample / SAMPLE_RATE) * 3000), sample * 2);
+}
+
+// generateContent response of a Gemini TTS model
+function geminiAudio() {
+  return {
+    candidates: [{
+      index: 0,
+      content: { role: 'model', parts: [{ inlineData: { mimeType: `audio/L16;codec=pcm;rate=${SAMPLE_RATE}`, data: PCM.toString('base64') } }] },
+      finishReason: 'STOP',
+    }],
+  };
+}
+
+// Structured transcription returned by the mocked Gemini model
+const TRANSCRIPTION = {
+  language: 'id',
+  duration: 4.5,
+  text: 'Selamat pagi. Apa kabar?',
+  segments: [
+    { start: 0, end: 2, text: 'Selamat pagi.' },
+    { start: 2.5, end: 4.5, text: 'Apa kabar?' },
+  ],
+};
+
+// Multipart transcription request with a WAV file
+function audioForm(fields, wav) {
+  const form = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    form.append(name, value);
+  }
+  if (wav) {
+    form.append('file', new Blob([wav], { type: 'audio/wav' }), 'speech.wav');
+  }
+  return form;
+}
+
+// Send a request and keep the binary body
+async function requestAudio(baseUrl, body) {
+  const response = await fetch(`${baseUrl}/v1/audio/speech`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${TEST_API_KEY}` },
+    body: JSON.stringify(body),
+  });
+  const bytes = Buffer.from(await response.arrayBuffer());
+  let json;
+  try {
+    json = JSON.parse(bytes.toString());
+  } catch {
+    json = undefined;
+  }
+  return { status: response.status, contentType: response.headers.get('content-type') ?? '', bytes, json };
+}
+
+async function testAudio() {
+  console.log('🧪 Testing the audio endpoints...\n');
+
+  let transcriptionText = JSON.stringify(TRANSCRIPTION);
+  const calls = mockGemini(call => (call.model.includes('tts') ? geminiAudio() : geminiText(transcriptionText)));
+  const baseUrl = await startProxy({ ALLOW_ANONYMOUS: 'true' });
+  const speak = body => requestAudio(baseUrl, { input: 'Hello there', ...body });
+  const lastSpeechConfig = () => calls[calls.length - 1]?.body?.generationConfig;
+
+  console.log('🔍 Testing: speech formats');
+  let response = await speak({ response_format: 'wav' });
+  check('wav succeeds', response.status === 200 && response.contentType === 'audio/wav', response.contentType);
+  check('wav has a RIFF header with the Gemini sample rate', response.bytes.toString('ascii', 0, 4) === 'RIFF' && response.bytes.readUInt32LE(24) === SAMPLE_RATE, response.bytes.subarray(0, 44).toString('hex'));
+  check('wav holds the PCM samples', response.bytes.length === 44 + PCM.length && response.bytes.subarray(44).equals(PCM), response.bytes.length);
+  response = await speak({ response_format: 'pcm' });
+  check('pcm is returned as it is', response.status === 200 && response.contentType === 'audio/pcm' && response.bytes.equals(PCM), response.contentType);
+  response = await speak({});
+  check('mp3 is the default', response.status === 200 && response.contentType === 'audio/mpeg', response.contentType);
+  check('mp3 starts with a frame header', response.bytes[0] === 0xff && (response.bytes[1] & 0xe0) === 0xe0, response.bytes.subarray(0, 4).toString('hex'));
+  check('Audio is requested from Gemini', JSON.stringify(lastSpeechConfig()?.responseModalities) === '["AUDIO"]', lastSpeechConfig());
+  console.log('');
+
+  console.log('🔍 Testing: voices and speed');
+  await speak({ voice: 'alloy' });
+  check('OpenAI voices map to Gemini voices', lastSpeechConfig()?.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName === 'Kore', lastSpeechConfig()?.speechConfig);
+  await speak({ voice: 'Puck' });
+  check('Gemini voice names are passed through', lastSpeechConfig()?.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName === 'Puck', lastSpeechConfig()?.speechConfig);
+  await speak({ speed: 2, instructions: 'Sound cheerful.' });
+  const text = calls[calls.length - 1]?.body?.contents?.[0]?.parts?.[0]?.text;
+  check('Instructions and speed become directions before the input', text === 'Sound cheerful. Speak very fast.\n\nHello there', text);
+  console.log('');
+
+  console.log('🔍 Testing: invalid requests');
+  calls.length = 0;
+  response = await speak({ voice: '' });
+  check('Empty voice is a 400', response.status === 400 && response.json?.error?.param === 'voice', response.json);
+  response = await speak({ voice: 42 });
+  check('Non-string voice is a 400', response.status === 400 && response.json?.error?.param === 'voice', response.json);
+  response = await speak({ response_format: 'opus' });
+  check('Unsupported response_format is a 400', response.status === 400 && response.json?.error?.param === 'response_format', response.json);
+  response = await speak({ speed: 5 });
+  check('speed above 4 is a 400', response.status === 400, response.json);
+  response = await speak({ input: '' });
+  check('Missing input is a 400', response.status === 400, response.json);
+  check('Gemini was not called', calls.length === 0, `calls: ${calls.length}`);
+  console.log('');
+
+  console.log('🔍 Testing: transcriptions');
+  const wav = (await speak({ response_format: 'wav' })).bytes;
+  const transcribe = (fields, file = wav, path = '/v1/audio/transcriptions') =>
+    request(baseUrl, 'POST', path, { key: TEST_API_KEY, body: audioForm(fields, file) });
+  response = await transcribe({ model: 'whisper-1', language: 'id', prompt: 'Greetings' });
+  let sent = calls[calls.length - 1];
+  let instructions = sent?.body?.contents?.[0]?.parts?.[1]?.text ?? '';
+  check('json returns the text', response.status === 200 && response.json?.text === TRANSCRIPTION.text, response.text);
+  check('whisper-1 uses the default Gemini model', sent?.model === 'gemini-2.5-flash', sent?.path);
+  check('Audio is sent as inline data', sent?.body?.contents?.[0]?.parts?.[0]?.inlineData?.mimeType === 'audio/wav', sent?.body?.contents?.[0]?.parts?.[0]?.inlineData?.mimeType);
+  check('language and prompt are added to the instructions', instructions.includes('"id"') && instructions.includes('Greetings'), instructions);
+  check('JSON output is requested', sent?.body?.generationConfig?.responseMimeType === 'application/json', sent?.body?.generationConfig);
+  response = await transcribe({ response_format: 'verbose_json' });
+  check('verbose_json has the language, duration and segments', response.json?.task === 'transcribe'
+    && response.json?.language === 'id'
+    && response.json?.duration === 4.5
+    && response.json?.segments?.[1]?.id === 1, response.text);
+  response = await transcribe({ response_format: 'srt' });
+  check('srt numbers the segments with timestamps', response.text.startsWith('1\n00:00:00,000 --> 00:00:02,000\nSelamat pagi.'), response.text);
+  response = await transcribe({ response_format: 'vtt' });
+  check('vtt starts with its header', response.text.startsWith('WEBVTT') && response.text.includes('00:00:02.500 --> 00:00:04.500'), response.text);
+  response = await transcribe({ response_format: 'text' });
+  check('text is plain text', response.text === TRANSCRIPTION.text && response.headers.get('content-type')?.startsWith('text/plain'), response.text);
+  console.log('');
+
+  console.log('🔍 Testing: translations');
+  response = await transcribe({ response_format: 'verbose_json' }, wav, '/v1/audio/translations');
+  instructions = calls[calls.length - 1]?.body?.contents?.[0]?.parts?.[1]?.text ?? '';
+  check('Gemini is asked for English', instructions.includes('Translate the speech in this audio into English'), instructions);
+  check('verbose_json reports the translate task in English', response.json?.task === 'translate' && response.json?.language === 'en', response.text);
+  console.log('');
+
+  console.log('🔍 Testing: invalid transcriptions');
+  calls.length = 0;
+  response = await transcribe({}, null);
+  check('Missing file is a 400', response.status === 400, response.text);
+  response = await transcribe({ response_format: 'xml' });
+  check('Unsupported response_format is a 400', response.status === 400 && response.json?.error?.param === 'response_format', response.text);
+  response = await transcribe({ temperature: '3' });
+  check('temperature above 2 is a 400', response.status === 400, response.text);
+  check('Gemini was not called', calls.length === 0, `calls: ${calls.length}`);
+  transcriptionText = 'Selamat pagi';
+  response = await transcribe({});
+  check('Unparseable model output is a 502', response.status === 502, response.text);
+
+  finish('Audio tests');
+}
+
+testAudio().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,124 @@
+/**
+ * Test script for the /v1/caches routes
+ * Runs the proxy against a mocked Gemini cachedContents API with two client keys, and checks
+ * TTL validation, updates and that a key only sees and uses its own caches
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { mockGemini, startProxy, request, createClientKey, geminiText, geminiError, check, finish } from './mock-gemini.js';
+
+const ADMIN_KEY = 'test-admin-key';
+const CLIENT_KEYS_FILE = path.join(os.tmpdir(), `gemini-reverse-test-caches-${process.pid}.json`);
+
+const cacheBody = {
+  model: 'gemini-2.5-flash',
+  contents: [{ role: 'user', parts: [{ text: 'A long document worth caching.' }] }],
+  ttl: '3600s',
+};
+
+async function testCaches() {
+  console.log('🧪 Testing /v1/caches...\n');
+
+  // Caches stored by the mocked Gemini API, by name
+  const geminiCaches = new Map();
+  let nextCacheNumber = 1;
+  const calls = mockGemini(call => {
+    if (call.path === '/v1beta/cachedContents') {
+      if (call.method === 'POST') {
+        const seconds = parseFloat(call.body.ttl ?? '3600s');
+        const cache = {
+          name: `cachedContents/cache-${nextCacheNumber++}`,
+          model: call.body.model,
+          expireTime: new Date(Date.now() + seconds * 1000).toISOString(),
+          usageMetadata: { totalTokenCount: 4096 },
+        };
+        geminiCaches.set(cache.name, cache);
+        return cache;
+      }
+      return { cachedContents: [...geminiCaches.values()] };
+    }
+    const cacheName = call.path.replace('/v1beta/', '');
+    if (cacheName.startsWith('cachedContents/')) {
+      const cache = geminiCaches.get(cacheName);
+      if (!cache) {
+        return geminiError(404, 'NOT_FOUND', `${cacheName} not found`);
+      }
+      if (call.method === 'DELETE') {
+        geminiCaches.delete(cacheName);
+        return {};
+      }
+      if (call.method === 'PATCH') {
+        cache.expireTime = new Date(Date.now() + parseFloat(call.body.ttl) * 1000).toISOString();
+      }
+      return cache;
+    }
+    return geminiText('Answer from the cached document');
+  });
+  const baseUrl = await startProxy({
+    CLIENT_KEYS_FILE,
+    ADMIN_API_KEY: ADMIN_KEY,
+    GEMINI_API_KEY: 'AIzaSyTEST-UPSTREAM-KEY-000000000000000000',
+  });
+  const alice = (await createClientKey(baseUrl, ADMIN_KEY, { name: 'alice' })).key;
+  const bob = (await createClientKey(baseUrl, ADMIN_KEY, { name: 'bob' })).key;
+
+  console.log('🔍 Testing: TTL validation');
+  calls.length = 0;
+  let response = await request(baseUrl, 'POST', '/v1/caches', { key: alice, body: { ...cacheBody, ttl: '1 hour' } });
+  check('Invalid ttl is a 400', response.status === 400, response.text);
+  check('param names ttl', response.json?.error?.param === 'ttl', response.text);
+  response = await request(baseUrl, 'POST', '/v1/caches', { key: alice, body: { ...cacheBody, expire_time: 'tomorrow' } });
+  check('Invalid expire_time is a 400', response.status === 400 && response.json?.error?.param === 'expire_time', response.text);
+  check('Gemini was not called', calls.length === 0, `calls: ${calls.length}`);
+  console.log('');
+
+  console.log('🔍 Testing: create, update and list');
+  response = await request(baseUrl, 'POST', '/v1/caches', { key: alice, body: cacheBody });
+  const cacheName = response.json?.name;
+  const cacheId = cacheName?.split('/').pop();
+  check('Create succeeds with 201', response.status === 201 && !!cacheName, response.text);
+  const firstExpireTime = response.json?.expire_time;
+  response = await request(baseUrl, 'PATCH', `/v1/caches/${cacheId}`, { key: alice, body: { ttl: '7200s' } });
+  check('Update succeeds', response.status === 200 && response.json?.expire_time > firstExpireTime, response.text);
+  response = await request(baseUrl, 'PATCH', `/v1/caches/${cacheId}`, { key: alice, body: {} });
+  check('Update without ttl or expire_time is a 400', response.status === 400, response.text);
+  await request(baseUrl, 'POST', '/v1/caches', { key: bob, body: cacheBody });
+  response = await request(baseUrl, 'GET', '/v1/caches', { key: alice });
+  check('Alice only lists her own cache', response.json?.caches?.length === 1 && response.json.caches[0].name === cacheName, response.text);
+  console.log('');
+
+  console.log('🔍 Testing: access by another client key');
+  response = await request(baseUrl, 'GET', `/v1/caches/${cacheId}`, { key: bob });
+  check('Get by another key is a 404', response.status === 404, response.text);
+  response = await request(baseUrl, 'PATCH', `/v1/caches/${cacheId}`, { key: bob, body: { ttl: '60s' } });
+  check('Update by another key is a 404', response.status === 404, response.text);
+  response = await request(baseUrl, 'POST', '/v1/chat/completions', {
+    key: bob,
+    body: { model: 'gemini-2.5-flash', cached_content: cacheName, messages: [{ role: 'user', content: 'Summarize' }] },
+  });
+  check('cached_content of another key is rejected', response.status === 400 && response.json?.error?.param === 'cached_content', response.text);
+  response = await request(baseUrl, 'DELETE', `/v1/caches/${cacheId}`, { key: bob });
+  check('Delete by another key is a 404', response.status === 404, response.text);
+  console.log('');
+
+  console.log('🔍 Testing: access by the owner');
+  response = await request(baseUrl, 'POST', '/v1/chat/completions', {
+    key: alice,
+    body: { model: 'gemini-2.5-flash', cached_content: cacheName, messages: [{ role: 'user', content: 'Summarize' }] },
+  });
+  check('Owner can use the cache in chat', response.status === 200, response.text);
+  check('Gemini received the cache name', calls[calls.length - 1]?.body?.cachedContent === cacheName, JSON.stringify(calls[calls.length - 1]?.body));
+  response = await request(baseUrl, 'DELETE', `/v1/caches/${cacheId}`, { key: alice });
+  check('Owner deletes the cache', response.status === 204, response.text);
+
+  fs.rmSync(CLIENT_KEYS_FILE, { force: true });
+  finish('Cache tests');
+}
+
+testCaches().catch(error => {
+  console.error(error);
+  fs.rmSync(CLIENT_KEYS_FILE, { force: true });
+  process.exit(1);
+});
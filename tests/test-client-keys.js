@@ -0,0 +1,112 @@
+/**
+ * Test script for client keys and the admin API (/admin/keys and /admin/upstreams)
+ * Runs the proxy against a mocked Gemini API with two upstream credentials, and checks key
+ * management, authentication, model and feature allow-lists and upstream selection
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { mockGemini, startProxy, request, createClientKey, geminiText, check, finish } from './mock-gemini.js';
+
+const ADMIN_KEY = 'test-admin-key';
+const CLIENT_KEYS_FILE = path.join(os.tmpdir(), `gemini-reverse-test-client-keys-${process.pid}.json`);
+const DEFAULT_UPSTREAM_KEY = 'AIzaSyTEST-DEFAULT-UPSTREAM-00000000000000';
+const TEAM_UPSTREAM_KEY = 'AIzaSyTEST-TEAM-UPSTREAM-0000000000000000';
+
+async function testClientKeys() {
+  console.log('🧪 Testing client keys and the admin API...\n');
+
+  const calls = mockGemini(() => geminiText('Hello there'));
+  const baseUrl = await startProxy({
+    CLIENT_KEYS_FILE,
+    ADMIN_API_KEY: ADMIN_KEY,
+    UPSTREAM_CREDENTIALS: JSON.stringify({ default: { api_key: DEFAULT_UPSTREAM_KEY }, team: { api_key: TEAM_UPSTREAM_KEY } }),
+  });
+  const chat = (key, body) => request(baseUrl, 'POST', '/v1/chat/completions', {
+    key,
+    body: { model: 'gemini-2.5-flash', messages: [{ role: 'user', content: 'Hello' }], ...body },
+  });
+  const lastUpstreamKey = () => calls[calls.length - 1]?.headers.get('x-goog-api-key');
+
+  console.log('🔍 Testing: admin authentication');
+  let response = await request(baseUrl, 'GET', '/admin/keys');
+  check('Missing admin key is a 401', response.status === 401, response.text);
+  response = await request(baseUrl, 'GET', '/admin/keys', { key: 'wrong-admin-key' });
+  check('Wrong admin key is a 401', response.status === 401, response.text);
+  console.log('');
+
+  console.log('🔍 Testing: key management');
+  response = await request(baseUrl, 'POST', '/admin/keys', { key: ADMIN_KEY, body: { name: 'broken', upstream: 'default', allowed_features: ['teleport'] } });
+  check('Unknown feature is a 400', response.status === 400, response.text);
+  response = await request(baseUrl, 'POST', '/admin/keys', { key: ADMIN_KEY, body: { name: 'broken', upstream: 'default', allowed_models: 'gemini-2.5-flash' } });
+  check('allowed_models that is not a list is a 400', response.status === 400, response.text);
+  const alice = await createClientKey(baseUrl, ADMIN_KEY, { name: 'alice', allowed_models: ['gemini-2.5-flash*'] });
+  const bob = await createClientKey(baseUrl, ADMIN_KEY, { name: 'bob', upstream: 'team', allowed_features: ['grounding', 'image_generation'] });
+  check('Plaintext key is returned on creation', typeof alice.key === 'string' && alice.key.length > 20, alice);
+  response = await request(baseUrl, 'GET', `/admin/keys/${alice.id}`, { key: ADMIN_KEY });
+  check('Get does not return the key or its hash', response.status === 200 && !response.json?.key && !response.json?.key_hash, response.text);
+  response = await request(baseUrl, 'GET', '/admin/keys', { key: ADMIN_KEY });
+  check('List holds both keys', response.json?.data?.length === 2, response.text);
+  const stored = fs.readFileSync(CLIENT_KEYS_FILE, 'utf8');
+  check('Keys file stores hashes, not keys', !stored.includes(alice.key) && !stored.includes(bob.key) && stored.includes('key_hash'));
+  response = await request(baseUrl, 'GET', '/admin/upstreams', { key: ADMIN_KEY });
+  const upstreamNames = (response.json?.data ?? []).map(upstream => upstream.name);
+  check('Upstreams are listed', upstreamNames.includes('default') && upstreamNames.includes('team'), response.text);
+  check('Upstream secrets are not returned', !response.text.includes(DEFAULT_UPSTREAM_KEY) && !response.text.includes(TEAM_UPSTREAM_KEY), response.text);
+  console.log('');
+
+  console.log('🔍 Testing: client key authentication');
+  calls.length = 0;
+  response = await chat(undefined);
+  check('Missing client key is a 401', response.status === 401, response.text);
+  response = await chat(DEFAULT_UPSTREAM_KEY);
+  check('A Gemini key is not a client key', response.status === 401, response.text);
+  response = await request(baseUrl, 'POST', '/v1/messages', { body: { model: 'gemini-2.5-flash', max_tokens: 16, messages: [] } });
+  check('/v1/messages answers 401 in the Anthropic envelope', response.status === 401 && response.json?.error?.type === 'authentication_error', response.text);
+  check('Gemini was not called', calls.length === 0, `calls: ${calls.length}`);
+  console.log('');
+
+  console.log('🔍 Testing: allow-lists');
+  response = await chat(alice.key);
+  check('Allowed model succeeds', response.status === 200, response.text);
+  check('Key uses its upstream credential', lastUpstreamKey() === DEFAULT_UPSTREAM_KEY);
+  calls.length = 0;
+  response = await chat(alice.key, { model: 'gemini-2.5-pro' });
+  check('Model outside allowed_models is a 403', response.status === 403, response.text);
+  response = await chat(alice.key, { tools: [{ googleSearch: {} }] });
+  check('Grounding without the feature is a 403', response.status === 403 && response.json?.error?.message?.includes('grounding'), response.text);
+  response = await request(baseUrl, 'POST', '/v1/images/generations', { key: alice.key, body: { prompt: 'A red fox', model: 'gemini-2.5-flash-image' } });
+  check('Image generation without the feature is a 403', response.status === 403 && response.json?.error?.message?.includes('image_generation'), response.text);
+  response = await chat(alice.key, { use_vertex: true });
+  check('Vertex AI without the feature is a 403', response.status === 403, response.text);
+  check('Gemini was not called', calls.length === 0, `calls: ${calls.length}`);
+  response = await chat(bob.key, { model: 'gemini-2.5-pro', tools: [{ googleSearch: {} }] });
+  check('Key without allowed_models may use any model and its features', response.status === 200, response.text);
+  check('Key bound to another upstream uses its key', lastUpstreamKey() === TEAM_UPSTREAM_KEY);
+  console.log('');
+
+  console.log('🔍 Testing: updates and deletion');
+  response = await request(baseUrl, 'PATCH', `/admin/keys/${alice.id}`, { key: ADMIN_KEY, body: { allowed_models: null } });
+  check('Clearing allowed_models succeeds', response.status === 200 && response.json?.allowed_models === undefined, response.text);
+  response = await chat(alice.key, { model: 'gemini-2.5-pro' });
+  check('Any model is allowed afterwards', response.status === 200, response.text);
+  await request(baseUrl, 'PATCH', `/admin/keys/${alice.id}`, { key: ADMIN_KEY, body: { disabled: true } });
+  response = await chat(alice.key);
+  check('Disabled key is a 401', response.status === 401, response.text);
+  response = await request(baseUrl, 'DELETE', `/admin/keys/${bob.id}`, { key: ADMIN_KEY });
+  check('Delete succeeds', response.status === 200 && response.json?.deleted === true, response.text);
+  response = await chat(bob.key);
+  check('Deleted key is a 401', response.status === 401, response.text);
+  response = await request(baseUrl, 'GET', `/admin/keys/${bob.id}`, { key: ADMIN_KEY });
+  check('Deleted key is a 404 in the admin API', response.status === 404, response.text);
+
+  fs.rmSync(CLIENT_KEYS_FILE, { force: true });
+  finish('Client key tests');
+}
+
+testClientKeys().catch(error => {
+  console.error(error);
+  fs.rmSync(CLIENT_KEYS_FILE, { force: true });
+  process.exit(1);
+});
@@ -0,0 +1,76 @@
+/**
+ * Test script for the legacy completions endpoint (/v1/completions)
+ * Runs the proxy against a mocked Gemini API and checks the prompt cap, the number of prompts
+ * sent to Gemini at the same time and the order of the choices
+ */
+
+import { mockGemini, startProxy, request, geminiText, check, finish, TEST_API_KEY } from './mock-gemini.js';
+
+const MAX_PROMPTS = 6;
+const MAX_CONCURRENCY = 2;
+
+async function testCompletions() {
+  console.log('🧪 Testing /v1/completions...\n');
+
+  // Every call answers after a delay that shrinks with the prompt number, so later prompts finish first
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const calls = mockGemini(async call => {
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    const prompt = call.body.contents[0].parts[0].text;
+    const number = Number(/\d+/.exec(prompt)?.[0] ?? 0);
+    await new Promise(resolve => setTimeout(resolve, (MAX_PROMPTS - number) * 20));
+    inFlight--;
+    const candidateCount = call.body.generationConfig?.candidateCount ?? 1;
+    return geminiText(Array.from({ length: candidateCount }, (_, index) => ` answer ${number}.${index}`));
+  });
+  const baseUrl = await startProxy({
+    ALLOW_ANONYMOUS: 'true',
+    COMPLETIONS_MAX_PROMPTS: String(MAX_PROMPTS),
+    COMPLETIONS_MAX_CONCURRENCY: String(MAX_CONCURRENCY),
+  });
+  const complete = body => request(baseUrl, 'POST', '/v1/completions', { key: TEST_API_KEY, body: { model: 'gemini-2.5-flash', ...body } });
+
+  console.log('🔍 Testing: single prompt');
+  let response = await complete({ prompt: 'Prompt 1', max_tokens: 16, echo: true });
+  check('Request succeeds', response.status === 200 && response.json?.object === 'text_completion', response.text);
+  check('echo prepends the prompt', response.json?.choices?.[0]?.text === 'Prompt 1 answer 1.0', response.text);
+  check('Usage is reported', response.json?.usage?.total_tokens === 5, response.text);
+  check('max_tokens is sent', calls[calls.length - 1]?.body?.generationConfig?.maxOutputTokens === 16, calls[calls.length - 1]?.body?.generationConfig);
+  console.log('');
+
+  console.log('🔍 Testing: prompt arrays');
+  calls.length = 0;
+  maxInFlight = 0;
+  const prompts = Array.from({ length: MAX_PROMPTS }, (_, index) => `Prompt ${index + 1}`);
+  response = await complete({ prompt: prompts, n: 2 });
+  const texts = (response.json?.choices ?? []).map(choice => choice.text);
+  const expected = prompts.flatMap((_, index) => [` answer ${index + 1}.0`, ` answer ${index + 1}.1`]);
+  check('Request succeeds', response.status === 200, response.text);
+  check('One Gemini call per prompt', calls.length === MAX_PROMPTS, `calls: ${calls.length}`);
+  check(`At most ${MAX_CONCURRENCY} prompts are sent at the same time`, maxInFlight === MAX_CONCURRENCY, `max in flight: ${maxInFlight}`);
+  check('Choices are ordered by prompt, then by candidate', JSON.stringify(texts) === JSON.stringify(expected), texts);
+  check('Choice indexes follow that order', (response.json?.choices ?? []).every((choice, index) => choice.index === index), response.text);
+  check('Usage adds up every prompt', response.json?.usage?.total_tokens === 5 * MAX_PROMPTS, response.json?.usage);
+  console.log('');
+
+  console.log('🔍 Testing: invalid requests');
+  calls.length = 0;
+  response = await complete({ prompt: [...prompts, 'One prompt too many'] });
+  check('More than COMPLETIONS_MAX_PROMPTS prompts is a 400', response.status === 400 && response.json?.error?.param === 'prompt', response.text);
+  response = await complete({ prompt: [[1, 2, 3]] });
+  check('Token arrays are a 400', response.status === 400, response.text);
+  response = await complete({ prompt: 'Prompt 1', stream: true });
+  check('stream: true is a 400', response.status === 400, response.text);
+  response = await complete({ prompt: 'Prompt 1', temperature: 5 });
+  check('Out of range temperature is a 400', response.status === 400 && response.json?.error?.param === 'temperature', response.text);
+  check('Gemini was not called', calls.length === 0, `calls: ${calls.length}`);
+
+  finish('Completions tests');
+}
+
+testCompletions().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,71 @@
+/**
+ * Test script for the embeddings endpoint (/v1/embeddings)
+ * Runs the proxy against a mocked Gemini API and checks batching, dimensions, task_type,
+ * the base64 encoding and request validation
+ */
+
+import { mockGemini, startProxy, request, check, finish, TEST_API_KEY } from './mock-gemini.js';
+
+async function testEmbeddings() {
+  console.log('🧪 Testing /v1/embeddings...\n');
+
+  // Every input gets the embedding [input number, 0.5, -1]
+  const calls = mockGemini(call => ({
+    embeddings: call.body.requests.map(embedRequest => ({
+      values: [Number(/\d+/.exec(embedRequest.content.parts[0].text)?.[0] ?? 0), 0.5, -1],
+    })),
+  }));
+  const baseUrl = await startProxy({ ALLOW_ANONYMOUS: 'true', MODEL_ALIASES: JSON.stringify({ 'text-embedding-3-small': 'gemini-embedding-001' }) });
+  const embed = body => request(baseUrl, 'POST', '/v1/embeddings', { key: TEST_API_KEY, body: { model: 'gemini-embedding-001', ...body } });
+
+  console.log('🔍 Testing: single input');
+  let response = await embed({ input: 'Input 7', dimensions: 3, task_type: 'RETRIEVAL_QUERY' });
+  let sent = calls[calls.length - 1];
+  check('Request succeeds', response.status === 200 && response.json?.object === 'list', response.text);
+  check('Embedding is returned as floats', JSON.stringify(response.json?.data?.[0]?.embedding) === '[7,0.5,-1]', response.text);
+  check('batchEmbedContents is called', sent?.action === 'batchEmbedContents', sent?.path);
+  check('dimensions becomes outputDimensionality', sent?.body?.requests?.[0]?.outputDimensionality === 3, sent?.body);
+  check('task_type is sent', sent?.body?.requests?.[0]?.taskType === 'RETRIEVAL_QUERY', sent?.body);
+  console.log('');
+
+  console.log('🔍 Testing: aliases and base64');
+  response = await request(baseUrl, 'POST', '/v1/embeddings', {
+    key: TEST_API_KEY,
+    body: { model: 'text-embedding-3-small', input: 'Input 2', encoding_format: 'base64' },
+  });
+  const bytes = Buffer.from(response.json?.data?.[0]?.embedding ?? '', 'base64');
+  const floats = Array.from({ length: bytes.length / 4 }, (_, index) => bytes.readFloatLE(index * 4));
+  check('Alias resolves to its Gemini model', calls[calls.length - 1]?.model === 'gemini-embedding-001', calls[calls.length - 1]?.path);
+  check('Response names the requested model', response.json?.model === 'text-embedding-3-small', response.text);
+  check('base64 holds little-endian float32 values', JSON.stringify(floats) === '[2,0.5,-1]', floats);
+  console.log('');
+
+  console.log('🔍 Testing: inputs above the batch size');
+  calls.length = 0;
+  const inputs = Array.from({ length: 150 }, (_, index) => `Input ${index}`);
+  response = await embed({ input: inputs });
+  const data = response.json?.data ?? [];
+  check('Request succeeds', response.status === 200, response.text);
+  check('Inputs are sent in batches of 100', calls.length === 2 && calls[0].body.requests.length === 100 && calls[1].body.requests.length === 50, calls.map(call => call.body.requests.length));
+  check('Every input has its embedding, in order', data.length === 150 && data.every((item, index) => item.index === index && item.embedding[0] === index), data.length);
+  console.log('');
+
+  console.log('🔍 Testing: invalid requests');
+  calls.length = 0;
+  response = await embed({ input: [] });
+  check('Empty input is a 400', response.status === 400, response.text);
+  response = await embed({ input: [1, 2, 3] });
+  check('Token arrays are a 400', response.status === 400, response.text);
+  response = await embed({ input: 'Input 1', encoding_format: 'int8' });
+  check('Unknown encoding_format is a 400', response.status === 400, response.text);
+  response = await embed({ input: 'Input 1', dimensions: 0 });
+  check('dimensions below 1 is a 400', response.status === 400, response.text);
+  check('Gemini was not called', calls.length === 0, `calls: ${calls.length}`);
+
+  finish('Embeddings tests');
+}
+
+testEmbeddings().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,69 @@
+/**
+ * Test script for the error envelope
+ * Checks that request body errors and Gemini errors come back as JSON in the OpenAI envelope,
+ * or in the Anthropic envelope on /v1/messages
+ */
+
+import { mockGemini, startProxy, request, geminiError, check, finish, TEST_API_KEY } from './mock-gemini.js';
+
+async function sendRaw(baseUrl, path, body, contentType = 'application/json') {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': contentType, 'Authorization': `Bearer ${TEST_API_KEY}` },
+    body,
+  });
+  const text = await response.text();
+  let json;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = undefined;
+  }
+  return { status: response.status, contentType: response.headers.get('content-type') ?? '', json, text };
+}
+
+async function testErrorEnvelope() {
+  console.log('🧪 Testing the error envelope...\n');
+
+  mockGemini(() => geminiError(429, 'RESOURCE_EXHAUSTED', 'Quota exceeded', [
+    { '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '7s' },
+  ]));
+  const baseUrl = await startProxy({ GEMINI_RETRY_MAX_ATTEMPTS: '1' });
+
+  console.log('🔍 Testing: malformed JSON body');
+  let response = await sendRaw(baseUrl, '/v1/chat/completions', '{"model": "gemini-2.5-flash",');
+  check('Malformed JSON is a 400', response.status === 400, response.text);
+  check('Response is JSON, not an HTML page', response.contentType.includes('application/json'), response.contentType);
+  check('OpenAI envelope with invalid_request_error', response.json?.error?.type === 'invalid_request_error', response.text);
+  check('No stack trace in the response', !response.text.includes('    at '));
+  console.log('');
+
+  console.log('🔍 Testing: malformed JSON body on /v1/messages');
+  response = await sendRaw(baseUrl, '/v1/messages', '{"model": ');
+  check('Malformed JSON is a 400', response.status === 400, response.text);
+  check('Anthropic envelope', response.json?.type === 'error' && response.json?.error?.type === 'invalid_request_error', response.text);
+  console.log('');
+
+  console.log('🔍 Testing: other body parser errors');
+  response = await sendRaw(baseUrl, '/v1/chat/completions', '{}', 'application/json; charset=klingon');
+  check('Unsupported charset keeps its 415', response.status === 415, response.text);
+  check('Response is JSON in the OpenAI envelope', response.json?.error?.type === 'invalid_request_error', response.text);
+  console.log('');
+
+  console.log('🔍 Testing: Gemini rate limit error');
+  response = await request(baseUrl, 'POST', '/v1/chat/completions', {
+    key: TEST_API_KEY,
+    body: { model: 'gemini-2.5-flash', messages: [{ role: 'user', content: 'Hello' }] },
+  });
+  check('RESOURCE_EXHAUSTED is a 429', response.status === 429, response.text);
+  check('Type is rate_limit_error', response.json?.error?.type === 'rate_limit_error', response.text);
+  check('Code is resource_exhausted', response.json?.error?.code === 'resource_exhausted', response.text);
+  check('RetryInfo is sent as Retry-After', response.headers.get('retry-after') === '7', response.headers.get('retry-after'));
+
+  finish('Error envelope tests');
+}
+
+testErrorEnvelope().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,137 @@
+/**
+ * Test script for the /v1/files routes
+ * Runs the proxy against a mocked Gemini Files API with two client keys, and checks uploads,
+ * paging, the upload size limit and that a key only sees and uses its own files
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { mockGemini, startProxy, request, createClientKey, geminiText, geminiError, jsonResponse, check, finish } from './mock-gemini.js';
+
+const ADMIN_KEY = 'test-admin-key';
+const CLIENT_KEYS_FILE = path.join(os.tmpdir(), `gemini-reverse-test-files-${process.pid}.json`);
+const PNG_HEADER = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+
+function upload(baseUrl, key, bytes, filename = 'notes.bin') {
+  const form = new FormData();
+  form.append('purpose', 'user_data');
+  form.append('file', new Blob([bytes], { type: 'application/octet-stream' }), filename);
+  return request(baseUrl, 'POST', '/v1/files', { key, body: form });
+}
+
+async function testFiles() {
+  console.log('🧪 Testing /v1/files...\n');
+
+  // Files stored by the mocked Gemini Files API, by name
+  const geminiFiles = new Map();
+  let nextFileNumber = 1;
+  const calls = mockGemini(call => {
+    // Resumable upload: the start request returns the upload URL, the finalize request returns the file
+    if (call.path === '/upload/v1beta/files') {
+      call.uploadMimeType = call.headers.get('x-goog-upload-header-content-type');
+      return jsonResponse({}, 200, { 'x-goog-upload-url': `https://generativelanguage.googleapis.com/upload/session/${nextFileNumber}` });
+    }
+    if (call.path.startsWith('/upload/session/')) {
+      const start = calls.findLast(previous => previous.uploadMimeType);
+      const file = {
+        name: `files/file-${nextFileNumber++}`,
+        displayName: call.headers.get('x-goog-upload-file-name'),
+        mimeType: start.uploadMimeType,
+        sizeBytes: '16',
+        state: 'ACTIVE',
+        uri: 'https://generativelanguage.googleapis.com/v1beta/files/uploaded',
+        createTime: new Date().toISOString(),
+        expirationTime: new Date(Date.now() + 48 * 3600 * 1000).toISOString(),
+      };
+      geminiFiles.set(file.name, file);
+      return jsonResponse({ file }, 200, { 'x-goog-upload-status': 'final' });
+    }
+    if (call.path === '/v1beta/files') {
+      // Pages of one file, so paging is visible with a handful of files
+      const names = [...geminiFiles.keys()];
+      const index = call.query.get('pageToken') ? names.indexOf(call.query.get('pageToken')) : 0;
+      const pageSize = Number(call.query.get('pageSize') || 100);
+      const page = names.slice(index, index + pageSize);
+      const next = names[index + pageSize];
+      return { files: page.map(name => geminiFiles.get(name)), ...(next ? { nextPageToken: next } : {}) };
+    }
+    const fileName = call.path.replace('/v1beta/', '');
+    if (fileName.startsWith('files/')) {
+      const file = geminiFiles.get(fileName);
+      if (!file) {
+        return geminiError(404, 'NOT_FOUND', `File ${fileName} not found`);
+      }
+      if (call.method === 'DELETE') {
+        geminiFiles.delete(fileName);
+        return {};
+      }
+      return file;
+    }
+    return geminiText('The file says hello');
+  });
+  const baseUrl = await startProxy({
+    CLIENT_KEYS_FILE,
+    ADMIN_API_KEY: ADMIN_KEY,
+    GEMINI_API_KEY: 'AIzaSyTEST-UPSTREAM-KEY-000000000000000000',
+    FILES_UPLOAD_MAX_BYTES: '1024',
+  });
+  const alice = (await createClientKey(baseUrl, ADMIN_KEY, { name: 'alice' })).key;
+  const bob = (await createClientKey(baseUrl, ADMIN_KEY, { name: 'bob' })).key;
+
+  console.log('🔍 Testing: upload');
+  let response = await upload(baseUrl, alice, PNG_HEADER, 'image.bin');
+  const fileId = response.json?.id;
+  check('Upload succeeds', response.status === 200 && !!fileId, response.text);
+  check('Type is sniffed from the file head', response.json?.google_gemini?.mime_type === 'image/png', response.text);
+  await upload(baseUrl, alice, Buffer.from('second file of alice'));
+  await upload(baseUrl, bob, Buffer.from('file of bob'));
+  response = await upload(baseUrl, alice, Buffer.alloc(2048, 1));
+  check('Upload above FILES_UPLOAD_MAX_BYTES is a 413', response.status === 413, response.text);
+  console.log('');
+
+  console.log('🔍 Testing: list');
+  response = await request(baseUrl, 'GET', '/v1/files?limit=2', { key: alice });
+  check('First page has more', response.json?.has_more === true && typeof response.json?.after === 'string', response.text);
+  check('First page holds the files of alice', response.json?.data?.length === 2, response.text);
+  response = await request(baseUrl, 'GET', `/v1/files?limit=2&after=${encodeURIComponent(response.json?.after)}`, { key: alice });
+  check('Last page has no more', response.json?.has_more === false, response.text);
+  check('Files of bob are not listed for alice', response.json?.data?.length === 0, response.text);
+  response = await request(baseUrl, 'GET', '/v1/files', { key: bob });
+  check('Bob only sees his own file', response.json?.data?.length === 1 && response.json.data[0].id !== fileId, response.text);
+  console.log('');
+
+  console.log('🔍 Testing: access by another client key');
+  response = await request(baseUrl, 'GET', `/v1/files/${fileId}`, { key: bob });
+  check('Get by another key is a 404', response.status === 404, response.text);
+  response = await request(baseUrl, 'POST', '/v1/chat/completions', {
+    key: bob,
+    body: { model: 'gemini-2.5-flash', messages: [{ role: 'user', content: [{ type: 'file', file: { file_id: fileId } }] }] },
+  });
+  check('Chat reference by another key is rejected', response.status === 400, response.text);
+  calls.length = 0;
+  response = await request(baseUrl, 'DELETE', `/v1/files/${fileId}`, { key: bob });
+  check('Delete by another key is a 404', response.status === 404, response.text);
+  check('Gemini was not asked to delete it', calls.length === 0, `calls: ${calls.length}`);
+  console.log('');
+
+  console.log('🔍 Testing: access by the owner');
+  response = await request(baseUrl, 'GET', `/v1/files/${fileId}`, { key: alice });
+  check('Owner gets the file', response.status === 200 && response.json?.id === fileId, response.text);
+  response = await request(baseUrl, 'POST', '/v1/chat/completions', {
+    key: alice,
+    body: { model: 'gemini-2.5-flash', messages: [{ role: 'user', content: [{ type: 'file', file: { file_id: fileId } }] }] },
+  });
+  check('Owner can reference the file in chat', response.status === 200, response.text);
+  response = await request(baseUrl, 'DELETE', `/v1/files/${fileId}`, { key: alice });
+  check('Owner deletes the file', response.status === 200 && response.json?.deleted === true, response.text);
+
+  fs.rmSync(CLIENT_KEYS_FILE, { force: true });
+  finish('Files tests');
+}
+
+testFiles().catch(error => {
+  console.error(error);
+  fs.rmSync(CLIENT_KEYS_FILE, { force: true });
+  process.exit(1);
+});
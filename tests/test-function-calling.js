@@ -0,0 +1,117 @@
+/**
+ * Test script for OpenAI function calling support
+ * Runs a full tool call round trip: request -> tool_calls -> tool result -> final answer
+ */
+
+const API_BASE_URL = 'http://localhost:3000';
+
+const tools = [
+  {
+    type: 'function',
+    function: {
+      name: 'get_weather',
+      description: 'Get the current weather for a city',
+      parameters: {
+        type: 'object',
+        properties: {
+          city: { type: 'string', description: 'City name' },
+          unit: { type: 'string', enum: ['celsius', 'fahrenheit'] }
+        },
+        required: ['city']
+      }
+    }
+  }
+];
+
+async function postChat(body) {
+  const response = await fetch(`${API_BASE_URL}/v1/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${process.env.GEMINI_API_KEY || 'test-key'}`
+    },
+    body: JSON.stringify(body)
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}: ${JSON.stringify(result)}`);
+  }
+  return result;
+}
+
+async function testFunctionCalling() {
+  console.log('🧪 Testing function calling...\n');
+
+  const messages = [
+    { role: 'user', content: 'What is the weather like in Jakarta right now?' }
+  ];
+
+  // Step 1: the model should ask for the tool
+  console.log('🔍 Step 1: Request with tools and tool_choice "required"');
+  let firstResult;
+  try {
+    firstResult = await postChat({
+      model: 'gemini-2.5-flash',
+      messages,
+      tools,
+      tool_choice: 'required'
+    });
+  } catch (error) {
+    console.log(`❌ Request failed: ${error.message}`);
+    return;
+  }
+
+  const firstChoice = firstResult.choices[0];
+  console.log(`   finish_reason: ${firstChoice.finish_reason}`);
+  if (!firstChoice.message.tool_calls || firstChoice.message.tool_calls.length === 0) {
+    console.log('❌ No tool_calls returned');
+    return;
+  }
+  for (const toolCall of firstChoice.message.tool_calls) {
+    console.log(`✅ Tool call ${toolCall.id}: ${toolCall.function.name}(${toolCall.function.arguments})`);
+  }
+
+  // Step 2: send the tool results back
+  console.log('\n🔍 Step 2: Send tool results');
+  messages.push(firstChoice.message);
+  for (const toolCall of firstChoice.message.tool_calls) {
+    messages.push({
+      role: 'tool',
+      tool_call_id: toolCall.id,
+      content: JSON.stringify({ temperature: 31, unit: 'celsius', condition: 'humid and cloudy' })
+    });
+  }
+
+  try {
+    const secondResult = await postChat({
+      model: 'gemini-2.5-flash',
+      messages,
+      tools
+    });
+    const secondChoice = secondResult.choices[0];
+    console.log(`✅ finish_reason: ${secondChoice.finish_reason}`);
+    console.log(`   Answer: ${secondChoice.message.content}`);
+  } catch (error) {
+    console.log(`❌ Request failed: ${error.message}`);
+  }
+
+  // Step 3: tool_choice "none" should produce plain text
+  console.log('\n🔍 Step 3: tool_choice "none"');
+  try {
+    const noneResult = await postChat({
+      model: 'gemini-2.5-flash',
+      messages: [{ role: 'user', content: 'What is the weather like in Jakarta right now?' }],
+      tools,
+      tool_choice: 'none'
+    });
+    const choice = noneResult.choices[0];
+    console.log(`${choice.message.tool_calls ? '❌' : '✅'} tool_calls: ${choice.message.tool_calls ? 'present' : 'absent'}`);
+  } catch (error) {
+    console.log(`❌ Request failed: ${error.message}`);
+  }
+
+  console.log('\n🏁 Function calling tests completed!');
+}
+
+// Run the test
+testFunctionCalling().catch(console.error);
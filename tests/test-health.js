@@ -0,0 +1,88 @@
+/**
+ * Test script for the health endpoints (/healthz and /readyz)
+ * Runs the proxy against a mocked Gemini API and a local bucket server, and checks liveness
+ * and the bucket and upstream readiness checks
+ */
+
+import http from 'http';
+import { mockGemini, startProxy, request, geminiError, check, finish } from './mock-gemini.js';
+
+const POOL_KEYS = ['AIzaSyTEST-POOL-KEY-A000000000000000000000', 'AIzaSyTEST-POOL-KEY-B000000000000000000000'];
+
+// Local bucket server whose status code the test controls
+async function startBucket() {
+  const bucket = { status: 404, probes: 0 };
+  const server = http.createServer((req, res) => {
+    bucket.probes++;
+    res.statusCode = bucket.status;
+    res.end();
+  });
+  await new Promise(resolve => server.listen(0, resolve));
+  server.unref();
+  bucket.url = `http://localhost:${server.address().port}/upload`;
+  return bucket;
+}
+
+async function testHealth() {
+  console.log('🧪 Testing the health endpoints...\n');
+
+  mockGemini(() => geminiError(429, 'RESOURCE_EXHAUSTED', 'Quota exceeded', [
+    { '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '30s' },
+  ]));
+  const bucket = await startBucket();
+  const baseUrl = await startProxy({ ALLOW_ANONYMOUS: 'true', BUCKET_API_URL: bucket.url, GEMINI_API_KEYS: POOL_KEYS.join(',') });
+  const readyz = () => request(baseUrl, 'GET', '/readyz');
+
+  console.log('🔍 Testing: liveness');
+  let response = await request(baseUrl, 'GET', '/healthz');
+  check('/healthz is a 200', response.status === 200 && response.json?.status === 'ok', response.text);
+  check('Uptime is reported', Number.isInteger(response.json?.uptime_seconds), response.text);
+  console.log('');
+
+  console.log('🔍 Testing: readiness');
+  let probes = bucket.probes;
+  response = await readyz();
+  check('/readyz is a 200 when every dependency is up', response.status === 200 && response.json?.status === 'ready', response.text);
+  check('A bucket answering below 500 is ok', response.json?.checks?.bucket?.status === 'ok' && response.json.checks.bucket.status_code === 404, response.json?.checks?.bucket);
+  check('Every /readyz request probes the bucket', bucket.probes === probes + 1, `probes: ${bucket.probes - probes}`);
+  check('Upstream keys are counted', response.json?.checks?.upstream?.status === 'ok' && response.json.checks.upstream.keys === 2 && response.json.checks.upstream.healthy_keys === 2,
+    response.json?.checks?.upstream);
+  console.log('');
+
+  console.log('🔍 Testing: bucket server errors');
+  bucket.status = 500;
+  response = await readyz();
+  check('An erroring bucket is degraded, still ready', response.status === 200 && response.json?.checks?.bucket?.status === 'degraded', response.json?.checks?.bucket);
+  process.env.HEALTH_REQUIRE_BUCKET = 'true';
+  response = await readyz();
+  check('With HEALTH_REQUIRE_BUCKET it fails readiness with a 503', response.status === 503 && response.json?.status === 'not_ready'
+    && response.json?.checks?.bucket?.status === 'fail', response.text);
+  process.env.HEALTH_REQUIRE_BUCKET = '';
+  bucket.status = 404;
+  console.log('');
+
+  console.log('🔍 Testing: upstream readiness');
+  for (let i = 0; i < POOL_KEYS.length; i++) {
+    await request(baseUrl, 'POST', '/v1/chat/completions', { body: { model: 'gemini-2.5-flash', messages: [{ role: 'user', content: 'Hello' }] } });
+  }
+  response = await readyz();
+  check('Every key cooling down is degraded, still ready', response.status === 200 && response.json?.checks?.upstream?.status === 'degraded'
+    && response.json.checks.upstream.healthy_keys === 0, response.json?.checks?.upstream);
+  process.env.GEMINI_API_KEYS = '';
+  response = await readyz();
+  check('No credentials is degraded without client keys', response.status === 200 && response.json?.checks?.upstream?.status === 'degraded'
+    && response.json.checks.upstream.configured === false, response.json?.checks?.upstream);
+  process.env.CLIENT_KEYS_FILE = 'unused-client-keys.json';
+  response = await readyz();
+  check('No credentials with client keys fails readiness with a 503', response.status === 503 && response.json?.checks?.upstream?.status === 'fail', response.text);
+  response = await request(baseUrl, 'GET', '/healthz');
+  check('/healthz needs no client key', response.status === 200, response.text);
+  process.env.CLIENT_KEYS_FILE = '';
+
+  finish('Health tests');
+}
+
+testHealth().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
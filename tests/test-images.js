@@ -0,0 +1,151 @@
+/**
+ * Test script for the images endpoints (/v1/images/generations and /v1/images/edits)
+ * Runs the proxy against a mocked Gemini API and a local bucket server, and checks Gemini image
+ * models, Imagen models, size to aspect ratio mapping, both response formats and multipart edits
+ */
+
+import http from 'http';
+import { mockGemini, startProxy, request, geminiError, check, finish, TEST_API_KEY } from './mock-gemini.js';
+
+const PNG_BASE64 = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex').toString('base64');
+
+// generateContent response of a Gemini image model
+function geminiImage(data = PNG_BASE64) {
+  return {
+    candidates: [{ index: 0, content: { role: 'model', parts: [{ inlineData: { mimeType: 'image/png', data } }] }, finishReason: 'STOP' }],
+  };
+}
+
+// Multipart edit request; files maps field names to the bytes of each file
+function editForm(fields, files) {
+  const form = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    form.append(name, value);
+  }
+  for (const [name, bytes] of files) {
+    form.append(name, new Blob([bytes], { type: 'application/octet-stream' }), 'image.png');
+  }
+  return form;
+}
+
+// Local bucket server that answers every upload with a URL
+async function startBucket() {
+  const uploads = [];
+  const server = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      // The readiness probe also reaches the bucket; only uploads are recorded
+      if (req.method === 'POST') {
+        uploads.push(req.headers['content-type']);
+      }
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ message: 'ok', fileUrl: `http://bucket.test/image-${uploads.length}.png` }));
+    });
+  });
+  await new Promise(resolve => server.listen(0, resolve));
+  server.unref();
+  return { url: `http://localhost:${server.address().port}/upload`, uploads };
+}
+
+async function testImages() {
+  console.log('🧪 Testing the images endpoints...\n');
+
+  let nextResponse = () => geminiImage();
+  const calls = mockGemini(call => nextResponse(call));
+  const bucket = await startBucket();
+  const baseUrl = await startProxy({ ALLOW_ANONYMOUS: 'true', BUCKET_API_URL: bucket.url, GEMINI_RETRY_MAX_ATTEMPTS: '1' });
+  const generate = body => request(baseUrl, 'POST', '/v1/images/generations', { key: TEST_API_KEY, body });
+
+  console.log('🔍 Testing: Gemini image model');
+  let response = await generate({ prompt: 'A red fox', n: 2, size: '1792x1024', response_format: 'b64_json' });
+  let sent = calls[calls.length - 1];
+  check('Request succeeds', response.status === 200, response.text);
+  check('n images are returned as base64', response.json?.data?.length === 2 && response.json.data.every(image => image.b64_json === PNG_BASE64), response.text);
+  check('n images means n Gemini calls', calls.length === 2, `calls: ${calls.length}`);
+  check('Default model is a Gemini image model', sent?.model === 'gemini-2.5-flash-image', sent?.path);
+  check('Only images are requested', JSON.stringify(sent?.body?.generationConfig?.responseModalities) === '["IMAGE"]', sent?.body?.generationConfig);
+  check('size becomes the closest aspect ratio', sent?.body?.generationConfig?.imageConfig?.aspectRatio === '16:9', sent?.body?.generationConfig);
+  console.log('');
+
+  console.log('🔍 Testing: response_format url');
+  response = await generate({ prompt: 'A red fox' });
+  check('Request succeeds', response.status === 200, response.text);
+  check('Image is uploaded to the bucket server', bucket.uploads.length === 1 && bucket.uploads[0].startsWith('multipart/form-data'), bucket.uploads);
+  check('URL of the bucket is returned', response.json?.data?.[0]?.url === 'http://bucket.test/image-1.png', response.text);
+  console.log('');
+
+  console.log('🔍 Testing: Imagen model');
+  calls.length = 0;
+  nextResponse = () => ({
+    predictions: [
+      { bytesBase64Encoded: PNG_BASE64, mimeType: 'image/png' },
+      { bytesBase64Encoded: PNG_BASE64, mimeType: 'image/png' },
+    ],
+  });
+  response = await generate({ model: 'imagen-4.0-generate-001', prompt: 'A red fox', n: 2, size: '1024x1792', response_format: 'b64_json' });
+  sent = calls[0];
+  check('Request succeeds', response.status === 200 && response.json?.data?.every(image => image.b64_json === PNG_BASE64), response.text);
+  check('One predict call for all images', calls.length === 1 && sent?.action === 'predict', calls.map(call => call.path));
+  check('n becomes sampleCount', sent?.body?.parameters?.sampleCount === 2, sent?.body?.parameters);
+  check('size maps to an Imagen aspect ratio', sent?.body?.parameters?.aspectRatio === '9:16', sent?.body?.parameters);
+  console.log('');
+
+  console.log('🔍 Testing: edits');
+  calls.length = 0;
+  nextResponse = () => geminiImage();
+  const image = Buffer.from(PNG_BASE64, 'base64');
+  const mask = Buffer.concat([image, Buffer.from('mask')]);
+  response = await request(baseUrl, 'POST', '/v1/images/edits', {
+    key: TEST_API_KEY,
+    body: editForm({ prompt: 'Add a hat', n: '2', response_format: 'b64_json', use_vertex: 'false' }, [['image[]', image], ['image[]', image], ['mask', mask]]),
+  });
+  const parts = calls[0]?.body?.contents?.[0]?.parts ?? [];
+  check('Request succeeds', response.status === 200 && response.json?.data?.length === 2, response.text);
+  check('n images means n Gemini calls', calls.length === 2, `calls: ${calls.length}`);
+  check('Images, then the mask, then the prompt are sent', parts.length === 4
+    && parts[0].inlineData?.data === PNG_BASE64
+    && parts[2].inlineData?.data === mask.toString('base64')
+    && parts[3].text?.endsWith('Add a hat'), parts.map(part => Object.keys(part)));
+  check('Uploaded bytes are sniffed as PNG', parts[0]?.inlineData?.mimeType === 'image/png', parts[0]?.inlineData?.mimeType);
+  check('The prompt explains the mask', parts[3]?.text?.includes('mask'), parts[3]?.text);
+
+  calls.length = 0;
+  response = await request(baseUrl, 'POST', '/v1/images/edits', { key: TEST_API_KEY, body: editForm({ prompt: 'Add a hat' }, [['image', image]]) });
+  check('A single image field works', response.status === 200 && response.json?.data?.[0]?.url?.startsWith('http://bucket.test/'), response.text);
+  response = await request(baseUrl, 'POST', '/v1/images/edits', { key: TEST_API_KEY, body: editForm({ prompt: 'Add a hat' }, []) });
+  check('Missing image is a 400', response.status === 400, response.text);
+  response = await request(baseUrl, 'POST', '/v1/images/edits', {
+    key: TEST_API_KEY,
+    body: editForm({ prompt: 'Add a hat', model: 'imagen-4.0-generate-001' }, [['image', image]]),
+  });
+  check('Imagen models are a 400', response.status === 400, response.text);
+  response = await request(baseUrl, 'POST', '/v1/images/edits', { key: TEST_API_KEY, body: editForm({ prompt: 'Add a hat' }, [['photo', image]]) });
+  check('Unexpected file field is a JSON 400', response.status === 400 && response.json?.error?.type === 'invalid_request_error', response.text);
+  check('Gemini was called once', calls.length === 1, `calls: ${calls.length}`);
+  console.log('');
+
+  console.log('🔍 Testing: errors');
+  calls.length = 0;
+  response = await generate({ prompt: 'A red fox', n: 11 });
+  check('n above 10 is a 400', response.status === 400, response.text);
+  response = await generate({ prompt: 'A red fox', size: 'huge' });
+  check('Invalid size is a 400', response.status === 400, response.text);
+  response = await generate({ prompt: 'A red fox', response_format: 'png' });
+  check('Unknown response_format is a 400', response.status === 400, response.text);
+  response = await generate({ n: 1 });
+  check('Missing prompt is a 400', response.status === 400, response.text);
+  check('Gemini was not called', calls.length === 0, `calls: ${calls.length}`);
+  nextResponse = () => ({ candidates: [{ index: 0, content: { role: 'model', parts: [{ text: 'I cannot draw that' }] }, finishReason: 'STOP' }] });
+  response = await generate({ prompt: 'Something blocked' });
+  check('No image in the response is a 500', response.status === 500, response.text);
+  nextResponse = () => geminiError(400, 'INVALID_ARGUMENT', 'Image generation is not available in your country');
+  response = await generate({ prompt: 'A red fox' });
+  check('Gemini 400 keeps its status', response.status === 400 && response.json?.error?.message?.includes('not available'), response.text);
+
+  finish('Images tests');
+}
+
+testImages().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,158 @@
+/**
+ * Test script for the Anthropic Messages API (/v1/messages)
+ * Runs the proxy against a mocked Gemini API and checks the request translation, tool use,
+ * thinking blocks, streaming events and errors in the Anthropic envelope
+ */
+
+import { mockGemini, startProxy, request, geminiText, geminiStream, geminiError, check, finish, TEST_API_KEY } from './mock-gemini.js';
+
+const ANTHROPIC_HEADERS = { 'x-api-key': TEST_API_KEY, 'anthropic-version': '2023-06-01' };
+
+// Parse an SSE body into its events
+function parseEvents(text) {
+  return text.split('\n\n').filter(Boolean).map(block => {
+    const event = /^event: (.*)$/m.exec(block)?.[1];
+    const data = /^data: (.*)$/m.exec(block)?.[1];
+    return { event, data: data ? JSON.parse(data) : undefined };
+  });
+}
+
+async function testMessages() {
+  console.log('🧪 Testing /v1/messages...\n');
+
+  let nextResponse = () => geminiText('Io, Europa and Ganymede.');
+  const calls = mockGemini(() => nextResponse());
+  const baseUrl = await startProxy({ GEMINI_RETRY_MAX_ATTEMPTS: '1' });
+
+  console.log('🔍 Testing: basic message');
+  let response = await request(baseUrl, 'POST', '/v1/messages', {
+    headers: ANTHROPIC_HEADERS,
+    body: {
+      model: 'gemini-2.5-flash',
+      max_tokens: 256,
+      temperature: 0.5,
+      stop_sequences: ['END'],
+      system: 'You are a concise assistant.',
+      messages: [{ role: 'user', content: 'Name three moons of Jupiter.' }],
+    },
+  });
+  let sent = calls[calls.length - 1]?.body;
+  check('Request succeeds with x-api-key', response.status === 200, response.text);
+  check('Response is an Anthropic message', response.json?.type === 'message' && response.json?.role === 'assistant', response.text);
+  check('Text block holds the answer', response.json?.content?.[0]?.text === 'Io, Europa and Ganymede.', response.text);
+  check('stop_reason is end_turn', response.json?.stop_reason === 'end_turn', response.text);
+  check('Usage is reported in tokens', response.json?.usage?.input_tokens === 3 && response.json?.usage?.output_tokens === 2, response.text);
+  check('system becomes the system instruction', sent?.systemInstruction?.parts?.[0]?.text === 'You are a concise assistant.', sent);
+  check('max_tokens, temperature and stop_sequences are sent', sent?.generationConfig?.maxOutputTokens === 256
+    && sent?.generationConfig?.temperature === 0.5
+    && sent?.generationConfig?.stopSequences?.[0] === 'END', sent?.generationConfig);
+  console.log('');
+
+  console.log('🔍 Testing: invalid requests');
+  calls.length = 0;
+  response = await request(baseUrl, 'POST', '/v1/messages', {
+    headers: ANTHROPIC_HEADERS,
+    body: { model: 'gemini-2.5-flash', messages: [{ role: 'user', content: 'Hello' }] },
+  });
+  check('Missing max_tokens is a 400', response.status === 400, response.text);
+  check('Anthropic envelope with invalid_request_error', response.json?.type === 'error' && response.json?.error?.type === 'invalid_request_error', response.text);
+  response = await request(baseUrl, 'POST', '/v1/messages', {
+    headers: ANTHROPIC_HEADERS,
+    body: { model: 'gemini-2.5-flash', max_tokens: 64, temperature: 1.5, messages: [{ role: 'user', content: 'Hello' }] },
+  });
+  check('temperature above 1 is a 400', response.status === 400, response.text);
+  check('Gemini was not called', calls.length === 0, `calls: ${calls.length}`);
+  response = await request(baseUrl, 'POST', '/v1/messages', {
+    body: { model: 'gemini-2.5-flash', max_tokens: 64, messages: [{ role: 'user', content: 'Hello' }] },
+  });
+  check('Missing API key is a 401 authentication_error', response.status === 401 && response.json?.error?.type === 'authentication_error', response.text);
+  console.log('');
+
+  console.log('🔍 Testing: tool use');
+  nextResponse = () => ({
+    candidates: [{
+      index: 0,
+      content: { role: 'model', parts: [{ functionCall: { name: 'get_weather', args: { city: 'Jakarta' } }, thoughtSignature: 'c2lnbmF0dXJl' }] },
+      finishReason: 'STOP',
+    }],
+  });
+  const tools = [{ name: 'get_weather', description: 'Weather of a city', input_schema: { type: 'object', properties: { city: { type: 'string' } } } }];
+  response = await request(baseUrl, 'POST', '/v1/messages', {
+    headers: ANTHROPIC_HEADERS,
+    body: { model: 'gemini-2.5-flash', max_tokens: 256, tools, messages: [{ role: 'user', content: 'Weather in Jakarta?' }] },
+  });
+  sent = calls[calls.length - 1]?.body;
+  const toolUse = response.json?.content?.find(block => block.type === 'tool_use');
+  const thinking = response.json?.content?.find(block => block.type === 'thinking');
+  check('Tools become function declarations', sent?.tools?.[0]?.functionDeclarations?.[0]?.name === 'get_weather', sent?.tools);
+  check('stop_reason is tool_use', response.json?.stop_reason === 'tool_use', response.text);
+  check('tool_use block carries the input', toolUse?.name === 'get_weather' && toolUse?.input?.city === 'Jakarta', response.text);
+  check('Thought signature is returned in a thinking block', thinking?.signature === 'c2lnbmF0dXJl', response.text);
+
+  nextResponse = () => geminiText('It is sunny in Jakarta.');
+  response = await request(baseUrl, 'POST', '/v1/messages', {
+    headers: ANTHROPIC_HEADERS,
+    body: {
+      model: 'gemini-2.5-flash',
+      max_tokens: 256,
+      tools,
+      messages: [
+        { role: 'user', content: 'Weather in Jakarta?' },
+        { role: 'assistant', content: response.json?.content },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: toolUse?.id, content: 'Sunny, 31°C' }] },
+      ],
+    },
+  });
+  sent = calls[calls.length - 1]?.body;
+  const modelParts = sent?.contents?.[1]?.parts ?? [];
+  const resultPart = sent?.contents?.[2]?.parts?.[0];
+  check('Follow-up succeeds', response.status === 200, response.text);
+  check('Thought signature is sent back on the function call', modelParts[0]?.functionCall && modelParts[0]?.thoughtSignature === 'c2lnbmF0dXJl', modelParts);
+  check('tool_result becomes a function response named after its tool_use', resultPart?.functionResponse?.name === 'get_weather', resultPart);
+  response = await request(baseUrl, 'POST', '/v1/messages', {
+    headers: ANTHROPIC_HEADERS,
+    body: {
+      model: 'gemini-2.5-flash',
+      max_tokens: 256,
+      messages: [{ role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_unknown', content: 'Sunny' }] }],
+    },
+  });
+  check('tool_result of an unknown tool_use is a 400', response.status === 400 && response.json?.type === 'error', response.text);
+  console.log('');
+
+  console.log('🔍 Testing: streaming');
+  nextResponse = () => geminiStream([
+    { candidates: [{ index: 0, content: { role: 'model', parts: [{ text: 'Io, ' }] } }] },
+    { candidates: [{ index: 0, content: { role: 'model', parts: [{ text: 'Europa' }] }, finishReason: 'MAX_TOKENS' }], usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 2, totalTokenCount: 5 } },
+  ]);
+  response = await request(baseUrl, 'POST', '/v1/messages', {
+    headers: ANTHROPIC_HEADERS,
+    body: { model: 'gemini-2.5-flash', max_tokens: 2, stream: true, messages: [{ role: 'user', content: 'Name moons' }] },
+  });
+  const events = parseEvents(response.text);
+  const names = events.map(event => event.event);
+  const text = events.filter(event => event.data?.delta?.type === 'text_delta').map(event => event.data.delta.text).join('');
+  const messageDelta = events.find(event => event.event === 'message_delta')?.data;
+  check('Response is an event stream', (response.headers.get('content-type') ?? '').includes('text/event-stream'), response.headers.get('content-type'));
+  check('Events come in order', names.join(',') === 'message_start,content_block_start,content_block_delta,content_block_delta,content_block_stop,message_delta,message_stop', names);
+  check('Text deltas add up to the answer', text === 'Io, Europa', text);
+  check('stop_reason is max_tokens', messageDelta?.delta?.stop_reason === 'max_tokens', messageDelta);
+  check('Output tokens are reported', messageDelta?.usage?.output_tokens === 2, messageDelta);
+  console.log('');
+
+  console.log('🔍 Testing: Gemini errors');
+  nextResponse = () => geminiError(429, 'RESOURCE_EXHAUSTED', 'Quota exceeded');
+  response = await request(baseUrl, 'POST', '/v1/messages', {
+    headers: ANTHROPIC_HEADERS,
+    body: { model: 'gemini-2.5-flash', max_tokens: 64, messages: [{ role: 'user', content: 'Hello' }] },
+  });
+  check('RESOURCE_EXHAUSTED is a 429', response.status === 429, response.text);
+  check('Anthropic envelope with rate_limit_error', response.json?.type === 'error' && response.json?.error?.type === 'rate_limit_error', response.text);
+
+  finish('Messages tests');
+}
+
+testMessages().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,98 @@
+/**
+ * Test script for the Prometheus metrics endpoint (/metrics)
+ * Runs the proxy against a mocked Gemini API and checks METRICS_API_KEY, the request counters
+ * with their model labels, token usage and upstream rate limits
+ */
+
+import { mockGemini, startProxy, request, geminiText, geminiError, check, finish } from './mock-gemini.js';
+
+const METRICS_KEY = 'test-metrics-key';
+
+// Value of the sample with exactly these labels, in any order
+function getSample(metricsText, name, labels) {
+  for (const line of metricsText.split('\n')) {
+    const match = /^(\w+)\{(.*)\} (\S+)$/.exec(line);
+    if (!match || match[1] !== name) {
+      continue;
+    }
+    const sampleLabels = Object.fromEntries([...match[2].matchAll(/(\w+)="([^"]*)"/g)].map(label => [label[1], label[2]]));
+    if (Object.keys(sampleLabels).length === Object.keys(labels).length
+      && Object.entries(labels).every(([label, value]) => sampleLabels[label] === value)) {
+      return Number(match[3]);
+    }
+  }
+  return undefined;
+}
+
+async function testMetrics() {
+  console.log('🧪 Testing /metrics...\n');
+
+  const calls = mockGemini(call => {
+    if (call.model === 'gemini-2.5-flash') {
+      // Tokens are labeled with the modelVersion Gemini reports
+      return {
+        ...geminiText('Hello there', { promptTokenCount: 7, candidatesTokenCount: 4, thoughtsTokenCount: 2, totalTokenCount: 13 }),
+        modelVersion: 'gemini-2.5-flash',
+      };
+    }
+    if (call.model === 'gemini-quota') {
+      return geminiError(429, 'RESOURCE_EXHAUSTED', 'Quota exceeded', [
+        { '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '30s' },
+      ]);
+    }
+    return geminiError(404, 'NOT_FOUND', `models/${call.model} is not found`);
+  });
+  const baseUrl = await startProxy({
+    ALLOW_ANONYMOUS: 'true',
+    GEMINI_API_KEY: 'AIzaSyTEST-UPSTREAM-KEY-000000000000000000',
+    METRICS_API_KEY: METRICS_KEY,
+  });
+  const chat = model => request(baseUrl, 'POST', '/v1/chat/completions', {
+    body: { model, messages: [{ role: 'user', content: 'Hello' }] },
+  });
+
+  console.log('🔍 Testing: METRICS_API_KEY');
+  let response = await request(baseUrl, 'GET', '/metrics');
+  check('Missing metrics key is a 401', response.status === 401 && response.json?.error?.type === 'authentication_error', response.text);
+  response = await request(baseUrl, 'GET', '/metrics', { key: 'wrong-metrics-key' });
+  check('Wrong metrics key is a 401', response.status === 401, response.text);
+  response = await request(baseUrl, 'GET', '/metrics', { key: METRICS_KEY });
+  check('Metrics key is accepted', response.status === 200 && response.headers.get('content-type')?.startsWith('text/plain'), response.headers.get('content-type'));
+  check('Process metrics are included', response.text.includes('process_cpu_user_seconds_total'));
+  console.log('');
+
+  console.log('🔍 Testing: request and token counters');
+  await chat('gemini-2.5-flash');
+  await chat('gemini-2.5-flash');
+  await chat('made-up-model-123');
+  await chat('gemini-quota');
+  check('Gemini was called for every request', calls.length === 4, `calls: ${calls.length}`);
+  const metrics = (await request(baseUrl, 'GET', '/metrics', { key: METRICS_KEY })).text;
+  // Samples of a metric, printed when a check fails
+  const samples = name => metrics.split('\n').filter(line => line.startsWith(`${name}{`));
+  const requests = labels => getSample(metrics, 'http_requests_total', { method: 'POST', route: '/v1/chat/completions', ...labels });
+  check('Requests are counted by model and status', requests({ model: 'gemini-2.5-flash', status: '200' }) === 2, samples('http_requests_total'));
+  check('Failed requests are labeled model="other"', requests({ model: 'other', status: '404' }) === 1 && requests({ model: 'other', status: '429' }) === 1,
+    samples('http_requests_total'));
+  check('Made-up model names do not create series', !metrics.includes('made-up-model-123'));
+  check('The metrics endpoint is counted without a model', getSample(metrics, 'http_requests_total', { method: 'GET', route: '/metrics', model: '', status: '401' }) === 2,
+    samples('http_requests_total').filter(line => line.includes('route="/metrics"')));
+  check('Prompt tokens are counted', getSample(metrics, 'gemini_tokens_total', { model: 'gemini-2.5-flash', type: 'prompt' }) === 14,
+    samples('gemini_tokens_total'));
+  check('Completion and thinking tokens are counted', getSample(metrics, 'gemini_tokens_total', { model: 'gemini-2.5-flash', type: 'completion' }) === 8
+    && getSample(metrics, 'gemini_tokens_total', { model: 'gemini-2.5-flash', type: 'thinking' }) === 4,
+    samples('gemini_tokens_total'));
+  check('Upstream rate limits are counted by pool', getSample(metrics, 'gemini_upstream_rate_limits_total', { pool: 'default' }) === 1,
+    samples('gemini_upstream_rate_limits_total'));
+  check('The rate limited key is reported as cooling down', getSample(metrics, 'gemini_upstream_keys', { credential: 'default', status: 'cooling_down' }) === 1,
+    samples('gemini_upstream_keys'));
+  check('Upstream attempts are timed by outcome', getSample(metrics, 'gemini_upstream_request_duration_seconds_count', { upstream: 'api_key', outcome: 'success' }) === 2,
+    samples('gemini_upstream_request_duration_seconds_count'));
+
+  finish('Metrics tests');
+}
+
+testMetrics().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
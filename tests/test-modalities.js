@@ -81,9 +81,9 @@ async function testModalities() {
           console.log(`   Response received with ${typeof result.choices[0].message.content} content`);
         }
       } else {
-        console.log(`❌ Request failed: ${result.error || 'Unknown error'}`);
-        if (result.details) {
-          console.log(`   Details: ${result.details}`);
+        console.log(`❌ Request failed: ${result.error?.message || 'Unknown error'}`);
+        if (result.error?.code) {
+          console.log(`   Code: ${result.error.code}`);
         }
       }
     } catch (error) {
@@ -0,0 +1,105 @@
+/**
+ * Test script for model routes (MODEL_ALIASES with fallbacks and defaults)
+ * Runs the proxy against a mocked Gemini API where some models fail, and checks the fallback chain,
+ * route defaults, the authorization of every fallback and the deadline the chain shares
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { mockGemini, startProxy, request, createClientKey, geminiText, geminiError, check, finish } from './mock-gemini.js';
+
+const ADMIN_KEY = 'test-admin-key';
+const CLIENT_KEYS_FILE = path.join(os.tmpdir(), `gemini-reverse-test-model-routes-${process.pid}.json`);
+const DEADLINE_MS = 600;
+
+const MODEL_ALIASES = {
+  fast: { model: 'gemini-fast-preview', fallbacks: ['gemini-2.5-flash', 'gemini-2.5-pro'], defaults: { temperature: 0.2 } },
+  slow: { model: 'gemini-slow', fallbacks: ['gemini-hanging'] },
+  strict: { model: 'gemini-invalid', fallbacks: ['gemini-2.5-flash'] },
+};
+
+// Wait until the attempt is aborted, like a Gemini call that never answers
+function hang(call) {
+  return new Promise((resolve, reject) => {
+    call.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted.', 'AbortError')));
+  });
+}
+
+async function testModelRoutes() {
+  console.log('🧪 Testing model routes...\n');
+
+  const calls = mockGemini(async call => {
+    switch (call.model) {
+      case 'gemini-fast-preview':
+        return geminiError(404, 'NOT_FOUND', 'models/gemini-fast-preview is not found');
+      case 'gemini-invalid':
+        return geminiError(400, 'INVALID_ARGUMENT', 'Invalid request');
+      case 'gemini-slow':
+        await new Promise(resolve => setTimeout(resolve, 100));
+        return geminiError(503, 'UNAVAILABLE', 'The model is overloaded');
+      case 'gemini-hanging':
+        return hang(call);
+      default:
+        return geminiText(`Answer from ${call.model}`);
+    }
+  });
+  const baseUrl = await startProxy({
+    CLIENT_KEYS_FILE,
+    ADMIN_API_KEY: ADMIN_KEY,
+    GEMINI_API_KEY: 'AIzaSyTEST-UPSTREAM-KEY-000000000000000000',
+    MODEL_ALIASES: JSON.stringify(MODEL_ALIASES),
+  });
+  const full = (await createClientKey(baseUrl, ADMIN_KEY, { name: 'full' })).key;
+  const limited = (await createClientKey(baseUrl, ADMIN_KEY, { name: 'limited', allowed_models: ['fast', 'gemini-fast-preview', 'gemini-2.5-pro'] })).key;
+  const chat = (key, body) => request(baseUrl, 'POST', '/v1/chat/completions', {
+    key,
+    body: { messages: [{ role: 'user', content: 'Hello' }], ...body },
+  });
+  const calledModels = () => calls.map(call => call.model);
+
+  console.log('🔍 Testing: fallback chain');
+  let response = await chat(full, { model: 'fast' });
+  check('Request succeeds', response.status === 200, response.text);
+  check('A 404 moves the request to the next model', JSON.stringify(calledModels()) === '["gemini-fast-preview","gemini-2.5-flash"]', calledModels());
+  check('model is the Gemini model that answered', response.json?.model === 'gemini-2.5-flash', response.text);
+  check('Route defaults are applied', calls[calls.length - 1]?.body?.generationConfig?.temperature === 0.2, calls[calls.length - 1]?.body?.generationConfig);
+  calls.length = 0;
+  await chat(full, { model: 'fast', temperature: 0.9 });
+  check('Request parameters override route defaults', calls[calls.length - 1]?.body?.generationConfig?.temperature === 0.9, calls[calls.length - 1]?.body?.generationConfig);
+  calls.length = 0;
+  response = await chat(full, { model: 'strict' });
+  check('A 400 does not fall back', response.status === 400 && JSON.stringify(calledModels()) === '["gemini-invalid"]', calledModels());
+  console.log('');
+
+  console.log('🔍 Testing: fallbacks and client key allow-lists');
+  calls.length = 0;
+  response = await chat(limited, { model: 'fast' });
+  check('Request succeeds', response.status === 200, response.text);
+  check('A fallback the key may not use is skipped', JSON.stringify(calledModels()) === '["gemini-fast-preview","gemini-2.5-pro"]', calledModels());
+  check('model is the allowed fallback', response.json?.model === 'gemini-2.5-pro', response.text);
+  response = await chat(limited, { model: 'gemini-2.5-flash' });
+  check('The skipped model cannot be requested directly', response.status === 403, response.text);
+  console.log('');
+
+  console.log('🔍 Testing: the chain shares one deadline');
+  calls.length = 0;
+  process.env.GEMINI_REQUEST_TIMEOUT_MS = String(DEADLINE_MS);
+  const startedAt = Date.now();
+  response = await chat(full, { model: 'slow' });
+  const elapsed = Date.now() - startedAt;
+  process.env.GEMINI_REQUEST_TIMEOUT_MS = '';
+  check('The timed out chain is a 504', response.status === 504, response.text);
+  check('The fallback was tried after the retries of the first model', calledModels().filter(model => model === 'gemini-slow').length === 3
+    && calledModels()[calledModels().length - 1] === 'gemini-hanging', calledModels());
+  check('The fallback only got the rest of the deadline', elapsed >= DEADLINE_MS && elapsed < DEADLINE_MS + 250, `elapsed: ${elapsed}ms`);
+
+  fs.rmSync(CLIENT_KEYS_FILE, { force: true });
+  finish('Model route tests');
+}
+
+testModelRoutes().catch(error => {
+  console.error(error);
+  fs.rmSync(CLIENT_KEYS_FILE, { force: true });
+  process.exit(1);
+});
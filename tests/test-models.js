@@ -0,0 +1,77 @@
+/**
+ * Test script for /v1/models and /v1/models/:id
+ * Runs the proxy against a mocked Gemini API and checks paging, aliases, retries and key rotation
+ */
+
+import { mockGemini, startProxy, request, geminiError, check, finish } from './mock-gemini.js';
+
+const POOL_KEYS = ['AIzaSyTEST-POOL-KEY-A000000000000000000000', 'AIzaSyTEST-POOL-KEY-B000000000000000000000'];
+
+function geminiModel(id) {
+  return { name: `models/${id}`, displayName: id, inputTokenLimit: 1048576, outputTokenLimit: 65536, supportedActions: ['generateContent'] };
+}
+
+async function testModels() {
+  console.log('🧪 Testing /v1/models...\n');
+
+  let failNext = undefined;
+  const calls = mockGemini(call => {
+    if (failNext) {
+      const response = failNext;
+      failNext = undefined;
+      return response;
+    }
+    if (call.path.endsWith('/models')) {
+      // Two pages, so the listing has to follow nextPageToken
+      return call.query.get('pageToken') === 'page-2'
+        ? { models: [geminiModel('gemini-2.5-pro')] }
+        : { models: [geminiModel('gemini-2.5-flash')], nextPageToken: 'page-2' };
+    }
+    const id = call.path.split('/').pop();
+    return id.startsWith('gemini-') ? geminiModel(id) : geminiError(404, 'NOT_FOUND', `models/${id} is not found`);
+  });
+  const baseUrl = await startProxy({
+    ALLOW_ANONYMOUS: 'true',
+    GEMINI_API_KEYS: POOL_KEYS.join(','),
+    MODEL_ALIASES: JSON.stringify({ 'gpt-4o': 'gemini-2.5-pro' }),
+  });
+
+  console.log('🔍 Testing: list models');
+  let response = await request(baseUrl, 'GET', '/v1/models');
+  const ids = (response.json?.data ?? []).map(model => model.id);
+  check('Request succeeds', response.status === 200, response.text);
+  check('Models of every page are listed', ids.includes('gemini-2.5-flash') && ids.includes('gemini-2.5-pro'), ids);
+  check('Aliases are listed', ids.includes('gpt-4o'), ids);
+  console.log('');
+
+  console.log('🔍 Testing: a 503 while listing is retried');
+  calls.length = 0;
+  failNext = geminiError(503, 'UNAVAILABLE', 'The model is overloaded');
+  response = await request(baseUrl, 'GET', '/v1/models');
+  check('Request succeeds', response.status === 200, response.text);
+  check('Listing was retried', calls.length === 3, `calls: ${calls.length}`);
+  console.log('');
+
+  console.log('🔍 Testing: a rate limited pool key moves the call to the next key');
+  calls.length = 0;
+  failNext = geminiError(429, 'RESOURCE_EXHAUSTED', 'Quota exceeded');
+  response = await request(baseUrl, 'GET', '/v1/models/gemini-2.5-flash');
+  const usedKeys = calls.map(call => call.headers.get('x-goog-api-key'));
+  check('Request succeeds', response.status === 200, response.text);
+  check('Second attempt used the other pool key', usedKeys.length === 2 && usedKeys[0] !== usedKeys[1], usedKeys.length);
+  console.log('');
+
+  console.log('🔍 Testing: get a model');
+  response = await request(baseUrl, 'GET', '/v1/models/gpt-4o');
+  check('Alias resolves to its Gemini model', response.json?.google_gemini?.alias_for === 'gemini-2.5-pro', response.text);
+  response = await request(baseUrl, 'GET', '/v1/models/unknown-model');
+  check('Unknown model is a 404', response.status === 404, response.text);
+  check('Code is model_not_found', response.json?.error?.code === 'model_not_found', response.text);
+
+  finish('Models tests');
+}
+
+testModels().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
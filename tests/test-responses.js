@@ -0,0 +1,113 @@
+/**
+ * Test script for the Responses API (/v1/responses)
+ * Runs the proxy against a mocked Gemini API with two client keys, and checks previous_response_id,
+ * the bounded response store and that a key only sees and continues its own responses
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { mockGemini, startProxy, request, createClientKey, geminiText, check, finish } from './mock-gemini.js';
+
+const ADMIN_KEY = 'test-admin-key';
+const CLIENT_KEYS_FILE = path.join(os.tmpdir(), `gemini-reverse-test-responses-${process.pid}.json`);
+const STORE_MAX_BYTES = 20000;
+
+const weatherTool = { type: 'function', name: 'get_weather', parameters: { type: 'object', properties: { city: { type: 'string' } } } };
+
+async function testResponses() {
+  console.log('🧪 Testing /v1/responses...\n');
+
+  let nextResponse = () => geminiText('Hello there');
+  const calls = mockGemini(() => nextResponse());
+  const baseUrl = await startProxy({
+    CLIENT_KEYS_FILE,
+    ADMIN_API_KEY: ADMIN_KEY,
+    GEMINI_API_KEY: 'AIzaSyTEST-UPSTREAM-KEY-000000000000000000',
+    RESPONSES_STORE_MAX_ENTRIES: '2',
+    RESPONSES_STORE_MAX_BYTES: String(STORE_MAX_BYTES),
+  });
+  const alice = (await createClientKey(baseUrl, ADMIN_KEY, { name: 'alice' })).key;
+  const bob = (await createClientKey(baseUrl, ADMIN_KEY, { name: 'bob' })).key;
+  const createResponse = (key, body) => request(baseUrl, 'POST', '/v1/responses', { key, body: { model: 'gemini-2.5-flash', ...body } });
+
+  console.log('🔍 Testing: function call continued with previous_response_id');
+  nextResponse = () => ({
+    candidates: [{
+      index: 0,
+      content: { role: 'model', parts: [{ functionCall: { name: 'get_weather', args: { city: 'Jakarta' } } }] },
+      finishReason: 'STOP',
+    }],
+  });
+  let response = await createResponse(alice, { input: 'Weather in Jakarta?', instructions: 'Be brief.', tools: [weatherTool] });
+  const firstId = response.json?.id;
+  const functionCall = response.json?.output?.find(item => item.type === 'function_call');
+  check('Request succeeds', response.status === 200 && response.json?.object === 'response', response.text);
+  check('Function call is returned', functionCall?.name === 'get_weather' && JSON.parse(functionCall?.arguments ?? '{}').city === 'Jakarta', response.text);
+
+  nextResponse = () => geminiText('It is sunny in Jakarta.');
+  response = await createResponse(alice, {
+    previous_response_id: firstId,
+    input: [{ type: 'function_call_output', call_id: functionCall?.call_id, output: 'Sunny, 31°C' }],
+    tools: [weatherTool],
+  });
+  let sent = calls[calls.length - 1]?.body;
+  check('Continuation succeeds', response.status === 200 && response.json?.output_text === 'It is sunny in Jakarta.', response.text);
+  check('previous_response_id is echoed', response.json?.previous_response_id === firstId, response.text);
+  check('Stored turns are sent again', sent?.contents?.length === 3 && sent.contents[1].parts?.[0]?.functionCall?.name === 'get_weather', sent?.contents);
+  check('Output becomes a function response named after its call', sent?.contents?.[2]?.parts?.[0]?.functionResponse?.name === 'get_weather', sent?.contents?.[2]);
+  check('Instructions are not carried over', !sent?.systemInstruction, sent?.systemInstruction);
+  const secondId = response.json?.id;
+  console.log('');
+
+  console.log('🔍 Testing: access by another client key');
+  response = await request(baseUrl, 'GET', `/v1/responses/${secondId}`, { key: bob });
+  check('Get by another key is a 404', response.status === 404, response.text);
+  calls.length = 0;
+  response = await createResponse(bob, { previous_response_id: secondId, input: 'And tomorrow?' });
+  check('previous_response_id of another key is a 404', response.status === 404 && response.json?.error?.code === 'previous_response_not_found', response.text);
+  check('Gemini was not called', calls.length === 0, `calls: ${calls.length}`);
+  response = await request(baseUrl, 'DELETE', `/v1/responses/${secondId}`, { key: bob });
+  check('Delete by another key is a 404', response.status === 404, response.text);
+  response = await request(baseUrl, 'GET', `/v1/responses/${secondId}`, { key: alice });
+  check('Owner still gets the response', response.status === 200 && response.json?.id === secondId, response.text);
+  console.log('');
+
+  console.log('🔍 Testing: store limits');
+  response = await createResponse(alice, { input: 'Do not keep this', store: false });
+  response = await request(baseUrl, 'GET', `/v1/responses/${response.json?.id}`, { key: alice });
+  check('store: false responses are not stored', response.status === 404, response.text);
+  response = await createResponse(alice, { input: 'A third response' });
+  const thirdId = response.json?.id;
+  response = await request(baseUrl, 'GET', `/v1/responses/${firstId}`, { key: alice });
+  check('Oldest response is evicted above RESPONSES_STORE_MAX_ENTRIES', response.status === 404, response.text);
+  response = await request(baseUrl, 'GET', `/v1/responses/${thirdId}`, { key: alice });
+  check('Newest response is kept', response.status === 200, response.text);
+  response = await createResponse(alice, { input: 'x'.repeat(STORE_MAX_BYTES) });
+  const largeId = response.json?.id;
+  check('Response above RESPONSES_STORE_MAX_BYTES is still returned', response.status === 200 && !!largeId, response.text);
+  response = await request(baseUrl, 'GET', `/v1/responses/${largeId}`, { key: alice });
+  check('Response above RESPONSES_STORE_MAX_BYTES is not stored', response.status === 404, response.text);
+  response = await request(baseUrl, 'GET', `/v1/responses/${thirdId}`, { key: alice });
+  check('Storing nothing evicts nothing', response.status === 200, response.text);
+  console.log('');
+
+  console.log('🔍 Testing: delete and invalid requests');
+  response = await request(baseUrl, 'DELETE', `/v1/responses/${thirdId}`, { key: alice });
+  check('Owner deletes the response', response.status === 200 && response.json?.deleted === true, response.text);
+  response = await request(baseUrl, 'GET', `/v1/responses/${thirdId}`, { key: alice });
+  check('Deleted response is gone', response.status === 404, response.text);
+  response = await createResponse(alice, { input: 'Hello', stream: true });
+  check('stream: true is a 400', response.status === 400, response.text);
+  response = await createResponse(alice, { previous_response_id: 'resp_unknown', input: 'Hello' });
+  check('Unknown previous_response_id is a 404', response.status === 404 && response.json?.error?.param === 'previous_response_id', response.text);
+
+  fs.rmSync(CLIENT_KEYS_FILE, { force: true });
+  finish('Responses tests');
+}
+
+testResponses().catch(error => {
+  console.error(error);
+  fs.rmSync(CLIENT_KEYS_FILE, { force: true });
+  process.exit(1);
+});
@@ -0,0 +1,119 @@
+/**
+ * Test script for streaming chat completions
+ * Sends stream: true requests and prints the received chat.completion.chunk events
+ */
+
+const API_BASE_URL = 'http://localhost:3000';
+
+async function readSSE(response, onEvent) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of response.body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let separatorIndex;
+    while ((separatorIndex = buffer.indexOf('\n\n')) !== -1) {
+      const rawEvent = buffer.substring(0, separatorIndex);
+      buffer = buffer.substring(separatorIndex + 2);
+      if (rawEvent.startsWith('data: ')) {
+        onEvent(rawEvent.substring(6));
+      }
+    }
+  }
+}
+
+async function testStreaming() {
+  console.log('🧪 Testing streaming chat completions...\n');
+
+  const tests = [
+    {
+      name: 'Plain text stream',
+      body: {
+        model: 'gemini-2.5-flash',
+        stream: true,
+        messages: [{ role: 'user', content: 'Count from 1 to 20, one number per line.' }]
+      }
+    },
+    {
+      name: 'Stream with usage',
+      body: {
+        model: 'gemini-2.5-flash',
+        stream: true,
+        stream_options: { include_usage: true },
+        messages: [{ role: 'user', content: 'Write a short poem about rivers.' }]
+      }
+    },
+    {
+      name: 'Stream with Google Search grounding',
+      body: {
+        model: 'gemini-2.5-flash',
+        stream: true,
+        tools: [{ googleSearch: {} }],
+        messages: [{ role: 'user', content: 'What is the latest stable Node.js release?' }]
+      }
+    }
+  ];
+
+  for (const test of tests) {
+    console.log(`🔍 Testing: ${test.name}`);
+    try {
+      const response = await fetch(`${API_BASE_URL}/v1/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${process.env.GEMINI_API_KEY || 'test-key'}`
+        },
+        body: JSON.stringify(test.body)
+      });
+
+      if (!response.ok) {
+        console.log(`❌ Request failed: ${response.status} ${response.statusText}`);
+        console.log(`   Error: ${await response.text()}`);
+        continue;
+      }
+
+      console.log(`   Content-Type: ${response.headers.get('content-type')}`);
+
+      let chunkCount = 0;
+      let text = '';
+      let finishReason = null;
+      let usage = null;
+      let groundingSeen = false;
+      let doneSeen = false;
+
+      await readSSE(response, (data) => {
+        if (data === '[DONE]') {
+          doneSeen = true;
+          return;
+        }
+        const chunk = JSON.parse(data);
+        if (chunk.error) {
+          console.log(`❌ In-stream error: ${JSON.stringify(chunk)}`);
+          return;
+        }
+        chunkCount++;
+        const choice = chunk.choices[0];
+        if (typeof choice?.delta?.content === 'string') {
+          text += choice.delta.content;
+        }
+        if (choice?.google_gemini_body) groundingSeen = true;
+        if (choice?.finish_reason) finishReason = choice.finish_reason;
+        if (chunk.usage) usage = chunk.usage;
+      });
+
+      console.log(`✅ Received ${chunkCount} chunks`);
+      console.log(`   Text: ${text.substring(0, 100)}...`);
+      console.log(`   Finish reason: ${finishReason}`);
+      console.log(`   Usage: ${usage ? JSON.stringify(usage) : 'not included'}`);
+      console.log(`   Grounding metadata: ${groundingSeen ? 'present' : 'absent'}`);
+      console.log(`   [DONE] received: ${doneSeen}`);
+    } catch (error) {
+      console.log(`❌ Request error: ${error.message}`);
+    }
+    console.log('');
+  }
+
+  console.log('🏁 Streaming tests completed!');
+}
+
+// Run the test
+testStreaming().catch(console.error);
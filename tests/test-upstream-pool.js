@@ -0,0 +1,85 @@
+/**
+ * Test script for the upstream key pool (GEMINI_API_KEYS)
+ * Runs the proxy against a mocked Gemini API that rate limits some keys, and checks round robin
+ * rotation, failover to the next key, cooldowns and the 429 once every key is cooling down
+ */
+
+import { mockGemini, startProxy, request, geminiText, geminiError, check, finish } from './mock-gemini.js';
+
+const ADMIN_KEY = 'test-admin-key';
+const POOL_KEYS = [
+  'AIzaSyTEST-POOL-KEY-A000000000000000000000',
+  'AIzaSyTEST-POOL-KEY-B000000000000000000000',
+  'AIzaSyTEST-POOL-KEY-C000000000000000000000',
+];
+
+function rateLimited() {
+  return geminiError(429, 'RESOURCE_EXHAUSTED', 'Quota exceeded', [
+    { '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '30s' },
+  ]);
+}
+
+async function testUpstreamPool() {
+  console.log('🧪 Testing the upstream key pool...\n');
+
+  // Keys in this set answer 429
+  const exhaustedKeys = new Set();
+  const calls = mockGemini(call => (exhaustedKeys.has(call.headers.get('x-goog-api-key')) ? rateLimited() : geminiText('Hello there')));
+  const baseUrl = await startProxy({ ALLOW_ANONYMOUS: 'true', ADMIN_API_KEY: ADMIN_KEY, GEMINI_API_KEYS: POOL_KEYS.join(',') });
+  const chat = () => request(baseUrl, 'POST', '/v1/chat/completions', {
+    body: { model: 'gemini-2.5-flash', messages: [{ role: 'user', content: 'Hello' }] },
+  });
+  const usedKeys = () => calls.map(call => call.headers.get('x-goog-api-key'));
+
+  console.log('🔍 Testing: round robin');
+  for (let i = 0; i < POOL_KEYS.length; i++) {
+    await chat();
+  }
+  check('Every key is used once', new Set(usedKeys()).size === POOL_KEYS.length && calls.length === POOL_KEYS.length, usedKeys());
+  console.log('');
+
+  console.log('🔍 Testing: a rate limited key');
+  calls.length = 0;
+  exhaustedKeys.add(POOL_KEYS[0]);
+  const statuses = [];
+  for (let i = 0; i < POOL_KEYS.length; i++) {
+    statuses.push((await chat()).status);
+  }
+  const keyAfter429 = usedKeys()[usedKeys().indexOf(POOL_KEYS[0]) + 1];
+  check('Every request succeeds', statuses.every(status => status === 200), statuses);
+  check('The request on the rate limited key moved to another key', calls.length === POOL_KEYS.length + 1 && keyAfter429 && keyAfter429 !== POOL_KEYS[0], usedKeys());
+  let response = await request(baseUrl, 'GET', '/admin/upstreams', { key: ADMIN_KEY });
+  const health = response.json?.data?.find(upstream => upstream.name === 'default');
+  const cooling = health?.keys?.filter(key => key.status === 'cooling_down') ?? [];
+  const now = Date.now() / 1000;
+  check('The key is cooling down for the reported retryDelay', cooling.length === 1 && cooling[0].rate_limited === 1
+    && cooling[0].cooldown_until > now + 25 && cooling[0].cooldown_until <= now + 31, health?.keys);
+  check('The other keys are healthy', health?.healthy_keys === POOL_KEYS.length - 1, health);
+  calls.length = 0;
+  for (let i = 0; i < POOL_KEYS.length * 2; i++) {
+    await chat();
+  }
+  check('The cooling key is skipped', !usedKeys().includes(POOL_KEYS[0]) && calls.length === POOL_KEYS.length * 2, usedKeys());
+  console.log('');
+
+  console.log('🔍 Testing: every key rate limited');
+  calls.length = 0;
+  POOL_KEYS.forEach(key => exhaustedKeys.add(key));
+  response = await chat();
+  check('The request is a 429', response.status === 429 && response.json?.error?.type === 'rate_limit_error', response.text);
+  check('Both healthy keys were tried', calls.length === 2 && !usedKeys().includes(POOL_KEYS[0]), usedKeys());
+  check('Retry-After is sent', Number(response.headers.get('retry-after')) > 0, response.headers.get('retry-after'));
+  calls.length = 0;
+  response = await chat();
+  const retryAfter = Number(response.headers.get('retry-after'));
+  check('A pool that is cooling down answers 429 right away', response.status === 429 && calls.length === 0, `${response.status}, calls: ${calls.length}`);
+  check('Retry-After is the time until the first key is usable', retryAfter > 25 && retryAfter <= 30, response.headers.get('retry-after'));
+  check('Code is rate_limit_exceeded', response.json?.error?.code === 'rate_limit_exceeded', response.text);
+
+  finish('Upstream pool tests');
+}
+
+testUpstreamPool().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
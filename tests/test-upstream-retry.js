@@ -0,0 +1,76 @@
+/**
+ * Test script for upstream retries
+ * Runs the proxy against a mocked Gemini API that fails the way the Gemini SDK reports
+ * network errors, and checks that they are retried and finally reported as 502
+ */
+
+import { isTransientError, getRetryBackoffMs, getRetryPolicy } from '../src/upstreamRetry';
+import { toHttpError } from '../src/errors';
+import { mockGemini, startProxy, request, geminiText, geminiError, check, finish, TEST_API_KEY } from './mock-gemini.js';
+
+// The SDK rethrows every fetch failure as this plain Error, without cause or code
+const SDK_NETWORK_ERROR = new Error('exception TypeError: fetch failed sending request');
+
+const chatBody = { model: 'gemini-2.5-flash', messages: [{ role: 'user', content: 'Hello' }] };
+
+async function testUpstreamRetry() {
+  console.log('🧪 Testing upstream retries...\n');
+
+  console.log('🔍 Testing: error classification');
+  const policy = getRetryPolicy();
+  check('SDK-wrapped fetch failure is transient', isTransientError(SDK_NETWORK_ERROR));
+  check('SDK-wrapped fetch failure gets a backoff', getRetryBackoffMs(SDK_NETWORK_ERROR, 1, policy) !== undefined);
+  check('ECONNRESET in the message is transient', isTransientError(new Error('exception Error: read ECONNRESET sending request')));
+  check('ENOTFOUND in the message is transient', isTransientError(new Error('getaddrinfo ENOTFOUND generativelanguage.googleapis.com')));
+  check('Aborted request is not transient', !isTransientError(new Error('exception AbortError: This operation was aborted sending request')));
+  check('Unrelated error is not transient', !isTransientError(new Error('Cannot read properties of undefined')));
+  check('SDK-wrapped fetch failure maps to 502', toHttpError(SDK_NETWORK_ERROR).status === 502);
+  console.log('');
+
+  let failuresLeft = 0;
+  let failure = 'network';
+  const calls = mockGemini(() => {
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      if (failure === 'network') {
+        // The SDK wraps this as "exception TypeError: fetch failed sending request"
+        throw new TypeError('fetch failed');
+      }
+      return geminiError(400, 'INVALID_ARGUMENT', 'Invalid request');
+    }
+    return geminiText('Hi there');
+  });
+  const baseUrl = await startProxy({ GEMINI_RETRY_MAX_ATTEMPTS: '3' });
+
+  console.log('🔍 Testing: network failures followed by a success');
+  calls.length = 0;
+  failuresLeft = 2;
+  let response = await request(baseUrl, 'POST', '/v1/chat/completions', { key: TEST_API_KEY, body: chatBody });
+  check('Request succeeds after two network failures', response.status === 200, response.text);
+  check('Gemini was called three times', calls.length === 3, `calls: ${calls.length}`);
+  console.log('');
+
+  console.log('🔍 Testing: network failures on every attempt');
+  calls.length = 0;
+  failuresLeft = 10;
+  response = await request(baseUrl, 'POST', '/v1/chat/completions', { key: TEST_API_KEY, body: chatBody });
+  check('Request fails with 502', response.status === 502, response.text);
+  check('Error type is server_error', response.json?.error?.type === 'server_error', response.text);
+  check('Gemini was called GEMINI_RETRY_MAX_ATTEMPTS times', calls.length === 3, `calls: ${calls.length}`);
+  console.log('');
+
+  console.log('🔍 Testing: a 400 from Gemini is not retried');
+  calls.length = 0;
+  failuresLeft = 1;
+  failure = 'invalid';
+  response = await request(baseUrl, 'POST', '/v1/chat/completions', { key: TEST_API_KEY, body: chatBody });
+  check('Request fails with 400', response.status === 400, response.text);
+  check('Gemini was called once', calls.length === 1, `calls: ${calls.length}`);
+
+  finish('Upstream retry tests');
+}
+
+testUpstreamRetry().catch(error => {
+  console.error(error);
+  process.exit(1);
+});